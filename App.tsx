@@ -1,53 +1,224 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   StyleSheet, 
   Alert,
   AppState,
   AppStateStatus,
+  BackHandler,
+  Linking,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import EmergencyDetectionScreen from './src/screens/EmergencyDetectionScreen';
 import EmergencyConfirmationScreen from './src/screens/EmergencyConfirmationScreen';
 import EmergencyInProgressScreen from './src/screens/EmergencyInProgressScreen';
 import EmergencyFollowUpScreen from './src/screens/EmergencyFollowUpScreen';
+import SilentEmergencyScreen from './src/screens/SilentEmergencyScreen';
+import HealthcareHomeScreen from './src/screens/HealthcareHomeScreen';
+import MedicalProfileScreen from './src/screens/MedicalProfileScreen';
+import CareCoordinatorScreen from './src/screens/CareCoordinatorScreen';
+import CheckInScreen from './src/screens/CheckInScreen';
+import EmergencyHistoryScreen from './src/screens/EmergencyHistoryScreen';
+import EmergencySettingsScreen from './src/screens/EmergencySettingsScreen';
+import CancelPinPrompt from './src/components/emergency/CancelPinPrompt';
+import EmergencyShortcut from './src/components/emergency/EmergencyShortcut';
+import { AccessibilityProvider } from './src/contexts/AccessibilityContext';
 import { ScreenReaderAnnouncer } from './src/utils/accessibility';
-import { EmergencyStatus, EmergencySession, MedicalProfile } from './src/types/accessibility';
+import { 
+  AppRoute,
+  EmergencyStatus, 
+  EmergencySession, 
+  EmergencyTrigger, 
+  EmergencyType, 
+  EmergencyTransitionOptions,
+  EmergencyFlowProps,
+  ContactAlertProgress,
+  ContactAlertStatus,
+  MedicalProfile 
+} from './src/types/accessibility';
 import { SecureStorage } from './src/services/SecureStorage';
+import { EmergencySessionRepository } from './src/services/EmergencySessionRepository';
 import { LocationService } from './src/services/LocationService';
 import { EmergencyContactService } from './src/services/EmergencyContactService';
+import { EmergencyNumberService } from './src/services/EmergencyNumberService';
+import { EmergencyStateMachine } from './src/services/EmergencyStateMachine';
+import { createEmergencyFlowEffects } from './src/services/EmergencyFlowEffects';
+import { EscalationService, EscalationController } from './src/services/EscalationService';
+import { acknowledgeEscalation } from './src/services/EscalationLadder';
+import { EmergencyLocationTracker } from './src/services/EmergencyLocationTracker';
+import { FallDetectionController } from './src/services/FallDetectionService';
+import { CheckInService, CheckInController, escalateMissedCheckIn } from './src/services/CheckInService';
+import { CheckInBackgroundTask } from './src/services/CheckInBackgroundTask';
+import { NotificationResponseController } from './src/services/NotificationActionService';
+import { ContactAcknowledgementController } from './src/services/ContactAcknowledgementService';
+import { NotificationOutboxController } from './src/services/NotificationOutboxService';
+import { CONTACT_PROGRESS_LABELS } from './src/services/ContactAcknowledgements';
+import { CancellationPinService, DURESS_AUDIT_ACTION } from './src/services/CancellationPinService';
+import {
+  ROUTE_TITLES,
+  canGoBack,
+  createRouteStack,
+  currentRoute,
+  popRoute,
+  pushRoute
+} from './src/services/AppNavigation';
+import { DeepLinkService, DeepLinkLaunch, parseDeepLink } from './src/services/DeepLinkService';
 
-// App now uses EmergencyStatus from types
+// Someone deliberately asked for help, so the countdown can be short
+const MANUAL_TRIGGERS: EmergencyTrigger[] = ['button', 'deep_link', 'help_notification'];
 
 export default function App() {
   const [appState, setAppState] = useState(AppState.currentState);
   const [emergencyStatus, setEmergencyStatus] = useState<EmergencyStatus>('detection');
   const [emergencySession, setEmergencySession] = useState<EmergencySession | null>(null);
   const [medicalProfile, setMedicalProfile] = useState<MedicalProfile | null>(null);
+  const [emergencyTrigger, setEmergencyTrigger] = useState<EmergencyTrigger>('button');
+  const [emergencyType, setEmergencyType] = useState<EmergencyType>('general');
+  const [nextCheckInDue, setNextCheckInDue] = useState<string | null>(null);
+  const [isCancelPinVisible, setIsCancelPinVisible] = useState(false);
+  const [isDuressRevealed, setIsDuressRevealed] = useState(false);
+  const [routeStack, setRouteStack] = useState<AppRoute[]>(createRouteStack);
+  const medicalProfileRef = useRef<MedicalProfile | null>(null);
+  medicalProfileRef.current = medicalProfile;
+
+  // The state machine owns the emergency lifecycle; React only mirrors its state
+  const machineRef = useRef<EmergencyStateMachine | null>(null);
+  if (!machineRef.current) {
+    machineRef.current = new EmergencyStateMachine({
+      effects: createEmergencyFlowEffects({
+        getMedicalProfile: () => medicalProfileRef.current,
+        sessionRepository: EmergencySessionRepository,
+        locationService: LocationService,
+        contactService: EmergencyContactService,
+        emergencyNumberService: EmergencyNumberService,
+        announcer: ScreenReaderAnnouncer,
+        getEscalationPolicy: () => EscalationService.getPolicy()
+      })
+    });
+  }
+  const machine = machineRef.current;
+  const acknowledgementControllerRef = useRef<ContactAcknowledgementController | null>(null);
 
   useEffect(() => {
+    const unsubscribe = machine.subscribe(state => {
+      setEmergencyStatus(state.status);
+      setEmergencySession(state.session);
+
+      // Keep the device quiet for as long as a silent emergency is active.
+      // Trigger and type come from the live session only, so a rejected
+      // request or the previous session left on screen never changes them.
+      if (!EmergencyStateMachine.isActiveStatus(state.status)) {
+        ScreenReaderAnnouncer.setSilent(false);
+        setIsCancelPinVisible(false);
+        setEmergencyTrigger('button');
+        setEmergencyType('general');
+      } else if (state.session && EmergencyStateMachine.isActiveStatus(state.session.status)) {
+        setEmergencyTrigger(state.session.trigger || 'button');
+        setEmergencyType(state.session.emergencyType || 'general');
+        ScreenReaderAnnouncer.setSilent(state.session.emergencyType === 'silent');
+      }
+    });
+
+    const escalationController = new EscalationController({
+      machine,
+      getMedicalProfile: () => medicalProfileRef.current,
+      onEmergencyServicesDue: promptEmergencyServices
+    });
+    escalationController.start();
+
+    const locationTracker = new EmergencyLocationTracker({
+      machine,
+      getMedicalProfile: () => medicalProfileRef.current
+    });
+    locationTracker.start();
+
+    const fallDetectionController = new FallDetectionController({
+      machine,
+      onFallDetected: () => handleStatusChange('confirmation', { trigger: 'fall_detection' })
+    });
+    fallDetectionController.start();
+
+    const acknowledgementController = new ContactAcknowledgementController({
+      machine,
+      onProgress: announceContactProgress
+    });
+    acknowledgementController.start();
+    acknowledgementControllerRef.current = acknowledgementController;
+
+    const outboxController = new NotificationOutboxController({
+      machine,
+      send: (contact, message) => EmergencyContactService.resend(contact, message)
+    });
+    outboxController.start();
+
+    const checkInController = new CheckInController({
+      onCheckInMissed: handleCheckInMissed,
+      onSchedulesChanged: schedules => {
+        setNextCheckInDue(CheckInService.getNextDue(schedules));
+        CheckInBackgroundTask.sync(schedules);
+      }
+    });
+    checkInController.start();
+    CheckInBackgroundTask.setForegroundHandler(handleCheckInMissed);
+
+    return () => {
+      unsubscribe();
+      escalationController.stop();
+      locationTracker.stop();
+      fallDetectionController.stop();
+      acknowledgementController.stop();
+      acknowledgementControllerRef.current = null;
+      outboxController.stop();
+      checkInController.stop();
+      CheckInBackgroundTask.setForegroundHandler(null);
+      machine.dispose();
+    };
+  }, [machine]);
+
+  useEffect(() => {
+    const notificationController = new NotificationResponseController({
+      onHelpRequested: handleHelpRequested
+    });
+
     // Initialize app - load medical profile and check for active emergency session
     const initializeApp = async () => {
       try {
         const profile = await SecureStorage.getMedicalProfile();
-        const session = await SecureStorage.getEmergencySession();
+        const session = await EmergencySessionRepository.getLatestSession();
         
         setMedicalProfile(profile);
-        
-        if (session && session.status !== 'completed' && session.status !== 'cancelled') {
-          setEmergencySession(session);
-          setEmergencyStatus(session.status);
-        } else {
-          setEmergencySession(null);
-          setEmergencyStatus('detection');
-        }
+        machine.restore(session);
       } catch (error) {
         console.error('Failed to initialize app:', error);
       }
+
+      // Act on the launch link only once any restored session is in place
+      try {
+        const initialUrl = await Linking.getInitialURL();
+        if (initialUrl) {
+          await handleDeepLink(initialUrl, 'cold_start');
+        }
+      } catch (error) {
+        console.error('Failed to handle launch link:', error);
+      }
+
+      // Likewise for a notification button that launched the app
+      await notificationController.start();
     };
 
     initializeApp();
 
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      handleDeepLink(url, 'running');
+    });
+
+    return () => {
+      subscription.remove();
+      notificationController.stop();
+    };
+  }, [machine]);
+
+  useEffect(() => {
     // App state handling for accessibility
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (
@@ -70,142 +241,80 @@ export default function App() {
     };
   }, [appState]);
 
-  const handleStatusChange = async (newStatus: EmergencyStatus) => {
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      // Back must never leave an emergency that is under way
+      if (EmergencyStateMachine.isActiveStatus(machine.getState().status)) {
+        return true;
+      }
+      if (canGoBack(routeStack)) {
+        goBack();
+        return true;
+      }
+      return false;
+    });
+
+    return () => subscription.remove();
+  }, [machine, routeStack]);
+
+  const navigate = (route: AppRoute) => {
+    setRouteStack(stack => pushRoute(stack, route));
+  };
+
+  const goBack = () => {
+    setRouteStack(stack => popRoute(stack));
+  };
+
+  const handleDeepLink = async (url: string, launch: DeepLinkLaunch) => {
+    const link = parseDeepLink(url);
+    if (!link) {
+      await DeepLinkService.recordActivation(url, null, launch, 'ignored');
+      return;
+    }
+
+    let outcome: string;
+    if (link.route) {
+      navigate(link.route);
+      outcome = `opened ${ROUTE_TITLES[link.route]}`;
+    } else if (EmergencyStateMachine.isActiveStatus(machine.getState().status)) {
+      outcome = 'emergency already active';
+    } else {
+      // Same countdown as the button so an accidental scan can still be cancelled
+      await handleStatusChange('confirmation', { trigger: 'deep_link' });
+      outcome = 'confirmation countdown started';
+    }
+
+    await DeepLinkService.recordActivation(url, link, launch, outcome);
+  };
+
+  const handleHelpRequested = async (): Promise<string> => {
+    if (EmergencyStateMachine.isActiveStatus(machine.getState().status)) {
+      return 'emergency already active';
+    }
+    await handleStatusChange('confirmation', { trigger: 'help_notification' });
+    return 'confirmation countdown started';
+  };
+
+  const handleProfileSaved = async () => {
+    try {
+      // The emergency flow reads the profile from state, so refresh it now
+      setMedicalProfile(await SecureStorage.getMedicalProfile());
+    } catch (error) {
+      console.error('Failed to reload medical profile:', error);
+    }
+    goBack();
+  };
+
+  const handleStatusChange = async (newStatus: EmergencyStatus, options: EmergencyTransitionOptions = {}) => {
     try {
-      setEmergencyStatus(newStatus);
+      const result = await machine.transition(newStatus, options);
       
-      if (newStatus === 'confirmation') {
-        // Create new emergency session
-        const sessionId = `emergency_${Date.now()}`;
-        const session: EmergencySession = {
-          id: sessionId,
-          startTime: new Date().toISOString(),
-          status: 'confirmation',
-          medicalProfileId: medicalProfile?.id || 'unknown',
-          contactsNotified: [],
-          auditLog: [{
-            timestamp: new Date().toISOString(),
-            action: 'emergency_initiated',
-            details: 'Emergency button pressed'
-          }]
-        };
-        
-        setEmergencySession(session);
-        await SecureStorage.saveEmergencySession(session);
-        
-      } else if (newStatus === 'in_progress') {
-        if (emergencySession) {
-          let location: any = null;
-          let locationStatus = 'unavailable';
-          
-          try {
-            // Attempt to get location with timeout for emergency situations
-            location = await Promise.race([
-              LocationService.getLocationForEmergency(),
-              new Promise((_, reject) => 
-                setTimeout(() => reject(new Error('Location timeout')), 5000)
-              )
-            ]);
-            
-            if (location) {
-              locationStatus = 'obtained';
-            } else {
-              locationStatus = 'permission_denied';
-            }
-          } catch (error) {
-            console.warn('Location request timed out or failed during emergency:', error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            locationStatus = errorMessage === 'Location timeout' ? 'timeout' : 'failed';
-            location = null;
-          }
-          
-          const updatedSession: EmergencySession = {
-            ...emergencySession,
-            status: 'in_progress',
-            location: location || undefined,
-            auditLog: [
-              ...emergencySession.auditLog,
-              {
-                timestamp: new Date().toISOString(),
-                action: 'emergency_confirmed',
-                details: `Emergency confirmed - Location: ${locationStatus}`
-              }
-            ]
-          };
-          
-          // Notify emergency contacts if profile exists
-          if (medicalProfile) {
-            try {
-              const notifiedContacts = await EmergencyContactService.notifyEmergencyContacts(
-                medicalProfile,
-                updatedSession,
-                location || undefined
-              );
-              
-              updatedSession.contactsNotified = notifiedContacts;
-              updatedSession.auditLog.push({
-                timestamp: new Date().toISOString(),
-                action: 'contacts_notified',
-                details: `Notified ${notifiedContacts.length} contacts - Location status: ${locationStatus}`
-              });
-            } catch (contactError) {
-              console.error('Failed to notify emergency contacts:', contactError);
-              updatedSession.auditLog.push({
-                timestamp: new Date().toISOString(),
-                action: 'contact_notification_failed',
-                details: `Failed to notify contacts: ${contactError}`
-              });
-            }
-          }
-          
-          setEmergencySession(updatedSession);
-          await SecureStorage.saveEmergencySession(updatedSession);
-          
-          // Provide user feedback about location status
-          if (locationStatus === 'permission_denied') {
-            ScreenReaderAnnouncer.announce(
-              'Emergency activated. Location permission was denied - emergency contacts will be notified without location.',
-              { priority: 'high' }
-            );
-          } else if (locationStatus === 'obtained') {
-            ScreenReaderAnnouncer.announce(
-              'Emergency activated. Your location and medical information are being shared with emergency contacts.',
-              { priority: 'high' }
-            );
-          } else {
-            ScreenReaderAnnouncer.announce(
-              'Emergency activated. Emergency contacts are being notified. Location information unavailable.',
-              { priority: 'high' }
-            );
-          }
-        }
-        
-      } else if (newStatus === 'completed' || newStatus === 'cancelled') {
-        if (emergencySession) {
-          const updatedSession: EmergencySession = {
-            ...emergencySession,
-            status: newStatus,
-            auditLog: [
-              ...emergencySession.auditLog,
-              {
-                timestamp: new Date().toISOString(),
-                action: `emergency_${newStatus}`,
-                details: `Emergency ${newStatus}`
-              }
-            ]
-          };
-          
-          setEmergencySession(updatedSession);
-          await SecureStorage.saveEmergencySession(updatedSession);
-        }
-        
-        // After a delay, return to detection screen
-        setTimeout(() => {
-          setEmergencyStatus('detection');
-          setEmergencySession(null);
-        }, 3000);
+      if (!result.accepted) {
+        console.warn(`Emergency transition rejected: ${result.reason}`);
+      } else if (newStatus === 'cancelled' || newStatus === 'completed') {
+        // A closed emergency always returns to the home screen
+        setRouteStack(createRouteStack());
       }
-      
     } catch (error) {
       console.error('Failed to handle status change:', error);
       Alert.alert(
@@ -216,7 +325,126 @@ export default function App() {
     }
   };
 
+  const handleSilentEmergency = async () => {
+    // Silence before the first transition so nothing is spoken
+    ScreenReaderAnnouncer.setSilent(true);
+    await handleStatusChange('confirmation', { emergencyType: 'silent', category: 'personal_safety' });
+    // Silent emergencies skip the visible countdown
+    await handleStatusChange('in_progress');
+  };
+
+  const promptEmergencyServices = () => {
+    if (machine.getState().session?.emergencyType === 'silent') {
+      // An alert on screen could give the user away
+      return;
+    }
+
+    const emergencyNumber = machine.getState().session?.emergencyNumber?.number || 'emergency services';
+
+    ScreenReaderAnnouncer.announce(
+      `No one has responded to your emergency alert. Please call ${emergencyNumber} now.`,
+      { priority: 'high' }
+    );
+    Alert.alert(
+      'No Response From Contacts',
+      `None of your contacts have acknowledged the emergency. Please call ${emergencyNumber} now.`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Call Now', onPress: () => handleCallEmergencyServices() }
+      ]
+    );
+  };
+
+  const handleCallEmergencyServices = async () => {
+    const session = machine.getState().session;
+    if (!session) return;
+
+    try {
+      const emergencyNumber = session.emergencyNumber
+        || await EmergencyNumberService.resolveForLocation(session.location);
+      const attempt = await EmergencyNumberService.dial(emergencyNumber);
+
+      await machine.updateSession(current => ({
+        ...current,
+        emergencyNumber: current.emergencyNumber || emergencyNumber,
+        emergencyCalls: [...(current.emergencyCalls || []), attempt],
+        auditLog: [
+          ...current.auditLog,
+          {
+            timestamp: attempt.timestamp,
+            action: 'emergency_services_call_attempted',
+            details: `Call to ${attempt.number}: ${attempt.outcome}`
+          }
+        ]
+      }));
+
+      if (attempt.outcome !== 'dialer_opened') {
+        Alert.alert(
+          'Unable to Call',
+          `This device could not start a call. Please dial ${attempt.number} from another phone.`,
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Failed to call emergency services:', error);
+    }
+  };
+
+  const handleResponseAcknowledged = async () => {
+    await machine.updateSession(session => {
+      if (!session.escalation) return session;
+      
+      return {
+        ...session,
+        escalation: acknowledgeEscalation(session.escalation, 'user'),
+        auditLog: [
+          ...session.auditLog,
+          {
+            timestamp: new Date().toISOString(),
+            action: 'escalation_acknowledged',
+            details: 'User confirmed a contact is responding - escalation stopped'
+          }
+        ]
+      };
+    });
+    ScreenReaderAnnouncer.announce('Escalation stopped. A contact is responding.', { priority: 'medium' });
+  };
+
+  const handleContactAcknowledged = async (contactName: string, status: ContactAlertProgress) => {
+    await acknowledgementControllerRef.current?.markContact(contactName, status);
+  };
+
+  const announceContactProgress = (contact: ContactAlertStatus) => {
+    // Delivery receipts are shown but not worth interrupting for
+    if (contact.status === 'sent' || contact.status === 'delivered') return;
+    ScreenReaderAnnouncer.announce(
+      `${contact.contactName}: ${CONTACT_PROGRESS_LABELS[contact.status].toLowerCase()}.`,
+      { priority: 'high' }
+    );
+  };
+
+  const handleCheckIn = async () => {
+    try {
+      await CheckInService.checkIn();
+      ScreenReaderAnnouncer.announce('Checked in. Thank you.', { priority: 'medium' });
+    } catch (error) {
+      console.error('Failed to check in:', error);
+      Alert.alert('Error', 'Failed to record your check-in. Please try again.');
+    }
+  };
+
+  const handleCheckInMissed = () => escalateMissedCheckIn(machine);
+
   const handleEmergencyCancel = async () => {
+    if (await CancellationPinService.isEnabled()) {
+      setIsCancelPinVisible(true);
+      return;
+    }
+
+    await cancelEmergency();
+  };
+
+  const cancelEmergency = async () => {
     try {
       await handleStatusChange('cancelled');
       ScreenReaderAnnouncer.announce('Emergency cancelled. Returning to main screen.', { priority: 'medium' });
@@ -225,6 +453,93 @@ export default function App() {
     }
   };
 
+  const handleCancelPinSubmit = async (pin: string): Promise<boolean> => {
+    const result = await CancellationPinService.verify(pin);
+
+    if (result === 'invalid') {
+      await machine.updateSession(session => ({
+        ...session,
+        auditLog: [
+          ...session.auditLog,
+          {
+            timestamp: new Date().toISOString(),
+            action: 'cancellation_pin_rejected',
+            details: 'Incorrect PIN entered - emergency not cancelled'
+          }
+        ]
+      }));
+      return false;
+    }
+
+    setIsCancelPinVisible(false);
+    if (result === 'duress') {
+      await handleDuressCancel();
+    } else {
+      await cancelEmergency();
+    }
+    return true;
+  };
+
+  const handleDuressCancel = async () => {
+    // Look exactly like a normal cancellation, then carry on silently
+    await ScreenReaderAnnouncer.announce('Emergency cancelled. Returning to main screen.', { priority: 'medium' });
+    ScreenReaderAnnouncer.setSilent(true, { finishCurrent: true });
+    setIsDuressRevealed(false);
+    setRouteStack(createRouteStack());
+
+    const duressAt = new Date().toISOString();
+    await machine.updateSession(session => ({
+      ...session,
+      emergencyType: 'silent',
+      duressAt,
+      auditLog: [
+        ...session.auditLog,
+        {
+          timestamp: duressAt,
+          action: DURESS_AUDIT_ACTION,
+          details: 'Duress PIN entered - cancellation shown, emergency continuing silently'
+        }
+      ]
+    }));
+
+    // Cancelling during the countdown must still raise the alarm
+    if (machine.getState().status === 'confirmation') {
+      await handleStatusChange('in_progress');
+    }
+
+    await sendDuressAlert();
+  };
+
+  const sendDuressAlert = async () => {
+    const session = machine.getState().session;
+    const profile = medicalProfileRef.current;
+    if (!session || !profile) return;
+
+    try {
+      const notified = await EmergencyContactService.sendDuressAlert(
+        profile.emergencyContacts,
+        profile,
+        session,
+        session.location
+      );
+
+      await machine.updateSession(current => ({
+        ...current,
+        contactsNotified: Array.from(new Set([...current.contactsNotified, ...notified])),
+        auditLog: [
+          ...current.auditLog,
+          {
+            timestamp: new Date().toISOString(),
+            action: DURESS_AUDIT_ACTION,
+            details: `Coded duress alert sent to ${notified.length} of ${profile.emergencyContacts.length} contacts: ${notified.join(', ')}`
+          }
+        ]
+      }));
+    } catch (error) {
+      console.error('Failed to send duress alert:', error);
+    }
+  };
+
   const showHelpDialog = () => {
     Alert.alert(
       'Help & Instructions',
@@ -235,44 +550,125 @@ export default function App() {
   };
 
   const renderCurrentScreen = () => {
+    const isEmergencyActive = EmergencyStateMachine.isActiveStatus(emergencyStatus);
+    // After a duress cancellation the app must look like the emergency ended;
+    // holding any emergency button reveals the silent screen
+    const isDuressDecoy = Boolean(emergencySession?.duressAt) && !isDuressRevealed && isEmergencyActive;
+    const silentEmergencyHandler = isDuressDecoy
+      ? () => setIsDuressRevealed(true)
+      : handleSilentEmergency;
+
     const commonProps = {
       currentStatus: emergencyStatus,
       session: emergencySession,
       medicalProfile,
       onStatusChange: handleStatusChange,
-      onCancel: handleEmergencyCancel
+      onCancel: handleEmergencyCancel,
+      onResponseAcknowledged: handleResponseAcknowledged,
+      onContactAcknowledged: handleContactAcknowledged,
+      onCallEmergencyServices: handleCallEmergencyServices,
+      nextCheckInDue,
+      onCheckIn: handleCheckIn,
+      onSilentEmergency: silentEmergencyHandler
     };
 
+    if (isEmergencyActive && !isDuressDecoy) {
+      return renderEmergencyScreen(commonProps);
+    }
+
+    const route = currentRoute(routeStack);
+    return (
+      <>
+        {renderRoute(route, commonProps)}
+        {route !== 'home' && route !== 'emergency' && (
+          <EmergencyShortcut
+            onPress={() => handleStatusChange('confirmation')}
+            onLongPress={silentEmergencyHandler}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderEmergencyScreen = (commonProps: EmergencyFlowProps) => {
+    if (emergencyType === 'silent') {
+      return (
+        <SilentEmergencyScreen {...commonProps} />
+      );
+    }
+
     switch (emergencyStatus) {
       case 'confirmation':
         return (
           <EmergencyConfirmationScreen
             onConfirm={() => handleStatusChange('in_progress')}
             onCancel={handleEmergencyCancel}
-            countdownSeconds={10}
+            countdownSeconds={MANUAL_TRIGGERS.includes(emergencyTrigger) ? 10 : 30}
+            trigger={emergencyTrigger}
           />
         );
+      case 'follow_up':
+        return (
+          <EmergencyFollowUpScreen {...commonProps} />
+        );
       case 'in_progress':
+      default:
         return (
           <EmergencyInProgressScreen {...commonProps} />
         );
-      case 'follow_up':
+    }
+  };
+
+  const renderRoute = (route: AppRoute, commonProps: EmergencyFlowProps) => {
+    switch (route) {
+      case 'emergency':
         return (
-          <EmergencyFollowUpScreen {...commonProps} />
+          <EmergencyDetectionScreen {...commonProps} onBack={goBack} />
+        );
+      case 'medical-profile':
+        return (
+          <MedicalProfileScreen onProfileSaved={handleProfileSaved} onCancel={goBack} />
+        );
+      case 'care-coordinators':
+        return (
+          <CareCoordinatorScreen onCancel={goBack} />
+        );
+      case 'check-ins':
+        return (
+          <CheckInScreen onBack={goBack} />
         );
-      case 'detection':
+      case 'emergency-history':
+        return (
+          <EmergencyHistoryScreen onBack={goBack} />
+        );
+      case 'emergency-settings':
+        return (
+          <EmergencySettingsScreen onBack={goBack} />
+        );
+      case 'home':
       default:
         return (
-          <EmergencyDetectionScreen {...commonProps} />
+          <HealthcareHomeScreen
+            onNavigate={navigate}
+            onEmergency={() => handleStatusChange('confirmation')}
+            onSilentEmergency={commonProps.onSilentEmergency}
+          />
         );
     }
   };
 
   return (
-    <View style={styles.container}>
-      <StatusBar style="dark" backgroundColor="#FFFFFF" />
-      {renderCurrentScreen()}
-    </View>
+    <AccessibilityProvider>
+      <View style={styles.container}>
+        <StatusBar style="dark" backgroundColor="#FFFFFF" />
+        {renderCurrentScreen()}
+        <CancelPinPrompt
+          visible={isCancelPinVisible}
+          onSubmit={handleCancelPinSubmit}
+          onDismiss={() => setIsCancelPinVisible(false)}
+        />
+      </View>
+    </AccessibilityProvider>
   );
 }
 
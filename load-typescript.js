@@ -0,0 +1,23 @@
+// Lets the test scripts load the app's TypeScript modules under plain Node.
+// Usage: const { loadTypeScriptModule } = require('./load-typescript');
+//        const { detectFalls } = loadTypeScriptModule('src/services/FallDetector.ts');
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Modules the loaded file imports are transpiled the same way
+require.extensions['.ts'] = (mod, file) => {
+  const source = fs.readFileSync(file, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true }
+  });
+  mod._compile(outputText, file);
+};
+
+/**
+ * Load a module by its path from the project root.
+ */
+const loadTypeScriptModule = (file) => require(path.resolve(__dirname, file));
+
+module.exports = { loadTypeScriptModule };
@@ -0,0 +1,36 @@
+// Shared runner for the test scripts' scenarios.
+// Usage: const { runScenarios, reportResults } = require('./run-scenarios');
+//        reportResults(await runScenarios(scenarios), 'vCard');
+
+/**
+ * Run each scenario in order and print whether it passed. A scenario's `run`
+ * returns (or resolves to) true when it passes; anything it throws is printed
+ * and counts as a failure. Returns the number of failures.
+ */
+const runScenarios = async (scenarios) => {
+  let failures = 0;
+  for (const scenario of scenarios) {
+    let passed = false;
+    try {
+      passed = Boolean(await scenario.run());
+    } catch (error) {
+      console.log(`      ${error.message}`);
+    }
+    console.log(`   ${passed ? '✓' : '❌'} ${scenario.name}`);
+    if (!passed) failures++;
+  }
+  return failures;
+};
+
+/**
+ * Exit with an error if any scenario failed, so `npm test` fails too.
+ */
+const reportResults = (failures, subject) => {
+  if (failures > 0) {
+    process.exit(1);
+  }
+
+  console.log(`\n🎉 ${subject} testing complete!`);
+};
+
+module.exports = { runScenarios, reportResults };
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+
+// Runs every test-*.js script in turn and fails if any of them fails.
+// Usage: npm test
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const scripts = fs.readdirSync(__dirname)
+  .filter(file => /^test-.*\.js$/.test(file))
+  .sort();
+
+const failed = scripts.filter(script => {
+  console.log(`\n▶ ${script}`);
+  const { status } = spawnSync(process.execPath, [path.join(__dirname, script)], { stdio: 'inherit', cwd: __dirname });
+  return status !== 0;
+});
+
+if (failed.length > 0) {
+  console.log(`\n❌ ${failed.length} of ${scripts.length} test scripts failed: ${failed.join(', ')}`);
+  process.exit(1);
+}
+
+console.log(`\n✅ All ${scripts.length} test scripts passed`);
@@ -0,0 +1,214 @@
+#!/usr/bin/env node
+
+// Local stand-in for a Twilio-compatible SMS gateway, for development and tests.
+// Usage: node sms-gateway-stub.js   (PORT defaults to 4010)
+// Point the app's gateway address at http://<this machine>:4010 with any
+// account SID, the auth token "stub-token" and any sending number.
+//
+// Messages move from queued to sent to delivered. Numbers ending 0000 end up
+// undelivered (phone off) and numbers ending 1111 fail (landline), so error
+// handling can be exercised. Nothing is ever actually sent.
+//
+// Simulate a contact replying with:
+//   curl -d From=+61400123456 -d To=<sending number> -d "Body=OMW 1234" http://localhost:4010/inbound
+
+const http = require('http');
+
+const AUTH_TOKEN = 'stub-token';
+const DEFAULT_PORT = 4010;
+
+const MESSAGE_PATH = /^\/2010-04-01\/Accounts\/([^/]+)\/Messages(?:\/([^/]+))?\.json$/;
+
+const errorBody = (status, code, message) => ({ status, code, message, more_info: `https://www.twilio.com/docs/errors/${code}` });
+
+// Final status for a number, and the error code that goes with it
+const outcomeFor = (to) => {
+  if (to.endsWith('0000')) return { status: 'undelivered', errorCode: 30003, errorMessage: 'Unreachable destination handset' };
+  if (to.endsWith('1111')) return { status: 'failed', errorCode: 30006, errorMessage: 'Landline or unreachable carrier' };
+  return { status: 'delivered' };
+};
+
+const createGatewayStub = ({ stepMs = 1000 } = {}) => {
+  const messages = new Map();
+  const timers = new Set();
+  let counter = 0;
+
+  const later = (fn, delay) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, delay);
+    timers.add(timer);
+  };
+
+  const toJson = (message) => ({
+    sid: message.sid,
+    account_sid: message.accountSid,
+    to: message.to,
+    from: message.from,
+    body: message.body,
+    direction: message.direction,
+    status: message.status,
+    error_code: message.errorCode || null,
+    error_message: message.errorMessage || null,
+    date_created: message.dateCreated,
+    date_updated: message.dateUpdated,
+    date_sent: message.dateCreated,
+  });
+
+  const advance = (message, status, extra = {}) => {
+    Object.assign(message, { status, dateUpdated: new Date().toUTCString() }, extra);
+    console.log(`   ${message.sid} → ${status}${message.errorCode ? ` (${message.errorCode})` : ''}`);
+  };
+
+  const createMessage = (accountSid, form) => {
+    const now = new Date().toUTCString();
+    counter += 1;
+    const message = {
+      sid: `SM${String(counter).padStart(32, '0')}`,
+      accountSid,
+      to: form.get('To'),
+      from: form.get('From'),
+      body: form.get('Body') || '',
+      direction: 'outbound-api',
+      status: 'queued',
+      dateCreated: now,
+      dateUpdated: now,
+    };
+    messages.set(message.sid, message);
+    console.log(`📨 ${message.sid} to ${message.to}: ${message.body.split('\n')[0]}`);
+
+    const { status, ...error } = outcomeFor(message.to);
+    later(() => advance(message, status === 'failed' ? 'failed' : 'sent', status === 'failed' ? error : {}), stepMs);
+    if (status !== 'failed') {
+      later(() => advance(message, status, error), stepMs * 2);
+    }
+    return message;
+  };
+
+  // A contact's reply; it belongs to whichever account sent to that number
+  const receiveMessage = (form) => {
+    const sentTo = [...messages.values()].find(message => message.to === form.get('From'));
+    const now = new Date().toUTCString();
+    counter += 1;
+    const message = {
+      sid: `SM${String(counter).padStart(32, '0')}`,
+      accountSid: sentTo ? sentTo.accountSid : 'ACstub',
+      to: form.get('To'),
+      from: form.get('From'),
+      body: form.get('Body') || '',
+      direction: 'inbound',
+      status: 'received',
+      dateCreated: now,
+      dateUpdated: now,
+    };
+    messages.set(message.sid, message);
+    console.log(`📥 ${message.sid} from ${message.from}: ${message.body}`);
+    return message;
+  };
+
+  // The list filters the real API supports that the app uses
+  const matchesFilters = (message, query) => {
+    const dateSentAfter = query.get('DateSent>');
+    return (!query.get('To') || message.to === query.get('To'))
+      && (!query.get('From') || message.from === query.get('From'))
+      && (!dateSentAfter || new Date(message.dateCreated) >= new Date(dateSentAfter));
+  };
+
+  const readBody = (req) => new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+
+  const isAuthorised = (req, accountSid) => {
+    const header = req.headers.authorization || '';
+    const [scheme, encoded] = header.split(' ');
+    if (scheme !== 'Basic' || !encoded) return false;
+    return Buffer.from(encoded, 'base64').toString() === `${accountSid}:${AUTH_TOKEN}`;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(req.url, 'http://localhost');
+
+      if (req.method === 'POST' && url.pathname === '/reset') {
+        messages.clear();
+        return send(200, { reset: true });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/inbound') {
+        const form = new URLSearchParams(await readBody(req));
+        if (!form.get('From') || !form.get('To')) {
+          return send(400, errorBody(400, 21604, "Both 'From' and 'To' are required."));
+        }
+        return send(201, toJson(receiveMessage(form)));
+      }
+
+      const match = url.pathname.match(MESSAGE_PATH);
+      if (!match) {
+        return send(404, errorBody(404, 20404, 'The requested resource was not found'));
+      }
+
+      const [, accountSid, messageSid] = match;
+      if (!isAuthorised(req, accountSid)) {
+        return send(401, errorBody(401, 20003, 'Authenticate'));
+      }
+
+      if (req.method === 'POST' && !messageSid) {
+        const form = new URLSearchParams(await readBody(req));
+        if (!/^\+[1-9]\d{6,14}$/.test(form.get('To') || '')) {
+          return send(400, errorBody(400, 21211, `The 'To' number ${form.get('To')} is not a valid phone number.`));
+        }
+        if (!form.get('From')) {
+          return send(400, errorBody(400, 21606, "The 'From' phone number is not a valid, SMS-capable number."));
+        }
+        return send(201, toJson(createMessage(accountSid, form)));
+      }
+
+      if (req.method === 'GET' && messageSid) {
+        const message = messages.get(messageSid);
+        return message && message.accountSid === accountSid
+          ? send(200, toJson(message))
+          : send(404, errorBody(404, 20404, `The requested resource ${url.pathname} was not found`));
+      }
+
+      if (req.method === 'GET') {
+        const list = [...messages.values()]
+          .filter(message => message.accountSid === accountSid && matchesFilters(message, url.searchParams))
+          .map(toJson);
+        return send(200, { messages: list });
+      }
+
+      send(405, errorBody(405, 20004, 'Method not allowed'));
+    } catch (error) {
+      send(500, errorBody(500, 20500, String(error)));
+    }
+  });
+
+  return {
+    server,
+    messages,
+    listen: (port = DEFAULT_PORT) => new Promise(resolve => server.listen(port, () => resolve(server.address().port))),
+    close: () => new Promise(resolve => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+module.exports = { createGatewayStub, AUTH_TOKEN };
+
+if (require.main === module) {
+  const stub = createGatewayStub();
+  stub.listen(Number(process.env.PORT) || DEFAULT_PORT).then(port => {
+    console.log(`📡 SMS gateway stub listening on http://localhost:${port} (auth token "${AUTH_TOKEN}")`);
+  });
+}
@@ -0,0 +1,202 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  ContactAlertProgress,
+  ContactAlertStatus,
+  ContactDelivery,
+  ContactDeliveryState
+} from '../../types/accessibility';
+import {
+  CONTACT_PROGRESS_LABELS,
+  describeContactProgress,
+  isResponding,
+  summariseContactProgress
+} from '../../services/ContactAcknowledgements';
+import { describeContactDelivery, summariseContactDeliveries } from '../../services/ContactDeliveries';
+import EmergencyButton from '../emergency/EmergencyButton';
+import { WCAG_CONSTANTS } from '../../utils/accessibility';
+
+interface ContactStatusCardProps {
+  statuses: ContactAlertStatus[];
+  // Where each contact's alert got to; contacts without a status show this
+  deliveries?: ContactDelivery[];
+  // Leave out to show statuses without the buttons
+  onMark?: (contactName: string, status: ContactAlertProgress) => void;
+  style?: any;
+}
+
+const STATUS_ICONS: Record<ContactAlertProgress, string> = {
+  sent: '📤',
+  delivered: '📨',
+  acknowledged: '👀',
+  en_route: '🚗',
+};
+
+const DELIVERY_ICONS: Record<ContactDeliveryState, string> = {
+  queued: '⏳',
+  handed_off: '📤',
+  cancelled_by_user: '✋',
+  failed: '⚠️',
+};
+
+export const ContactStatusCard: React.FC<ContactStatusCardProps> = ({
+  statuses,
+  deliveries = [],
+  onMark,
+  style
+}) => {
+  const nextStatus = (status: ContactAlertProgress): ContactAlertProgress | null => {
+    if (status === 'en_route') return null;
+    return isResponding(status) ? 'en_route' : 'acknowledged';
+  };
+
+  const contactNames = [
+    ...deliveries.map(delivery => delivery.contactName),
+    ...statuses.map(status => status.contactName),
+  ].filter((name, index, names) => names.indexOf(name) === index);
+
+  const renderDelivery = (delivery: ContactDelivery) => {
+    const description = describeContactDelivery(delivery, deliveries);
+    const notSent = delivery.state === 'failed' || delivery.state === 'cancelled_by_user';
+    return (
+      <View key={delivery.contactName} style={styles.contactRow}>
+        <View
+          style={styles.contactInfo}
+          accessible={true}
+          accessibilityLabel={`${delivery.contactName}: ${description}`}
+        >
+          <Text style={styles.contactName}>
+            {DELIVERY_ICONS[delivery.state]} {delivery.contactName}
+          </Text>
+          <Text
+            style={[styles.contactStatus, notSent && styles.contactNotSent]}
+            accessibilityLiveRegion="polite"
+          >
+            {description}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.card, style]}>
+      <Text style={styles.title} accessibilityRole="header">
+        Contacts
+      </Text>
+      {deliveries.length > 0 && (
+        <Text style={styles.summary} accessibilityLiveRegion="polite">
+          {summariseContactDeliveries(deliveries)}
+        </Text>
+      )}
+      {statuses.length > 0 && (
+        <Text style={styles.summary} accessibilityLiveRegion="polite">
+          {summariseContactProgress(statuses)}
+        </Text>
+      )}
+
+      {contactNames.map(contactName => {
+        const contact = statuses.find(status => status.contactName === contactName);
+        if (!contact) {
+          return renderDelivery(deliveries.find(delivery => delivery.contactName === contactName)!);
+        }
+        const next = nextStatus(contact.status);
+        return (
+          <View key={contact.contactName} style={styles.contactRow}>
+            <View
+              style={styles.contactInfo}
+              accessible={true}
+              accessibilityLabel={`${contact.contactName}: ${describeContactProgress(contact)}`
+                + (contact.replyCode ? `. Reply code ${contact.replyCode.split('').join(' ')}` : '')}
+            >
+              <Text style={styles.contactName}>
+                {STATUS_ICONS[contact.status]} {contact.contactName}
+              </Text>
+              <Text
+                style={[styles.contactStatus, isResponding(contact.status) && styles.contactResponding]}
+                accessibilityLiveRegion="polite"
+              >
+                {describeContactProgress(contact)}
+              </Text>
+              {contact.replyCode && <Text style={styles.replyCode}>Reply code {contact.replyCode}</Text>}
+            </View>
+
+            {onMark && next && (
+              <EmergencyButton
+                onPress={() => onMark(contact.contactName, next)}
+                size="small"
+                accessibilityLabel={next === 'en_route'
+                  ? `${contact.contactName} is on the way`
+                  : `${contact.contactName} has seen the alert`}
+                accessibilityHint={`Marks ${contact.contactName} as ${CONTACT_PROGRESS_LABELS[next].toLowerCase()}, for replies that came by phone or another app`}
+                style={styles.markButton}
+              />
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#e3f2fd',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderLeftWidth: 4,
+    borderLeftColor: '#1976d2',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  summary: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#333333',
+    marginBottom: 8,
+    lineHeight: 22,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  contactInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  contactName: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  contactStatus: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#555555',
+    marginTop: 2,
+  },
+  contactResponding: {
+    color: '#2e7d32',
+    fontWeight: '600',
+  },
+  contactNotSent: {
+    color: '#c62828',
+    fontWeight: '600',
+  },
+  replyCode: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE - 2,
+    color: '#666666',
+    marginTop: 2,
+  },
+  markButton: {
+    backgroundColor: '#1976d2',
+    borderColor: '#1976d2',
+  },
+});
+
+export default ContactStatusCard;
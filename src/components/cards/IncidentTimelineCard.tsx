@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { EmergencyContact, EmergencySession } from '../../types/accessibility';
+import {
+  buildIncidentTimeline,
+  describeContactOutcome,
+  describeIncidentTimeline,
+  formatDuration,
+  formatLocationSnapshot
+} from '../../services/IncidentTimeline';
+import EmergencyButton from '../emergency/EmergencyButton';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../../utils/accessibility';
+
+interface IncidentTimelineCardProps {
+  session: EmergencySession;
+  // Profile contacts, so anyone who was never alerted is listed too
+  contacts?: EmergencyContact[];
+  style?: any;
+}
+
+export const IncidentTimelineCard: React.FC<IncidentTimelineCardProps> = ({
+  session,
+  contacts,
+  style
+}) => {
+  const [isReading, setIsReading] = useState(false);
+  const timeline = useMemo(() => buildIncidentTimeline(session, contacts), [session, contacts]);
+  const descriptions = useMemo(() => describeIncidentTimeline(timeline), [timeline]);
+
+  const readAloud = async () => {
+    setIsReading(true);
+    try {
+      await ScreenReaderAnnouncer.announceList(
+        descriptions.map(message => ({ message, priority: 'medium' }))
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <View style={[styles.card, style]}>
+      <Text style={styles.title} accessibilityRole="header">
+        Incident Timeline
+      </Text>
+
+      {timeline.phases.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} accessibilityRole="header">Key Times</Text>
+          {timeline.phases.map(phase => (
+            <View
+              key={phase.label}
+              style={styles.phaseRow}
+              accessible={true}
+              accessibilityLabel={`${phase.label}: ${formatDuration(phase.durationMs)}`}
+            >
+              <Text style={styles.phaseLabel}>{phase.label}</Text>
+              <Text style={styles.phaseValue}>{formatDuration(phase.durationMs)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle} accessibilityRole="header">Events</Text>
+        {timeline.entries.map((entry, index) => (
+          <View
+            key={`${entry.timestamp}_${index}`}
+            style={styles.entry}
+            accessible={true}
+            // First line is the summary; the rest are the events in order
+            accessibilityLabel={descriptions[index + 1]}
+          >
+            <Text style={styles.entryTime}>
+              {entry.elapsedMs === 0 ? 'Start' : `+${formatDuration(entry.elapsedMs)}`}
+              {' • '}
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </Text>
+            <Text style={styles.entryLabel}>{entry.label}</Text>
+            {entry.details && (
+              <Text style={styles.entryDetails}>{entry.details}</Text>
+            )}
+            {entry.location && (
+              <Text style={styles.entryDetails}>📍 {formatLocationSnapshot(entry.location)}</Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {timeline.contacts.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} accessibilityRole="header">Contacts</Text>
+          {timeline.contacts.map(contact => (
+            <View
+              key={contact.name}
+              style={styles.contactRow}
+              accessible={true}
+              accessibilityLabel={`${contact.name}: ${describeContactOutcome(contact)}`}
+            >
+              <Text style={styles.contactName}>{contact.name}</Text>
+              <Text style={[styles.contactOutcome, !contact.alertedBy && styles.contactNotAlerted]}>
+                {describeContactOutcome(contact)}
+                {contact.alertedAt && ` at ${new Date(contact.alertedAt).toLocaleTimeString()}`}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.buttonContainer}>
+        <EmergencyButton
+          onPress={readAloud}
+          size="small"
+          disabled={isReading}
+          accessibilityLabel="Read timeline aloud"
+          accessibilityHint="Reads every event, key time and contact outcome in order"
+          style={styles.readButton}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#dddddd',
+    borderLeftWidth: 4,
+    borderLeftColor: '#2196f3',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  phaseRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  phaseLabel: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#333333',
+    flex: 1,
+  },
+  phaseValue: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    fontWeight: '600',
+    color: '#1976d2',
+  },
+  entry: {
+    paddingLeft: 12,
+    paddingBottom: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: '#90caf9',
+  },
+  entryTime: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE - 2,
+    color: '#666666',
+  },
+  entryLabel: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  entryDetails: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE - 2,
+    color: '#555555',
+    lineHeight: 18,
+  },
+  contactRow: {
+    marginBottom: 8,
+  },
+  contactName: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  contactOutcome: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE - 2,
+    color: '#2e7d32',
+  },
+  contactNotAlerted: {
+    color: '#c62828',
+  },
+  buttonContainer: {
+    alignItems: 'center',
+  },
+  readButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+  },
+});
+
+export default IncidentTimelineCard;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import AccessibleTextInput from '../forms/AccessibleTextInput';
+import EmergencyButton from './EmergencyButton';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../../utils/accessibility';
+
+export interface CancelPinPromptProps {
+  visible: boolean;
+  /** Resolves false when the PIN was not accepted */
+  onSubmit: (pin: string) => Promise<boolean>;
+  onDismiss: () => void;
+}
+
+/**
+ * Asks for the cancellation PIN. A duress PIN is accepted exactly like the
+ * real one, so nothing on screen gives away which was entered.
+ */
+export const CancelPinPrompt: React.FC<CancelPinPromptProps> = ({
+  visible,
+  onSubmit,
+  onDismiss
+}) => {
+  const [pin, setPin] = useState('');
+  const [errorText, setErrorText] = useState<string | undefined>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setErrorText(undefined);
+      ScreenReaderAnnouncer.announce('Enter your PIN to cancel the emergency.', { priority: 'high' });
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!pin || isChecking) return;
+
+    setIsChecking(true);
+    try {
+      const accepted = await onSubmit(pin);
+      if (!accepted) {
+        setPin('');
+        setErrorText('Incorrect PIN. The emergency is still active.');
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        await ScreenReaderAnnouncer.announce('Incorrect PIN. The emergency is still active.', { priority: 'high' });
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onDismiss}
+      accessible={true}
+      accessibilityViewIsModal={true}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title} accessibilityRole="header">
+            Cancel Emergency
+          </Text>
+          <Text style={styles.message}>
+            Enter your PIN to cancel the emergency.
+          </Text>
+
+          <AccessibleTextInput
+            label="PIN"
+            value={pin}
+            onChangeText={text => setPin(text.replace(/\D/g, ''))}
+            errorText={errorText}
+            keyboardType="number-pad"
+            secureTextEntry={true}
+            maxLength={8}
+            autoFocus={true}
+            onSubmitEditing={handleSubmit}
+          />
+
+          <View style={styles.buttonContainer}>
+            <EmergencyButton
+              onPress={handleSubmit}
+              size="small"
+              disabled={!pin || isChecking}
+              accessibilityLabel="Cancel emergency"
+              accessibilityHint="Cancels the emergency if the PIN is correct"
+              style={styles.confirmButton}
+            />
+            <EmergencyButton
+              onPress={onDismiss}
+              size="small"
+              accessibilityLabel="Keep emergency active"
+              accessibilityHint="Closes this prompt without cancelling"
+              style={styles.dismissButton}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#555555',
+    lineHeight: 24,
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    gap: 12,
+    alignItems: 'center',
+  },
+  confirmButton: {
+    backgroundColor: '#666666',
+    borderColor: '#666666',
+  },
+  dismissButton: {
+    backgroundColor: '#4caf50',
+    borderColor: '#4caf50',
+  },
+});
+
+export default CancelPinPrompt;
@@ -12,8 +12,12 @@ import * as Haptics from 'expo-haptics';
 import { EmergencyButtonProps } from '../../types/accessibility';
 import { ScreenReaderAnnouncer, WCAG_CONSTANTS, AccessibilityHelpers } from '../../utils/accessibility';
 
+// Long enough that an ordinary press never triggers the hold gesture
+const LONG_PRESS_DELAY_MS = 1500;
+
 const EmergencyButton: React.FC<EmergencyButtonProps> = ({ 
   onPress, 
+  onLongPress,
   disabled = false,
   size = 'large',
   style,
@@ -58,6 +62,12 @@ const EmergencyButton: React.FC<EmergencyButtonProps> = ({
     }
   };
 
+  const handleLongPress = () => {
+    if (disabled || !onLongPress) return;
+    // Deliberately silent - no haptics or announcements
+    onLongPress();
+  };
+
   const sizeStyles = getSizeStyles();
 
   return (
@@ -85,6 +95,14 @@ const EmergencyButton: React.FC<EmergencyButtonProps> = ({
         hitSlop={AccessibilityHelpers.getHitSlop(15)}
         
         onPress={handlePress}
+        onLongPress={onLongPress ? handleLongPress : undefined}
+        delayLongPress={LONG_PRESS_DELAY_MS}
+        accessibilityActions={onLongPress ? [{ name: 'longpress' }] : undefined}
+        onAccessibilityAction={event => {
+          if (event.nativeEvent.actionName === 'longpress') {
+            handleLongPress();
+          }
+        }}
         onPressIn={() => setIsPressed(true)}
         onPressOut={() => setIsPressed(false)}
         disabled={disabled}
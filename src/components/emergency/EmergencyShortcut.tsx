@@ -0,0 +1,90 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { WCAG_CONSTANTS, AccessibilityHelpers } from '../../utils/accessibility';
+
+// Matches EmergencyButton so the hold gesture feels the same everywhere
+const LONG_PRESS_DELAY_MS = 1500;
+
+interface EmergencyShortcutProps {
+  onPress: () => void;
+  // Press and hold gesture; runs without haptics
+  onLongPress?: () => void;
+}
+
+/**
+ * Compact emergency button pinned over every non-emergency screen so help is
+ * never more than one tap away.
+ */
+export const EmergencyShortcut: React.FC<EmergencyShortcutProps> = ({
+  onPress,
+  onLongPress
+}) => {
+  const handlePress = async () => {
+    try {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    } catch (error) {
+      console.warn('Emergency shortcut haptics failed:', error);
+    }
+    onPress();
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={handlePress}
+      onLongPress={onLongPress}
+      delayLongPress={LONG_PRESS_DELAY_MS}
+      hitSlop={AccessibilityHelpers.getHitSlop(10)}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel="Emergency"
+      accessibilityHint="Starts the emergency countdown. Press and hold to alert contacts silently."
+      accessibilityActions={onLongPress ? [{ name: 'longpress' }] : undefined}
+      onAccessibilityAction={event => {
+        if (event.nativeEvent.actionName === 'longpress') {
+          onLongPress?.();
+        }
+      }}
+      activeOpacity={0.8}
+    >
+      <Text style={styles.icon}>🚨</Text>
+      <Text style={styles.text}>SOS</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    position: 'absolute',
+    right: 20,
+    bottom: Platform.OS === 'ios' ? 40 : 24,
+    minWidth: WCAG_CONSTANTS.RECOMMENDED_TOUCH_TARGET,
+    minHeight: WCAG_CONSTANTS.MINIMUM_TOUCH_TARGET + 12,
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#DC2626',
+    borderRadius: 28,
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    elevation: 8,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+  },
+  icon: {
+    fontSize: 20,
+    marginRight: 6,
+  },
+  text: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    letterSpacing: 1,
+  },
+});
+
+export default EmergencyShortcut;
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Linking
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import AccessibleTextInput from './AccessibleTextInput';
+import EmergencyButton from '../emergency/EmergencyButton';
+import { DeviceContactsService } from '../../services/DeviceContactsService';
+import {
+  DeviceContact,
+  ImportOption,
+  ImportedContact,
+  MAX_LISTED_CONTACTS,
+  SavedContact,
+  SavedContactKind,
+  describeSavedContact,
+  importOptions,
+  searchDeviceContacts,
+  toImportedContact
+} from '../../services/ContactImport';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../../utils/accessibility';
+
+export interface DeviceContactPickerProps {
+  visible: boolean;
+  // What the picked person is being added as; a number already saved as
+  // this kind cannot be picked again
+  addingAs: SavedContactKind;
+  saved: SavedContact[];
+  onSelect: (contact: ImportedContact) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Search the phone's address book and pick one of a person's numbers. The
+ * choice fills in the form; nothing is saved until the user adds it.
+ */
+export const DeviceContactPicker: React.FC<DeviceContactPickerProps> = ({
+  visible,
+  addingAs,
+  saved,
+  onSelect,
+  onDismiss
+}) => {
+  const [contacts, setContacts] = useState<DeviceContact[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [query, setQuery] = useState('');
+  const [chosenContact, setChosenContact] = useState<DeviceContact | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+      setChosenContact(null);
+      loadContacts();
+    }
+  }, [visible]);
+
+  const loadContacts = async () => {
+    setIsLoading(true);
+    const granted = await DeviceContactsService.requestPermissions();
+    setPermissionDenied(!granted);
+
+    const found = granted ? await DeviceContactsService.getContacts() : [];
+    setContacts(found);
+    setIsLoading(false);
+
+    await ScreenReaderAnnouncer.announce(
+      granted
+        ? `${found.length} contacts with phone numbers. Type a name or number to search.`
+        : 'Contacts access is off. You can still type the details in.',
+      { priority: 'medium' }
+    );
+  };
+
+  const matches = searchDeviceContacts(contacts, query);
+  const listed = matches.slice(0, MAX_LISTED_CONTACTS);
+  const options = chosenContact ? importOptions(chosenContact, saved) : [];
+
+  // A number in an unusual format can still be picked and fixed in the form
+  const isBlocked = (option: ImportOption) => option.duplicate?.kind === addingAs;
+
+  const pickOption = async (contact: DeviceContact, option: ImportOption) => {
+    if (isBlocked(option)) return;
+
+    await Haptics.selectionAsync();
+    const imported = toImportedContact(contact, option);
+    onSelect(imported);
+    await ScreenReaderAnnouncer.announce(
+      `Filled in ${imported.name}, ${imported.phoneNumber}. ${imported.phoneError ? 'The phone number needs checking.' : 'Check the details, then add.'}`,
+      { priority: 'high' }
+    );
+  };
+
+  const chooseContact = async (contact: DeviceContact) => {
+    const contactOptions = importOptions(contact, saved);
+    // One usable number needs no second step
+    if (contactOptions.length === 1 && !isBlocked(contactOptions[0])) {
+      await pickOption(contact, contactOptions[0]);
+      return;
+    }
+
+    await Haptics.selectionAsync();
+    setChosenContact(contact);
+    await ScreenReaderAnnouncer.announce(
+      `${contact.name} has ${contactOptions.length} ${contactOptions.length === 1 ? 'number' : 'numbers'}. Choose one.`,
+      { priority: 'medium' }
+    );
+  };
+
+  const describeOption = (option: ImportOption): string | undefined => {
+    if (option.duplicate) return describeSavedContact(option.duplicate);
+    if (option.error) return 'Check this number after choosing it';
+    return undefined;
+  };
+
+  const renderContactList = () => (
+    <>
+      <AccessibleTextInput
+        label="Search contacts"
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+        autoCapitalize="none"
+        helperText={matches.length > listed.length
+          ? `Showing ${listed.length} of ${matches.length} - keep typing to narrow the list`
+          : `${matches.length} ${matches.length === 1 ? 'contact' : 'contacts'}`}
+      />
+
+      <ScrollView style={styles.list}>
+        {listed.map((contact, index) => {
+          const duplicate = importOptions(contact, saved).find(option => option.duplicate)?.duplicate;
+          return (
+            <TouchableOpacity
+              key={contact.id}
+              onPress={() => chooseContact(contact)}
+              style={styles.row}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={[
+                contact.name,
+                `${contact.phoneNumbers.length} ${contact.phoneNumbers.length === 1 ? 'number' : 'numbers'}`,
+                duplicate && describeSavedContact(duplicate)
+              ].filter(Boolean).join('. ')}
+              accessibilityHint={`Contact ${index + 1} of ${listed.length}. Double tap to choose`}
+            >
+              <Text style={styles.rowTitle}>{contact.name}</Text>
+              <Text style={styles.rowDetail}>
+                {contact.phoneNumbers.length === 1
+                  ? contact.phoneNumbers[0].number
+                  : `${contact.phoneNumbers.length} numbers`}
+              </Text>
+              {duplicate && (
+                <Text style={styles.rowNote}>{describeSavedContact(duplicate)}</Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+        {!isLoading && matches.length === 0 && (
+          <Text style={styles.message}>
+            {contacts.length === 0 ? 'No contacts with phone numbers.' : 'No contacts match your search.'}
+          </Text>
+        )}
+      </ScrollView>
+    </>
+  );
+
+  const renderNumberList = (contact: DeviceContact) => (
+    <ScrollView style={styles.list}>
+      <Text style={styles.message}>Which number should be used for {contact.name}?</Text>
+      {options.map((option, index) => {
+        const blocked = isBlocked(option);
+        const note = describeOption(option);
+        return (
+          <TouchableOpacity
+            key={`${option.number.label}_${index}`}
+            onPress={() => pickOption(contact, option)}
+            disabled={blocked}
+            style={[styles.row, blocked && styles.rowDisabled]}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={[`${option.number.label} ${option.number.number}`, note].filter(Boolean).join('. ')}
+            accessibilityHint={`Number ${index + 1} of ${options.length}. ${blocked ? 'Cannot be chosen' : 'Double tap to use this number'}`}
+            accessibilityState={{ disabled: blocked }}
+          >
+            <Text style={[styles.rowTitle, blocked && styles.rowTitleDisabled]}>
+              {option.number.label}: {option.phoneNumber || option.number.number}
+            </Text>
+            {note && <Text style={styles.rowNote}>{note}</Text>}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={chosenContact ? () => setChosenContact(null) : onDismiss}
+      accessible={true}
+      accessibilityViewIsModal={true}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title} accessibilityRole="header">
+            {chosenContact ? chosenContact.name : 'Choose from Contacts'}
+          </Text>
+
+          {isLoading && <Text style={styles.message}>Loading contacts...</Text>}
+
+          {!isLoading && permissionDenied && (
+            <>
+              <Text style={styles.message}>
+                Contacts access is off. Allow it in Settings, or type the details in yourself.
+              </Text>
+              <EmergencyButton
+                onPress={() => Linking.openSettings()}
+                size="small"
+                accessibilityLabel="Open Settings"
+                accessibilityHint="Opens this app's settings so you can allow contacts access"
+                style={styles.settingsButton}
+              />
+            </>
+          )}
+
+          {!isLoading && !permissionDenied && (chosenContact ? renderNumberList(chosenContact) : renderContactList())}
+
+          <View style={styles.buttonContainer}>
+            {chosenContact && (
+              <EmergencyButton
+                onPress={() => setChosenContact(null)}
+                size="small"
+                accessibilityLabel="Back to contacts"
+                accessibilityHint="Returns to the list of contacts"
+                style={styles.backButton}
+              />
+            )}
+            <EmergencyButton
+              onPress={onDismiss}
+              size="small"
+              accessibilityLabel="Close contacts"
+              accessibilityHint="Closes the contact list without filling in the form"
+              style={styles.closeButton}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#555555',
+    lineHeight: 24,
+    marginBottom: 16,
+  },
+  list: {
+    maxHeight: 360,
+    marginBottom: 16,
+  },
+  row: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    minHeight: WCAG_CONSTANTS.RECOMMENDED_TOUCH_TARGET,
+  },
+  rowDisabled: {
+    backgroundColor: '#f8f8f8',
+  },
+  rowTitle: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#333333',
+    fontWeight: '600',
+  },
+  rowTitleDisabled: {
+    color: '#999999',
+  },
+  rowDetail: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#666666',
+    marginTop: 4,
+  },
+  rowNote: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#e65100',
+    marginTop: 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    justifyContent: 'center',
+  },
+  settingsButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+  },
+  closeButton: {
+    backgroundColor: '#666666',
+    borderColor: '#666666',
+  },
+});
+
+export default DeviceContactPicker;
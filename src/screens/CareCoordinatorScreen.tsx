@@ -8,12 +8,19 @@ import {
   Linking 
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { CareCoordinator } from '../types/accessibility';
+import { CareCoordinator, EmergencyContact } from '../types/accessibility';
 import { SecureStorage } from '../services/SecureStorage';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import {
+  ImportedContact,
+  describeSavedContact,
+  findSavedContact,
+  savedContacts
+} from '../services/ContactImport';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
 import AccessibleTextInput from '../components/forms/AccessibleTextInput';
 import AccessibleSelect from '../components/forms/AccessibleSelect';
 import EmergencyButton from '../components/emergency/EmergencyButton';
+import DeviceContactPicker from '../components/forms/DeviceContactPicker';
 import { FormValidation } from '../components/forms/FormValidation';
 
 interface CareCoordinatorScreenProps {
@@ -25,9 +32,12 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
   onContactsUpdated,
   onCancel
 }) => {
+  const headerRef = useHeaderFocus();
   const [coordinators, setCoordinators] = useState<CareCoordinator[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([]);
+  const [isContactPickerVisible, setIsContactPickerVisible] = useState(false);
   
   // Form fields for adding new coordinator
   const [name, setName] = useState('');
@@ -76,11 +86,9 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
 
   const loadCareCoordinators = async () => {
     try {
-      // For now, store care coordinators in async storage
-      // In a real app, this might be part of the medical profile
-      const storedCoordinators = await SecureStorage.getAuditLog();
-      // This is a simplified implementation - in practice, you'd have dedicated storage
-      setCoordinators([]);
+      const storedCoordinators = await SecureStorage.getCareCoordinators();
+      setCoordinators(storedCoordinators);
+      setEmergencyContacts((await SecureStorage.getMedicalProfile())?.emergencyContacts || []);
     } catch (error) {
       console.error('Failed to load care coordinators:', error);
     } finally {
@@ -130,10 +138,25 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
       return false;
     }
 
+    const existingCoordinator = findSavedContact({ name, phoneNumber }, savedContacts([], coordinators));
+    if (existingCoordinator) {
+      setErrors({ phoneNumber: describeSavedContact(existingCoordinator) });
+      ScreenReaderAnnouncer.announce(describeSavedContact(existingCoordinator), { priority: 'high' });
+      return false;
+    }
+
     setErrors({});
     return true;
   };
 
+  const fillFromDeviceContact = (contact: ImportedContact) => {
+    setIsContactPickerVisible(false);
+    setName(contact.name);
+    setPhoneNumber(contact.phoneNumber);
+    setEmail(contact.email || '');
+    setErrors(contact.phoneError ? { phoneNumber: contact.phoneError } : {});
+  };
+
   const addCareCoordinator = async () => {
     if (!validateForm()) return;
 
@@ -156,6 +179,7 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
       }));
 
       updatedCoordinators.push(newCoordinator);
+      await SecureStorage.saveCareCoordinators(updatedCoordinators);
       setCoordinators(updatedCoordinators);
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -191,6 +215,13 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
           style: 'destructive',
           onPress: async () => {
             const updatedCoordinators = coordinators.filter(c => c.id !== coordinatorId);
+            try {
+              await SecureStorage.saveCareCoordinators(updatedCoordinators);
+            } catch (error) {
+              console.error('Failed to remove care coordinator:', error);
+              Alert.alert('Error', 'Failed to remove care coordinator. Please try again.');
+              return;
+            }
             setCoordinators(updatedCoordinators);
             
             await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -263,7 +294,7 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
-      <Text style={styles.title} accessibilityRole="header">
+      <Text ref={headerRef} style={styles.title} accessibilityRole="header">
         Care Coordinators
       </Text>
       
@@ -334,6 +365,22 @@ export const CareCoordinatorScreen: React.FC<CareCoordinatorScreenProps> = ({
         <Text style={styles.sectionTitle} accessibilityRole="header">
           Add Care Coordinator
         </Text>
+
+        <EmergencyButton
+          onPress={() => setIsContactPickerVisible(true)}
+          size="small"
+          accessibilityLabel="Choose from contacts"
+          accessibilityHint="Fills in the form from someone in your phone's contacts"
+          style={styles.importButton}
+        />
+
+        <DeviceContactPicker
+          visible={isContactPickerVisible}
+          addingAs="care_coordinator"
+          saved={savedContacts(emergencyContacts, coordinators)}
+          onSelect={fillFromDeviceContact}
+          onDismiss={() => setIsContactPickerVisible(false)}
+        />
         
         <AccessibleTextInput
           label="Name"
@@ -544,6 +591,12 @@ const styles = StyleSheet.create({
     fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
     color: '#333333',
   },
+  importButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
   addButton: {
     backgroundColor: '#2196f3',
     borderColor: '#2196f3',
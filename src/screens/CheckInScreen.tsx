@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+  StatusBar,
+  Platform
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { CheckInSchedule, CheckInScheduleType } from '../types/accessibility';
+import { CheckInService } from '../services/CheckInService';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+import { useAccessibleStyles } from '../contexts/AccessibilityContext';
+import EmergencyButton from '../components/emergency/EmergencyButton';
+import AccessibleSelect from '../components/forms/AccessibleSelect';
+
+interface CheckInScreenProps {
+  onBack?: () => void;
+}
+
+const typeOptions = [
+  { label: 'Once a day by a set time', value: 'daily' },
+  { label: 'Every few hours', value: 'interval' },
+];
+
+const dailyTimeOptions = ['07:00', '08:00', '09:00', '10:00', '11:00', '12:00', '18:00', '21:00'].map(time => ({
+  label: time,
+  value: time,
+}));
+
+const intervalOptions = [2, 3, 4, 6, 8, 12].map(hours => ({
+  label: `Every ${hours} hours`,
+  value: String(hours),
+}));
+
+const graceOptions = [15, 30, 60, 120].map(minutes => ({
+  label: minutes < 60 ? `${minutes} minutes` : `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`,
+  value: String(minutes),
+}));
+
+export const CheckInScreen: React.FC<CheckInScreenProps> = ({
+  onBack
+}) => {
+  const headerRef = useHeaderFocus();
+  const [schedules, setSchedules] = useState<CheckInSchedule[]>([]);
+  const [scheduleType, setScheduleType] = useState<CheckInScheduleType>('daily');
+  const [dailyTime, setDailyTime] = useState('10:00');
+  const [intervalHours, setIntervalHours] = useState('4');
+  const [graceMinutes, setGraceMinutes] = useState('30');
+
+  const { getColors, getDynamicStyle } = useAccessibleStyles();
+  const colors = getColors();
+
+  const loadSchedules = useCallback(async () => {
+    setSchedules(await CheckInService.getSchedules());
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+
+    ScreenReaderAnnouncer.announce(
+      'Check-in screen. Schedule regular check-ins so your contacts are alerted if you do not respond.',
+      { priority: 'medium', delay: 500 }
+    );
+  }, [loadSchedules]);
+
+  const addSchedule = async () => {
+    const schedule = CheckInService.createSchedule({
+      type: scheduleType,
+      dailyTime: scheduleType === 'daily' ? dailyTime : undefined,
+      intervalHours: scheduleType === 'interval' ? Number(intervalHours) : undefined,
+      graceMinutes: Number(graceMinutes),
+    });
+
+    const success = await CheckInService.saveSchedule(schedule);
+    if (success) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await ScreenReaderAnnouncer.announce(
+        `Check-in added. ${CheckInService.describeSchedule(schedule)}.`,
+        { priority: 'medium' }
+      );
+      loadSchedules();
+    } else {
+      Alert.alert('Error', 'Failed to save check-in. Please try again.');
+    }
+  };
+
+  const toggleSchedule = async (schedule: CheckInSchedule, isActive: boolean) => {
+    await Haptics.selectionAsync();
+    const updated = {
+      ...schedule,
+      isActive,
+      // Resuming starts a fresh deadline rather than one that passed while paused
+      nextDueAt: isActive ? CheckInService.nextDueAfter(schedule, new Date()) : schedule.nextDueAt,
+    };
+
+    if (await CheckInService.saveSchedule(updated)) {
+      loadSchedules();
+    } else {
+      Alert.alert('Error', 'Failed to update check-in. Please try again.');
+    }
+  };
+
+  const removeSchedule = (schedule: CheckInSchedule) => {
+    Alert.alert(
+      'Remove Check-In',
+      `Remove "${CheckInService.describeSchedule(schedule)}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (await CheckInService.deleteSchedule(schedule.id)) {
+              await ScreenReaderAnnouncer.announce('Check-in removed.', { priority: 'medium' });
+              loadSchedules();
+            } else {
+              Alert.alert('Error', 'Failed to remove check-in. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const dynamicStyles = {
+    container: getDynamicStyle({
+      flex: 1,
+      backgroundColor: colors.background,
+    }),
+    title: getDynamicStyle({
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: 8,
+    }),
+    subtitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 24,
+      lineHeight: 22,
+    }),
+    section: getDynamicStyle({
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 16,
+    }),
+    sectionTitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 12,
+    }),
+    scheduleTitle: getDynamicStyle({
+      flex: 1,
+      fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+      fontWeight: '600',
+      color: colors.text,
+      marginRight: 12,
+    }),
+    scheduleDetail: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      marginTop: 4,
+      lineHeight: 20,
+    }),
+    noDataText: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      fontStyle: 'italic',
+      padding: 16,
+    }),
+  };
+
+  const renderSchedule = (schedule: CheckInSchedule) => {
+    const description = CheckInService.describeSchedule(schedule);
+
+    return (
+      <View key={schedule.id} style={dynamicStyles.section}>
+        <View style={styles.scheduleHeader}>
+          <Text style={dynamicStyles.scheduleTitle}>{description}</Text>
+          <Switch
+            value={schedule.isActive}
+            onValueChange={isActive => toggleSchedule(schedule, isActive)}
+            accessibilityLabel={`${description} check-in active`}
+          />
+        </View>
+        {schedule.isActive && (
+          <Text style={dynamicStyles.scheduleDetail}>
+            Next due: {new Date(schedule.nextDueAt).toLocaleString()}
+          </Text>
+        )}
+        <Text style={dynamicStyles.scheduleDetail}>
+          Contacts alerted {schedule.graceMinutes} minutes after a missed check-in
+        </Text>
+        {schedule.lastCheckInAt && (
+          <Text style={dynamicStyles.scheduleDetail}>
+            Last check-in: {new Date(schedule.lastCheckInAt).toLocaleString()}
+          </Text>
+        )}
+        {schedule.missedCount > 0 && (
+          <Text style={dynamicStyles.scheduleDetail}>
+            Missed check-ins: {schedule.missedCount}
+          </Text>
+        )}
+        <View style={styles.scheduleActions}>
+          <EmergencyButton
+            onPress={() => removeSchedule(schedule)}
+            size="small"
+            accessibilityLabel={`Remove check-in: ${description}`}
+            style={{ backgroundColor: colors.error, borderColor: colors.error }}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={dynamicStyles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text ref={headerRef} style={dynamicStyles.title} accessibilityRole="header">
+          Check-Ins
+        </Text>
+        <Text style={dynamicStyles.subtitle}>
+          If you do not tap "I'm OK" in time, your emergency contacts are alerted, even when the app is closed. With the app closed the phone decides when to check, so the alert can come later than the time shown.
+        </Text>
+
+        {schedules.length > 0 ? (
+          schedules.map(renderSchedule)
+        ) : (
+          <Text style={dynamicStyles.noDataText}>No check-ins scheduled.</Text>
+        )}
+
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+            Add a Check-In
+          </Text>
+          <AccessibleSelect
+            label="How often"
+            options={typeOptions}
+            value={scheduleType}
+            onValueChange={value => setScheduleType(value as CheckInScheduleType)}
+          />
+          {scheduleType === 'daily' ? (
+            <AccessibleSelect
+              label="Check in by"
+              options={dailyTimeOptions}
+              value={dailyTime}
+              onValueChange={setDailyTime}
+            />
+          ) : (
+            <AccessibleSelect
+              label="Interval"
+              options={intervalOptions}
+              value={intervalHours}
+              onValueChange={setIntervalHours}
+            />
+          )}
+          <AccessibleSelect
+            label="Grace period"
+            options={graceOptions}
+            value={graceMinutes}
+            onValueChange={setGraceMinutes}
+            helperText="How long to wait after a missed check-in before alerting contacts"
+          />
+          <View style={styles.buttonContainer}>
+            <EmergencyButton
+              onPress={addSchedule}
+              size="medium"
+              accessibilityLabel="Add check-in"
+              accessibilityHint="Schedules this check-in"
+              style={{ backgroundColor: colors.success, borderColor: colors.success }}
+            />
+          </View>
+        </View>
+
+        {onBack && (
+          <View style={styles.buttonContainer}>
+            <EmergencyButton
+              onPress={onBack}
+              size="medium"
+              accessibilityLabel="Back"
+              accessibilityHint="Returns to the previous screen"
+              style={{ backgroundColor: colors.secondary, borderColor: colors.secondary }}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingTop: Platform.OS === 'ios' ? 60 : StatusBar.currentHeight ? StatusBar.currentHeight + 20 : 40,
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  scheduleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  scheduleActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  buttonContainer: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+});
+
+export default CheckInScreen;
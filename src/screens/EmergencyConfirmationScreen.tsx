@@ -1,15 +1,32 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, Alert } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { EmergencyConfirmationProps } from '../types/accessibility';
+import { EmergencyConfirmationProps, EmergencyTrigger } from '../types/accessibility';
 import EmergencyButton from '../components/emergency/EmergencyButton';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+
+// Automatic triggers explain why the countdown started
+const AUTOMATIC_TRIGGER_COPY: Partial<Record<EmergencyTrigger, { title: string; message: string; announcement: string }>> = {
+  fall_detection: {
+    title: 'Fall Detected',
+    message: 'It looks like you may have fallen. If you are OK, press Cancel.',
+    announcement: 'A fall has been detected. Are you OK?',
+  },
+  missed_check_in: {
+    title: 'Missed Check-In',
+    message: 'You did not check in on time. If you are OK, press Cancel.',
+    announcement: 'You missed your scheduled check-in. Are you OK?',
+  },
+};
 
 export const EmergencyConfirmationScreen: React.FC<EmergencyConfirmationProps> = ({
   onConfirm,
   onCancel,
-  countdownSeconds = 10
+  countdownSeconds = 10,
+  trigger = 'button'
 }) => {
+  const headerRef = useHeaderFocus();
+  const automaticTrigger = AUTOMATIC_TRIGGER_COPY[trigger];
   const [countdown, setCountdown] = useState(countdownSeconds);
   const [isConfirmed, setIsConfirmed] = useState(false);
 
@@ -58,11 +75,19 @@ export const EmergencyConfirmationScreen: React.FC<EmergencyConfirmationProps> =
 
   useEffect(() => {
     // Initial announcement
-    ScreenReaderAnnouncer.announce(
-      `Emergency confirmation required. ${countdownSeconds} seconds to cancel or confirm.`,
-      { priority: 'high' }
-    );
-  }, [countdownSeconds]);
+    if (automaticTrigger) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      ScreenReaderAnnouncer.announce(
+        `${automaticTrigger.announcement} Emergency help will be called in ${countdownSeconds} seconds unless you cancel.`,
+        { priority: 'high' }
+      );
+    } else {
+      ScreenReaderAnnouncer.announce(
+        `Emergency confirmation required. ${countdownSeconds} seconds to cancel or confirm.`,
+        { priority: 'high' }
+      );
+    }
+  }, [countdownSeconds, automaticTrigger]);
 
   const getCountdownColor = () => {
     if (countdown <= 3) return '#ff4444';
@@ -74,13 +99,24 @@ export const EmergencyConfirmationScreen: React.FC<EmergencyConfirmationProps> =
     <View style={styles.container}>
       <View style={styles.header}>
         <Text 
+          ref={headerRef}
           style={styles.title}
           accessible={true}
           accessibilityRole="header"
         >
-          Emergency Confirmation
+          {automaticTrigger ? automaticTrigger.title : 'Emergency Confirmation'}
         </Text>
         
+        {automaticTrigger && (
+          <Text 
+            style={styles.triggerMessage}
+            accessible={true}
+            accessibilityRole="text"
+          >
+            {automaticTrigger.message}
+          </Text>
+        )}
+        
         <Text 
           style={[styles.countdown, { color: getCountdownColor() }]}
           accessible={true}
@@ -166,6 +202,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
+  triggerMessage: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#d32f2f',
+    textAlign: 'center',
+    marginBottom: 20,
+    lineHeight: 24,
+  },
   countdown: {
     fontSize: 72,
     fontWeight: 'bold',
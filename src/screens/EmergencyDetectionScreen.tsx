@@ -1,13 +1,31 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { EmergencyFlowProps } from '../types/accessibility';
+import { EmergencyCategory, EmergencyFlowProps } from '../types/accessibility';
 import EmergencyButton from '../components/emergency/EmergencyButton';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import AccessibleSelect from '../components/forms/AccessibleSelect';
+import {
+  DEFAULT_EMERGENCY_CATEGORY,
+  EMERGENCY_CATEGORIES,
+  SELECTABLE_CATEGORIES
+} from '../services/EmergencyCategories';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+
+const categoryOptions = SELECTABLE_CATEGORIES.map(category => ({
+  label: `${EMERGENCY_CATEGORIES[category].icon} ${EMERGENCY_CATEGORIES[category].label}`,
+  value: category,
+}));
 
 export const EmergencyDetectionScreen: React.FC<EmergencyFlowProps> = ({
-  onStatusChange
+  onStatusChange,
+  nextCheckInDue,
+  onCheckIn,
+  onSilentEmergency,
+  onBack
 }) => {
+  const headerRef = useHeaderFocus();
+  const [category, setCategory] = useState<EmergencyCategory>(DEFAULT_EMERGENCY_CATEGORY);
+
   useEffect(() => {
     // Announce screen to screen readers
     ScreenReaderAnnouncer.announce(
@@ -22,13 +40,19 @@ export const EmergencyDetectionScreen: React.FC<EmergencyFlowProps> = ({
       'Emergency activated. Moving to confirmation.',
       { priority: 'high' }
     );
-    onStatusChange('confirmation');
+    onStatusChange('confirmation', { category });
+  };
+
+  const handleCheckIn = async () => {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onCheckIn?.();
   };
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.header}>
         <Text 
+          ref={headerRef}
           style={styles.title}
           accessibilityRole="header"
         >
@@ -39,15 +63,41 @@ export const EmergencyDetectionScreen: React.FC<EmergencyFlowProps> = ({
         </Text>
       </View>
       
+      <View style={styles.categoryContainer}>
+        <AccessibleSelect
+          label="Type of emergency"
+          options={categoryOptions}
+          value={category}
+          onValueChange={value => setCategory(value as EmergencyCategory)}
+          helperText="Optional - helps your contacts know how to respond"
+        />
+      </View>
+      
       <View style={styles.buttonContainer}>
         <EmergencyButton 
           onPress={handleEmergencyPress}
+          onLongPress={onSilentEmergency}
           size="large"
           accessibilityLabel="Emergency Contact Button"
-          accessibilityHint="Double tap to start emergency response. This will begin the emergency protocol including location sharing and medical information."
+          accessibilityHint="Double tap to start emergency response. This will begin the emergency protocol including location sharing and medical information. Press and hold to alert contacts silently."
         />
       </View>
       
+      {nextCheckInDue && onCheckIn && (
+        <View style={styles.checkInContainer}>
+          <Text style={styles.checkInText} accessibilityRole="text">
+            Next check-in due by {new Date(nextCheckInDue).toLocaleString()}
+          </Text>
+          <EmergencyButton
+            onPress={handleCheckIn}
+            size="small"
+            accessibilityLabel="I'm OK"
+            accessibilityHint="Checks in to let your emergency contacts know you are safe"
+            style={styles.checkInButton}
+          />
+        </View>
+      )}
+      
       <View style={styles.instructionsContainer}>
         <Text 
           style={styles.instructionsTitle}
@@ -83,6 +133,11 @@ export const EmergencyDetectionScreen: React.FC<EmergencyFlowProps> = ({
             Your location and medical information will be shared
           </Text>
         </View>
+        
+        <Text style={styles.silentHint}>
+          Not safe to make noise? Press and hold the button for a silent alarm. 
+          Your contacts are alerted without any sound and the screen looks like a notes page.
+        </Text>
       </View>
       
       <View style={styles.featuresContainer}>
@@ -116,6 +171,18 @@ export const EmergencyDetectionScreen: React.FC<EmergencyFlowProps> = ({
           and audio announcements.
         </Text>
       </View>
+      
+      {onBack && (
+        <View style={styles.backContainer}>
+          <EmergencyButton
+            onPress={onBack}
+            size="small"
+            accessibilityLabel="Back"
+            accessibilityHint="Returns to the previous screen"
+            style={styles.backButton}
+          />
+        </View>
+      )}
     </ScrollView>
   );
 };
@@ -151,10 +218,36 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  categoryContainer: {
+    width: '100%',
+    maxWidth: 400,
+  },
   buttonContainer: {
     alignItems: 'center',
     marginVertical: 40,
   },
+  checkInContainer: {
+    width: '100%',
+    maxWidth: 400,
+    alignItems: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#EFF6FF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DBEAFE',
+  },
+  checkInText: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#1E40AF',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  checkInButton: {
+    backgroundColor: '#16A34A',
+    borderColor: '#16A34A',
+  },
   instructionsContainer: {
     width: '100%',
     maxWidth: 400,
@@ -193,6 +286,12 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 24,
   },
+  silentHint: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#6B7280',
+    lineHeight: 22,
+    marginTop: 8,
+  },
   featuresContainer: {
     width: '100%',
     maxWidth: 400,
@@ -244,6 +343,14 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     fontStyle: 'italic',
   },
+  backContainer: {
+    marginTop: 32,
+    alignItems: 'center',
+  },
+  backButton: {
+    backgroundColor: '#6B7280',
+    borderColor: '#6B7280',
+  },
 });
 
 export default EmergencyDetectionScreen;
\ No newline at end of file
@@ -3,15 +3,19 @@ import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { EmergencyFlowProps } from '../types/accessibility';
 import EmergencyButton from '../components/emergency/EmergencyButton';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import AccessibleTextInput from '../components/forms/AccessibleTextInput';
+import IncidentTimelineCard from '../components/cards/IncidentTimelineCard';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
 
 export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
   session,
   medicalProfile,
-  onStatusChange,
-  onCancel
+  onStatusChange
 }) => {
+  const headerRef = useHeaderFocus();
   const [isCompleted, setIsCompleted] = useState(false);
+  const [note, setNote] = useState('');
+  const contactsNotified = session?.contactsNotified.length || 0;
 
   useEffect(() => {
     // Announce screen to screen readers
@@ -25,7 +29,7 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     await ScreenReaderAnnouncer.announce('Emergency marked as completed.', { priority: 'high' });
     setIsCompleted(true);
-    onStatusChange('completed');
+    onStatusChange('completed', { note });
   };
 
   const handleNeedMoreHelp = async () => {
@@ -64,7 +68,10 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
           onPress: async () => {
             await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
             await ScreenReaderAnnouncer.announce('Starting new emergency.', { priority: 'high' });
-            onStatusChange('detection');
+            // Close the current session before opening a new one, without
+            // telling contacts the person is safe
+            await onStatusChange('completed', { skipStandDown: true });
+            await onStatusChange('confirmation');
           }
         }
       ]
@@ -89,6 +96,7 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
         <View style={styles.header}>
           <Text style={styles.completedIcon}>✅</Text>
           <Text 
+            ref={headerRef}
             style={styles.title}
             accessibilityRole="header"
           >
@@ -110,11 +118,16 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
           <Text style={styles.summaryText}>
             Time: {new Date().toLocaleString()}
           </Text>
+          {contactsNotified > 0 && (
+            <Text style={styles.summaryText}>
+              All-clear sent to {contactsNotified} {contactsNotified === 1 ? 'contact' : 'contacts'}
+            </Text>
+          )}
         </View>
 
         <View style={styles.buttonContainer}>
           <EmergencyButton
-            onPress={() => onCancel()}
+            onPress={() => onStatusChange('detection')}
             size="medium"
             accessibilityLabel="Return to main screen"
             accessibilityHint="Go back to the main emergency screen"
@@ -163,11 +176,18 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
         <View style={styles.summaryItem}>
           <Text style={styles.summaryLabel}>Contacts Notified:</Text>
           <Text style={styles.summaryValue}>
-            {session?.contactsNotified.length || 0} people
+            {contactsNotified} people
           </Text>
         </View>
       </View>
 
+      {session && (
+        <IncidentTimelineCard
+          session={session}
+          contacts={medicalProfile?.emergencyContacts}
+        />
+      )}
+
       <View style={styles.statusSection}>
         <Text style={styles.sectionTitle}>How are you feeling?</Text>
         <Text style={styles.statusQuestion}>
@@ -175,6 +195,19 @@ export const EmergencyFollowUpScreen: React.FC<EmergencyFlowProps> = ({
         </Text>
       </View>
 
+      {contactsNotified > 0 && (
+        <View style={styles.noteSection}>
+          <AccessibleTextInput
+            label="Note for your contacts (optional)"
+            value={note}
+            onChangeText={setNote}
+            multiline
+            maxLength={200}
+            helperText="Sent with the all-clear message when you mark the emergency as completed"
+          />
+        </View>
+      )}
+
       <View style={styles.buttonContainer}>
         <EmergencyButton
           onPress={handleMarkCompleted}
@@ -298,6 +331,9 @@ const styles = StyleSheet.create({
     color: '#1976d2',
     lineHeight: 22,
   },
+  noteSection: {
+    marginBottom: 24,
+  },
   buttonContainer: {
     gap: 16,
     alignItems: 'center',
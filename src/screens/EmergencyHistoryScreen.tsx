@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  StatusBar,
+  Platform
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { EmergencySession, EmergencyStatus, EmergencyTrigger } from '../types/accessibility';
+import { EmergencySessionRepository, EmergencySessionFilter } from '../services/EmergencySessionRepository';
+import { LocationService } from '../services/LocationService';
+import { getEmergencyCategory } from '../services/EmergencyCategories';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+import { useAccessibleStyles } from '../contexts/AccessibilityContext';
+import EmergencyButton from '../components/emergency/EmergencyButton';
+import AccessibleSelect from '../components/forms/AccessibleSelect';
+import IncidentTimelineCard from '../components/cards/IncidentTimelineCard';
+
+interface EmergencyHistoryScreenProps {
+  onBack?: () => void;
+}
+
+const statusOptions = [
+  { label: 'All statuses', value: 'all' },
+  { label: 'Completed', value: 'completed' },
+  { label: 'Cancelled', value: 'cancelled' },
+  { label: 'In progress', value: 'in_progress' },
+  { label: 'Follow-up', value: 'follow_up' },
+  { label: 'Awaiting confirmation', value: 'confirmation' },
+];
+
+const dateRangeOptions = [
+  { label: 'All time', value: 'all' },
+  { label: 'Last 7 days', value: '7' },
+  { label: 'Last 30 days', value: '30' },
+  { label: 'Last 12 months', value: '365' },
+];
+
+const STATUS_LABELS: Record<EmergencyStatus, string> = {
+  detection: 'Not started',
+  confirmation: 'Awaiting confirmation',
+  in_progress: 'In progress',
+  follow_up: 'Follow-up',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const TRIGGER_LABELS: Record<EmergencyTrigger, string> = {
+  button: 'Emergency button',
+  fall_detection: 'Fall detection',
+  missed_check_in: 'Missed check-in',
+  deep_link: 'Emergency link or shortcut',
+  help_notification: '"I need help" notification',
+};
+
+export const EmergencyHistoryScreen: React.FC<EmergencyHistoryScreenProps> = ({
+  onBack
+}) => {
+  const headerRef = useHeaderFocus();
+  const [sessions, setSessions] = useState<EmergencySession[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [dateRange, setDateRange] = useState('all');
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { getColors, getDynamicStyle } = useAccessibleStyles();
+  const colors = getColors();
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+
+    const filter: EmergencySessionFilter = {};
+    if (statusFilter !== 'all') {
+      filter.statuses = [statusFilter as EmergencyStatus];
+    }
+    if (dateRange !== 'all') {
+      filter.from = new Date(Date.now() - Number(dateRange) * 24 * 60 * 60 * 1000);
+    }
+
+    try {
+      const results = await EmergencySessionRepository.listSessions(filter);
+      setSessions(results);
+      await ScreenReaderAnnouncer.announce(
+        `${results.length} emergency ${results.length === 1 ? 'session' : 'sessions'} found`,
+        { priority: 'low' }
+      );
+    } catch (error) {
+      console.error('Failed to load emergency history:', error);
+      Alert.alert('Error', 'Failed to load emergency history. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, dateRange]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    ScreenReaderAnnouncer.announce(
+      'Emergency history screen. Review past emergency sessions and what happened.',
+      { priority: 'medium', delay: 500 }
+    );
+  }, []);
+
+  const toggleSession = async (sessionId: string) => {
+    await Haptics.selectionAsync();
+    setExpandedSessionId(expandedSessionId === sessionId ? null : sessionId);
+  };
+
+  const deleteSession = (session: EmergencySession) => {
+    Alert.alert(
+      'Delete Emergency Record',
+      `Are you sure you want to delete the emergency from ${new Date(session.startTime).toLocaleString()}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await EmergencySessionRepository.deleteSession(session.id);
+              setSessions(prev => prev.filter(s => s.id !== session.id));
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+              await ScreenReaderAnnouncer.announce('Emergency record deleted.', { priority: 'medium' });
+            } catch (error) {
+              console.error('Failed to delete emergency session:', error);
+              Alert.alert('Error', 'Failed to delete emergency record. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const dynamicStyles = {
+    container: getDynamicStyle({
+      flex: 1,
+      backgroundColor: colors.background,
+    }),
+    title: getDynamicStyle({
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: 8,
+    }),
+    subtitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 24,
+      lineHeight: 22,
+    }),
+    sessionCard: getDynamicStyle({
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 12,
+      borderLeftWidth: 4,
+      borderLeftColor: colors.primary,
+    }),
+    sessionTitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    }),
+    sessionDetail: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      marginBottom: 4,
+      lineHeight: 20,
+    }),
+    noDataText: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      fontStyle: 'italic',
+      padding: 16,
+    }),
+  };
+
+  const getStatusColor = (status: EmergencyStatus): string => {
+    switch (status) {
+      case 'completed':
+        return colors.success;
+      case 'cancelled':
+        return colors.secondary;
+      default:
+        return colors.error;
+    }
+  };
+
+  const renderSession = (session: EmergencySession) => {
+    const isExpanded = expandedSessionId === session.id;
+    const startTime = new Date(session.startTime).toLocaleString();
+    const statusLabel = STATUS_LABELS[session.status];
+
+    return (
+      <View
+        key={session.id}
+        style={[dynamicStyles.sessionCard, { borderLeftColor: getStatusColor(session.status) }]}
+      >
+        <Text style={dynamicStyles.sessionTitle} accessibilityRole="header">
+          {startTime}
+        </Text>
+        <Text style={dynamicStyles.sessionDetail}>Status: {statusLabel}</Text>
+        {session.category && (
+          <Text style={dynamicStyles.sessionDetail}>Emergency: {getEmergencyCategory(session.category).label}</Text>
+        )}
+        {session.emergencyType === 'silent' && (
+          <Text style={dynamicStyles.sessionDetail}>Type: Silent alarm</Text>
+        )}
+        {session.trigger && session.trigger !== 'button' && (
+          <Text style={dynamicStyles.sessionDetail}>Started by: {TRIGGER_LABELS[session.trigger]}</Text>
+        )}
+        <Text style={dynamicStyles.sessionDetail}>
+          Location: {session.location
+            ? LocationService.formatLocationForSharing(session.location)
+            : 'Not shared'}
+        </Text>
+        {session.breadcrumbs && session.breadcrumbs.length > 0 && (
+          <Text style={dynamicStyles.sessionDetail}>
+            Location trail: {session.breadcrumbs.length} points
+          </Text>
+        )}
+        <Text style={dynamicStyles.sessionDetail}>
+          Contacts notified: {session.contactsNotified.length > 0
+            ? session.contactsNotified.join(', ')
+            : 'None'}
+        </Text>
+
+        {isExpanded && (
+          <IncidentTimelineCard session={session} style={styles.timeline} />
+        )}
+
+        <View style={styles.sessionActions}>
+          <EmergencyButton
+            onPress={() => toggleSession(session.id)}
+            size="small"
+            accessibilityLabel={isExpanded ? 'Hide timeline' : 'Show timeline'}
+            accessibilityHint={`${isExpanded ? 'Hides' : 'Shows'} everything recorded during the emergency on ${startTime}`}
+            accessibilityState={{ expanded: isExpanded }}
+            style={{ backgroundColor: colors.primary, borderColor: colors.primary }}
+          />
+          <EmergencyButton
+            onPress={() => deleteSession(session)}
+            size="small"
+            accessibilityLabel={`Delete emergency record from ${startTime}`}
+            style={{ backgroundColor: colors.error, borderColor: colors.error }}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={dynamicStyles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text ref={headerRef} style={dynamicStyles.title} accessibilityRole="header">
+          Emergency History
+        </Text>
+        <Text style={dynamicStyles.subtitle}>
+          Every emergency is kept securely on this device with its location, contacts notified and timeline.
+        </Text>
+
+        <View style={styles.filters}>
+          <AccessibleSelect
+            label="Status"
+            options={statusOptions}
+            value={statusFilter}
+            onValueChange={setStatusFilter}
+          />
+          <AccessibleSelect
+            label="Date Range"
+            options={dateRangeOptions}
+            value={dateRange}
+            onValueChange={setDateRange}
+          />
+        </View>
+
+        {isLoading ? (
+          <Text style={dynamicStyles.noDataText}>Loading emergency history...</Text>
+        ) : sessions.length > 0 ? (
+          sessions.map(renderSession)
+        ) : (
+          <Text style={dynamicStyles.noDataText}>
+            No emergency sessions match these filters.
+          </Text>
+        )}
+
+        {onBack && (
+          <View style={styles.buttonContainer}>
+            <EmergencyButton
+              onPress={onBack}
+              size="medium"
+              accessibilityLabel="Back"
+              accessibilityHint="Returns to the previous screen"
+              style={{ backgroundColor: colors.secondary, borderColor: colors.secondary }}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingTop: Platform.OS === 'ios' ? 60 : StatusBar.currentHeight ? StatusBar.currentHeight + 20 : 40,
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  filters: {
+    marginBottom: 16,
+  },
+  timeline: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  buttonContainer: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+});
+
+export default EmergencyHistoryScreen;
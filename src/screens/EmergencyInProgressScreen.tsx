@@ -1,23 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { EmergencyFlowProps } from '../types/accessibility';
 import EmergencyButton from '../components/emergency/EmergencyButton';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import ContactStatusCard from '../components/cards/ContactStatusCard';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+import { isEscalationPending } from '../services/EscalationLadder';
+import { getEmergencyCategory } from '../services/EmergencyCategories';
+import { CONTACT_DELIVERY_LABELS, summariseContactDeliveries } from '../services/ContactDeliveries';
 
 export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
   session,
   medicalProfile,
   onStatusChange,
-  onCancel
+  onCancel,
+  onResponseAcknowledged,
+  onContactAcknowledged,
+  onCallEmergencyServices
 }) => {
+  const headerRef = useHeaderFocus();
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [contactsNotified, setContactsNotified] = useState<string[]>([]);
 
   useEffect(() => {
     // Announce screen to screen readers
     ScreenReaderAnnouncer.announce(
-      'Emergency in progress. Help is on the way. Emergency contacts have been notified.',
+      'Emergency in progress. Emergency contacts are being notified. Use the call button to phone emergency services.',
       { priority: 'high' }
     );
 
@@ -26,16 +33,46 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
       setElapsedTime(prev => prev + 1);
     }, 1000);
 
-    // Simulate emergency contacts notification
-    if (medicalProfile?.emergencyContacts) {
-      const primaryContacts = medicalProfile.emergencyContacts
-        .filter(contact => contact.isPrimary)
-        .map(contact => contact.name);
-      setContactsNotified(primaryContacts);
+    return () => clearInterval(interval);
+  }, []);
+
+  const category = getEmergencyCategory(session?.category);
+  const contactsNotified = session?.contactsNotified || [];
+  const contactStatuses = session?.contactStatuses || [];
+  const contactDeliveries = session?.contactDeliveries || [];
+  const deliverySummary = contactDeliveries.length > 0 ? summariseContactDeliveries(contactDeliveries) : null;
+  const deliveryAnnouncementRef = useRef<string | null>(null);
+
+  // iOS has no live regions, so changes to who was alerted are announced
+  useEffect(() => {
+    const changes = contactDeliveries
+      .filter(delivery => delivery.state !== 'queued')
+      .map(delivery => `${delivery.contactName}: ${CONTACT_DELIVERY_LABELS[delivery.state]}`)
+      .join('. ');
+    if (deliveryAnnouncementRef.current !== null && changes && changes !== deliveryAnnouncementRef.current) {
+      ScreenReaderAnnouncer.announce(`${deliverySummary}. ${changes}.`, { priority: 'medium' });
     }
+    deliveryAnnouncementRef.current = changes;
+  }, [contactDeliveries]);
+  const emergencyNumber = session?.emergencyNumber?.number;
+  const lastCall = session?.emergencyCalls?.[session.emergencyCalls.length - 1];
+  const servicesCalled = lastCall?.outcome === 'dialer_opened';
 
-    return () => clearInterval(interval);
-  }, [medicalProfile]);
+  const getCallStatusText = (): string => {
+    if (!lastCall) {
+      return `Emergency services not called yet${emergencyNumber ? ` - tap Call ${emergencyNumber} below` : ''}`;
+    }
+
+    const time = new Date(lastCall.timestamp).toLocaleTimeString();
+    switch (lastCall.outcome) {
+      case 'dialer_opened':
+        return `Call to ${lastCall.number} started at ${time}`;
+      case 'unavailable':
+        return `This device cannot make calls - dial ${lastCall.number} from another phone`;
+      default:
+        return `Call to ${lastCall.number} failed at ${time} - please try again`;
+    }
+  };
 
   const handleMoveToFollowUp = async () => {
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -57,7 +94,7 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
           style: 'destructive',
           onPress: async () => {
             await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-            await ScreenReaderAnnouncer.announce('Emergency cancelled.', { priority: 'high' });
+            // App announces the cancellation once any PIN has been accepted
             onCancel();
           }
         }
@@ -65,6 +102,26 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
     );
   };
 
+  const handleResponseAcknowledged = async () => {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onResponseAcknowledged?.();
+  };
+
+  const getEscalationText = (): string | null => {
+    const escalation = session?.escalation;
+    if (!escalation) return null;
+
+    if (escalation.acknowledgedAt) {
+      return `Contact responding - escalation stopped at ${new Date(escalation.acknowledgedAt).toLocaleTimeString()}`;
+    }
+    if (escalation.nextStepAt) {
+      return `More people will be alerted at ${new Date(escalation.nextStepAt).toLocaleTimeString()} unless someone responds`;
+    }
+    return 'All escalation steps completed';
+  };
+
+  const escalationText = getEscalationText();
+
   const formatElapsedTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -80,12 +137,17 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
         </View>
         
         <Text 
+          ref={headerRef}
           style={styles.title}
           accessibilityRole="header"
         >
           Emergency In Progress
         </Text>
         
+        <Text style={styles.categoryText}>
+          {category.icon} {category.label}
+        </Text>
+        
         <Text 
           style={styles.timer}
           accessible={true}
@@ -97,12 +159,23 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
         </Text>
       </View>
 
+      <View style={styles.categorySection}>
+        <Text style={styles.sectionTitle} accessibilityRole="header">What To Do Now</Text>
+        {category.instructions.map((instruction, index) => (
+          <Text key={index} style={styles.categoryInstruction}>
+            • {instruction}
+          </Text>
+        ))}
+      </View>
+
       <View style={styles.infoSection}>
         <Text style={styles.sectionTitle}>Emergency Status</Text>
         
         <View style={styles.statusItem}>
-          <Text style={styles.statusIcon}>✅</Text>
-          <Text style={styles.statusItemText}>Emergency services contacted</Text>
+          <Text style={styles.statusIcon}>{servicesCalled ? '✅' : '📞'}</Text>
+          <Text style={styles.statusItemText} accessibilityLiveRegion="polite">
+            {getCallStatusText()}
+          </Text>
         </View>
         
         <View style={styles.statusItem}>
@@ -115,22 +188,55 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
           </Text>
         </View>
         
-        <View style={styles.statusItem}>
-          <Text style={styles.statusIcon}>👥</Text>
-          <Text style={styles.statusItemText}>
-            {contactsNotified.length > 0 
-              ? `Contacts notified: ${contactsNotified.join(', ')}`
-              : 'Notifying emergency contacts...'
-            }
-          </Text>
-        </View>
+        {session?.breadcrumbs && session.breadcrumbs.length > 0 && (
+          <View style={styles.statusItem}>
+            <Text style={styles.statusIcon}>🛰️</Text>
+            <Text style={styles.statusItemText}>
+              {`Live location tracking on - last update ${new Date(session.breadcrumbs[session.breadcrumbs.length - 1].timestamp).toLocaleTimeString()}`}
+            </Text>
+          </View>
+        )}
+        
+        {contactStatuses.length === 0 && contactDeliveries.length === 0 && (
+          <View style={styles.statusItem}>
+            <Text style={styles.statusIcon}>👥</Text>
+            <Text style={styles.statusItemText} accessibilityLiveRegion="polite">
+              {contactsNotified.length > 0 
+                ? `Contacts notified: ${contactsNotified.join(', ')}`
+                : medicalProfile?.emergencyContacts.length
+                  ? 'Notifying emergency contacts...'
+                  : 'No emergency contacts set up'
+              }
+            </Text>
+          </View>
+        )}
         
         <View style={styles.statusItem}>
           <Text style={styles.statusIcon}>🏥</Text>
           <Text style={styles.statusItemText}>Medical information provided</Text>
         </View>
+
+        {escalationText && (
+          <View style={styles.statusItem}>
+            <Text style={styles.statusIcon}>⏱️</Text>
+            <Text
+              style={styles.statusItemText}
+              accessibilityLiveRegion="polite"
+            >
+              {escalationText}
+            </Text>
+          </View>
+        )}
       </View>
 
+      {(contactStatuses.length > 0 || contactDeliveries.length > 0) && (
+        <ContactStatusCard
+          statuses={contactStatuses}
+          deliveries={contactDeliveries}
+          onMark={onContactAcknowledged}
+        />
+      )}
+
       {medicalProfile && (
         <View style={styles.medicalInfo}>
           <Text style={styles.sectionTitle}>Medical Information Shared</Text>
@@ -166,7 +272,10 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
       <View style={styles.instructionsSection}>
         <Text style={styles.sectionTitle}>What's Happening</Text>
         <Text style={styles.instructionText}>
-          • Emergency services have been notified and are on their way
+          • {servicesCalled
+              ? `An emergency call to ${lastCall!.number} was started`
+              : `Call emergency services${emergencyNumber ? ` on ${emergencyNumber}` : ''} if you need an ambulance`
+            }
         </Text>
         <Text style={styles.instructionText}>
           • {session?.location ? 
@@ -175,7 +284,11 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
             }
         </Text>
         <Text style={styles.instructionText}>
-          • Emergency contacts are being notified
+          • {deliverySummary
+              || (contactsNotified.length > 0
+                ? 'Your emergency contacts have been sent an alert'
+                : 'Emergency contacts are being notified')
+            }
         </Text>
         <Text style={styles.instructionText}>
           • Stay calm and wait for help to arrive
@@ -188,6 +301,25 @@ export const EmergencyInProgressScreen: React.FC<EmergencyFlowProps> = ({
       </View>
 
       <View style={styles.buttonContainer}>
+        {onCallEmergencyServices && (
+          <EmergencyButton
+            onPress={onCallEmergencyServices}
+            size="large"
+            accessibilityLabel={`Call ${emergencyNumber || 'emergency services'}`}
+            accessibilityHint="Opens the phone dialer with the emergency services number"
+          />
+        )}
+
+        {onResponseAcknowledged && isEscalationPending(session?.escalation) && (
+          <EmergencyButton
+            onPress={handleResponseAcknowledged}
+            size="medium"
+            accessibilityLabel="Someone is responding"
+            accessibilityHint="Stops alerting further contacts because someone has responded to your emergency"
+            style={styles.acknowledgeButton}
+          />
+        )}
+
         <EmergencyButton
           onPress={handleMoveToFollowUp}
           size="medium"
@@ -249,12 +381,32 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 16,
   },
+  categoryText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
   timer: {
     fontSize: 48,
     fontWeight: 'bold',
     color: '#d32f2f',
     fontFamily: 'monospace',
   },
+  categorySection: {
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: '#ffebee',
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#d32f2f',
+  },
+  categoryInstruction: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#333333',
+    marginBottom: 8,
+    lineHeight: 24,
+  },
   infoSection: {
     marginBottom: 24,
     padding: 16,
@@ -323,6 +475,10 @@ const styles = StyleSheet.create({
     gap: 16,
     alignItems: 'center',
   },
+  acknowledgeButton: {
+    backgroundColor: '#1976d2',
+    borderColor: '#1976d2',
+  },
   followUpButton: {
     backgroundColor: '#4caf50',
     borderColor: '#4caf50',
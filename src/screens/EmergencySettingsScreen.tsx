@@ -0,0 +1,625 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+  StatusBar,
+  Platform
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { EscalationPolicy, NotificationChannelSettings, NotificationDeliveryMode } from '../types/accessibility';
+import { EscalationService } from '../services/EscalationService';
+import { DEFAULT_ESCALATION_POLICY, ESCALATION_STAGE_LABELS } from '../services/EscalationLadder';
+import { EmergencyNumberService, EMERGENCY_NUMBERS } from '../services/EmergencyNumberService';
+import { FallDetectionService } from '../services/FallDetectionService';
+import { NotificationActionService } from '../services/NotificationActionService';
+import { CancellationPinService, isValidPin } from '../services/CancellationPinService';
+import { NotificationChannelService } from '../services/NotificationChannels';
+import { SmsGatewayService } from '../services/SmsGatewayService';
+import { DEFAULT_SMS_GATEWAY_BASE_URL } from '../services/SmsGatewayClient';
+import { VCardImportSummary, VCardService } from '../services/VCardService';
+import { DEFAULT_VCARD_VERSION, VCARD_VERSION_LABELS, VCardVersion } from '../services/VCard';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
+import { useAccessibleStyles } from '../contexts/AccessibilityContext';
+import EmergencyButton from '../components/emergency/EmergencyButton';
+import AccessibleSelect from '../components/forms/AccessibleSelect';
+import AccessibleTextInput from '../components/forms/AccessibleTextInput';
+
+interface EmergencySettingsScreenProps {
+  onBack?: () => void;
+}
+
+const waitOptions = [
+  { label: 'Immediately', value: '0' },
+  { label: '2 minutes', value: '2' },
+  { label: '5 minutes', value: '5' },
+  { label: '10 minutes', value: '10' },
+  { label: '15 minutes', value: '15' },
+  { label: '30 minutes', value: '30' },
+];
+
+const AUTOMATIC_NUMBER = 'automatic';
+
+const emergencyNumberOptions = [
+  { label: 'Automatic (based on where you are)', value: AUTOMATIC_NUMBER },
+  ...Object.entries(EMERGENCY_NUMBERS)
+    .sort(([, a], [, b]) => a.country.localeCompare(b.country))
+    .map(([countryCode, entry]) => ({
+      label: `${entry.country} (${entry.number})`,
+      value: countryCode
+    })),
+];
+
+export const EmergencySettingsScreen: React.FC<EmergencySettingsScreenProps> = ({
+  onBack
+}) => {
+  const headerRef = useHeaderFocus();
+  const [policy, setPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY);
+  const [numberOverride, setNumberOverride] = useState(AUTOMATIC_NUMBER);
+  const [fallDetectionEnabled, setFallDetectionEnabled] = useState(false);
+  const [helpNotificationEnabled, setHelpNotificationEnabled] = useState(false);
+  const [pinEnabled, setPinEnabled] = useState(false);
+  const [hasSavedPin, setHasSavedPin] = useState(false);
+  const [cancelPin, setCancelPin] = useState('');
+  const [duressPin, setDuressPin] = useState('');
+  const [pinError, setPinError] = useState<string | undefined>();
+  const [channelSettings, setChannelSettings] = useState<NotificationChannelSettings>({});
+  const [channelError, setChannelError] = useState<string | undefined>();
+  const [gatewayBaseUrl, setGatewayBaseUrl] = useState(DEFAULT_SMS_GATEWAY_BASE_URL);
+  const [gatewayAccountSid, setGatewayAccountSid] = useState('');
+  const [gatewayAuthToken, setGatewayAuthToken] = useState('');
+  const [gatewayFromNumber, setGatewayFromNumber] = useState('');
+  const [hasSavedGateway, setHasSavedGateway] = useState(false);
+  const [gatewayError, setGatewayError] = useState<string | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+  const [vCardVersion, setVCardVersion] = useState<VCardVersion>(DEFAULT_VCARD_VERSION);
+  const [isSharingContacts, setIsSharingContacts] = useState(false);
+  const [contactsMessage, setContactsMessage] = useState<string | undefined>();
+
+  const { getColors, getDynamicStyle } = useAccessibleStyles();
+  const colors = getColors();
+
+  useEffect(() => {
+    EscalationService.getPolicy().then(setPolicy);
+    EmergencyNumberService.getOverride().then(override => setNumberOverride(override || AUTOMATIC_NUMBER));
+    FallDetectionService.isEnabled().then(setFallDetectionEnabled);
+    NotificationActionService.isHelpNotificationEnabled().then(setHelpNotificationEnabled);
+    NotificationChannelService.getSettings().then(setChannelSettings);
+    SmsGatewayService.getConfig().then(config => {
+      if (!config) return;
+      setGatewayBaseUrl(config.baseUrl);
+      setGatewayAccountSid(config.accountSid);
+      setGatewayFromNumber(config.fromNumber);
+      setHasSavedGateway(true);
+    });
+    CancellationPinService.isEnabled().then(enabled => {
+      setPinEnabled(enabled);
+      setHasSavedPin(enabled);
+    });
+
+    ScreenReaderAnnouncer.announce(
+      'Emergency settings screen. Choose your emergency number and who is alerted when nobody responds to an emergency.',
+      { priority: 'medium', delay: 500 }
+    );
+  }, []);
+
+  const setEnabled = async (enabled: boolean) => {
+    await Haptics.selectionAsync();
+    setPolicy(prev => ({ ...prev, enabled }));
+  };
+
+  const toggleFallDetection = async (enabled: boolean) => {
+    await Haptics.selectionAsync();
+    setFallDetectionEnabled(enabled);
+  };
+
+  const toggleHelpNotification = async (enabled: boolean) => {
+    await Haptics.selectionAsync();
+    setHelpNotificationEnabled(enabled);
+  };
+
+  const togglePin = async (enabled: boolean) => {
+    await Haptics.selectionAsync();
+    setPinEnabled(enabled);
+    setPinError(undefined);
+  };
+
+  // Returns an error message, or null when the PIN fields can be saved
+  const validatePins = (): string | null => {
+    if (!pinEnabled || (hasSavedPin && !cancelPin && !duressPin)) return null;
+    if (!isValidPin(cancelPin)) return 'Enter a cancellation PIN of 4 to 8 digits';
+    if (duressPin && !isValidPin(duressPin)) return 'The duress PIN must be 4 to 8 digits';
+    if (duressPin === cancelPin) return 'The duress PIN must be different from the cancellation PIN';
+    return null;
+  };
+
+  const savePinSettings = async () => {
+    if (!pinEnabled) {
+      if (hasSavedPin) {
+        await CancellationPinService.clearPins();
+        setHasSavedPin(false);
+      }
+      return;
+    }
+
+    // Leaving both fields blank keeps the PINs already saved
+    if (cancelPin) {
+      await CancellationPinService.savePins(cancelPin, duressPin || undefined);
+      setHasSavedPin(true);
+      setCancelPin('');
+      setDuressPin('');
+    }
+  };
+
+  const deliveryModeOptions = [
+    { label: 'One message per contact', value: 'individual' },
+    { label: 'One message to everyone at once', value: 'grouped' },
+  ];
+
+  const vCardVersionOptions = (Object.keys(VCARD_VERSION_LABELS) as VCardVersion[])
+    .map(version => ({ label: VCARD_VERSION_LABELS[version], value: version }));
+
+  const describeImport = (summary: VCardImportSummary): string => {
+    const added = summary.contactsAdded.length + summary.coordinatorsAdded.length;
+    const parts = [
+      added === 0
+        ? 'No one was added.'
+        : `Added ${summary.contactsAdded.length} emergency contacts and ${summary.coordinatorsAdded.length} care coordinators.`,
+      ...(summary.skipped.length > 0 ? [`Skipped ${summary.skipped.length}: ${summary.skipped.join('; ')}.`] : []),
+    ];
+    return parts.join(' ');
+  };
+
+  const exportContacts = async () => {
+    setIsSharingContacts(true);
+    try {
+      const shared = await VCardService.exportContacts(vCardVersion);
+      setContactsMessage(shared ? undefined : 'There are no contacts to share, or sharing is not available on this device.');
+      if (!shared) {
+        await ScreenReaderAnnouncer.announce('Nothing was shared.', { priority: 'medium' });
+      }
+    } catch (error) {
+      console.error('Failed to export contacts:', error);
+      Alert.alert('Error', 'Failed to share contacts. Please try again.');
+    } finally {
+      setIsSharingContacts(false);
+    }
+  };
+
+  const importContacts = async () => {
+    setIsSharingContacts(true);
+    try {
+      const summary = await VCardService.pickAndImport();
+      if (!summary) return;
+
+      const message = describeImport(summary);
+      setContactsMessage(message);
+      await Haptics.notificationAsync(summary.skipped.length > 0
+        ? Haptics.NotificationFeedbackType.Warning
+        : Haptics.NotificationFeedbackType.Success);
+      await ScreenReaderAnnouncer.announce(message, { priority: 'high' });
+    } catch (error) {
+      console.error('Failed to import contacts:', error);
+      Alert.alert('Error', 'Failed to read that contacts file. Please try again.');
+    } finally {
+      setIsSharingContacts(false);
+    }
+  };
+
+  const setChannelUrl = (key: 'emailRelayUrl' | 'webhookUrl', value: string) => {
+    setChannelSettings(prev => ({ ...prev, [key]: value.trim() || undefined }));
+    setChannelError(undefined);
+  };
+
+  // Alerts carry medical details, so only encrypted endpoints are accepted.
+  // Development builds may also use plain http for the local gateway stand-in.
+  const isAllowedServiceUrl = (url: string): boolean =>
+    (__DEV__ ? /^https?:\/\/[^\s/]+/i : /^https:\/\/[^\s/]+/i).test(url);
+
+  const validateChannelSettings = (): string | null => {
+    const urls = [channelSettings.emailRelayUrl, channelSettings.webhookUrl];
+    return urls.some(url => url && !isAllowedServiceUrl(url))
+      ? 'Alert service addresses must start with https://'
+      : null;
+  };
+
+  // Returns an error message, or null when the gateway fields can be saved
+  const validateGateway = (): string | null => {
+    if (!gatewayAccountSid && !gatewayFromNumber && !gatewayAuthToken) return null;
+    if (!isAllowedServiceUrl(gatewayBaseUrl)) return 'The gateway address must start with https://';
+    if (!gatewayAccountSid) return 'Enter the gateway account SID';
+    if (!gatewayAuthToken && !hasSavedGateway) return 'Enter the gateway auth token';
+    if (!/^\+[1-9]\d{6,14}$/.test(gatewayFromNumber)) return 'Enter the sending number in international format, like +61400000000';
+    return null;
+  };
+
+  const saveGatewaySettings = async () => {
+    if (!gatewayAccountSid) {
+      if (hasSavedGateway) {
+        await SmsGatewayService.clearConfig();
+        setHasSavedGateway(false);
+      }
+      return;
+    }
+
+    // Leaving the token blank keeps the one already saved
+    const authToken = gatewayAuthToken || (await SmsGatewayService.getConfig())?.authToken || '';
+    await SmsGatewayService.saveConfig({
+      baseUrl: gatewayBaseUrl.trim(),
+      accountSid: gatewayAccountSid.trim(),
+      authToken,
+      fromNumber: gatewayFromNumber.trim(),
+    });
+    setHasSavedGateway(true);
+    setGatewayAuthToken('');
+  };
+
+  const setWaitMinutes = (stepIndex: number, value: string) => {
+    setPolicy(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, index) =>
+        index === stepIndex ? { ...step, waitMinutes: Number(value) } : step
+      ),
+    }));
+  };
+
+  const saveSettings = async () => {
+    const validationError = validatePins();
+    setPinError(validationError || undefined);
+    const channelValidationError = validateChannelSettings();
+    setChannelError(channelValidationError || undefined);
+    const gatewayValidationError = validateGateway();
+    setGatewayError(gatewayValidationError || undefined);
+    const firstError = validationError || channelValidationError || gatewayValidationError;
+    if (firstError) {
+      await ScreenReaderAnnouncer.announce(firstError, { priority: 'high' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await EscalationService.savePolicy(policy);
+      await EmergencyNumberService.saveOverride(numberOverride === AUTOMATIC_NUMBER ? null : numberOverride);
+      await FallDetectionService.setEnabled(fallDetectionEnabled);
+      await NotificationActionService.setHelpNotificationEnabled(helpNotificationEnabled);
+      await savePinSettings();
+      await NotificationChannelService.saveSettings(channelSettings);
+      await saveGatewaySettings();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await ScreenReaderAnnouncer.announce('Emergency settings saved.', { priority: 'medium' });
+    } catch (error) {
+      console.error('Failed to save emergency settings:', error);
+      Alert.alert('Error', 'Failed to save emergency settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dynamicStyles = {
+    container: getDynamicStyle({
+      flex: 1,
+      backgroundColor: colors.background,
+    }),
+    title: getDynamicStyle({
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: 8,
+    }),
+    subtitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 24,
+      lineHeight: 22,
+    }),
+    sectionTitle: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 12,
+    }),
+    switchLabel: getDynamicStyle({
+      flex: 1,
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.text,
+      marginRight: 12,
+    }),
+    switchNote: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.textSecondary,
+      marginTop: 8,
+      lineHeight: 22,
+    }),
+    resultText: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.text,
+      marginTop: 12,
+      lineHeight: 22,
+    }),
+    section: getDynamicStyle({
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 16,
+    }),
+  };
+
+  return (
+    <View style={dynamicStyles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text ref={headerRef} style={dynamicStyles.title} accessibilityRole="header">
+          Emergency Settings
+        </Text>
+        <Text style={dynamicStyles.subtitle}>
+          Choose the number to call in an emergency and who is alerted when nobody responds.
+        </Text>
+
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+            Emergency Number
+          </Text>
+          <AccessibleSelect
+            label="Emergency services number"
+            options={emergencyNumberOptions}
+            value={numberOverride}
+            onValueChange={setNumberOverride}
+            helperText="Automatic uses your location, or your phone's region if location is unavailable"
+          />
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <View style={styles.switchRow}>
+            <Text style={dynamicStyles.switchLabel}>Detect falls while the app is open</Text>
+            <Switch
+              value={fallDetectionEnabled}
+              onValueChange={toggleFallDetection}
+              accessibilityLabel="Detect falls while the app is open"
+              accessibilityHint="When on, a hard fall followed by no movement starts the emergency countdown automatically. Falls are only detected while the app is open on screen."
+            />
+          </View>
+          <Text style={dynamicStyles.switchNote}>
+            Falls are not detected when the phone is locked or another app is open. Keep the app on screen, or use a check-in, if you need cover at other times.
+          </Text>
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <View style={styles.switchRow}>
+            <Text style={dynamicStyles.switchLabel}>Keep an "I need help" notification</Text>
+            <Switch
+              value={helpNotificationEnabled}
+              onValueChange={toggleHelpNotification}
+              accessibilityLabel="Keep an I need help notification"
+              accessibilityHint="When on, a notification always stays in your notification list. Pressing I need help starts the emergency countdown."
+            />
+          </View>
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <View style={styles.switchRow}>
+            <Text style={dynamicStyles.switchLabel}>Require a PIN to cancel</Text>
+            <Switch
+              value={pinEnabled}
+              onValueChange={togglePin}
+              accessibilityLabel="Require a PIN to cancel"
+              accessibilityHint="When on, an emergency can only be cancelled by entering your PIN"
+            />
+          </View>
+          {pinEnabled && (
+            <View style={styles.pinFields}>
+              <AccessibleTextInput
+                label="Cancellation PIN"
+                value={cancelPin}
+                onChangeText={text => setCancelPin(text.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+                secureTextEntry={true}
+                maxLength={8}
+                errorText={pinError}
+                helperText={hasSavedPin
+                  ? 'Leave blank to keep your current PINs'
+                  : '4 to 8 digits'}
+              />
+              <AccessibleTextInput
+                label="Duress PIN (optional)"
+                value={duressPin}
+                onChangeText={text => setDuressPin(text.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+                secureTextEntry={true}
+                maxLength={8}
+                helperText="If someone forces you to cancel, enter this instead. The app will look cancelled but your contacts are secretly told you are not safe."
+              />
+            </View>
+          )}
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <View style={styles.switchRow}>
+            <Text style={dynamicStyles.switchLabel}>Escalate when nobody responds</Text>
+            <Switch
+              value={policy.enabled}
+              onValueChange={setEnabled}
+              accessibilityLabel="Escalate when nobody responds"
+              accessibilityHint="When on, further contacts are alerted if nobody responds to your emergency"
+            />
+          </View>
+        </View>
+
+        {policy.enabled && (
+          <View style={dynamicStyles.section}>
+            <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+              Escalation Steps
+            </Text>
+            {policy.steps.map((step, index) => (
+              <AccessibleSelect
+                key={step.stage}
+                label={`${index + 1}. ${ESCALATION_STAGE_LABELS[step.stage]}`}
+                options={waitOptions}
+                value={String(step.waitMinutes)}
+                onValueChange={value => setWaitMinutes(index, value)}
+                helperText={index === 0
+                  ? 'Wait after the emergency starts'
+                  : 'Wait after the previous step'}
+              />
+            ))}
+          </View>
+        )}
+
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+            Automatic Text Messages
+          </Text>
+          <AccessibleTextInput
+            label="Gateway address"
+            value={gatewayBaseUrl}
+            onChangeText={text => setGatewayBaseUrl(text.trim())}
+            keyboardType="url"
+            autoCapitalize="none"
+            autoCorrect={false}
+            errorText={gatewayError}
+            helperText="A Twilio-compatible service sends alert texts without you pressing send"
+          />
+          <AccessibleTextInput
+            label="Account SID"
+            value={gatewayAccountSid}
+            onChangeText={setGatewayAccountSid}
+            autoCapitalize="none"
+            autoCorrect={false}
+            helperText="Leave blank to turn off automatic texts"
+          />
+          <AccessibleTextInput
+            label="Auth token"
+            value={gatewayAuthToken}
+            onChangeText={setGatewayAuthToken}
+            secureTextEntry={true}
+            autoCapitalize="none"
+            autoCorrect={false}
+            helperText={hasSavedGateway ? 'Leave blank to keep your current token' : 'Stored securely on this device'}
+          />
+          <AccessibleTextInput
+            label="Sending number"
+            value={gatewayFromNumber}
+            onChangeText={setGatewayFromNumber}
+            keyboardType="phone-pad"
+            placeholder="+61400000000"
+          />
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+            Alert Services
+          </Text>
+          <AccessibleSelect
+            label="Text messages from this phone"
+            options={deliveryModeOptions}
+            value={channelSettings.deliveryMode || 'individual'}
+            onValueChange={value => setChannelSettings(prev => ({ ...prev, deliveryMode: value as NotificationDeliveryMode }))}
+            helperText="One message to everyone means pressing send once. Each contact then gets the alert without their own reply code."
+          />
+          <AccessibleTextInput
+            label="Email service address (optional)"
+            value={channelSettings.emailRelayUrl || ''}
+            onChangeText={text => setChannelUrl('emailRelayUrl', text)}
+            keyboardType="url"
+            autoCapitalize="none"
+            autoCorrect={false}
+            errorText={channelError}
+            helperText="Used for contacts who are alerted by email"
+          />
+          <AccessibleTextInput
+            label="Care provider webhook (optional)"
+            value={channelSettings.webhookUrl || ''}
+            onChangeText={text => setChannelUrl('webhookUrl', text)}
+            keyboardType="url"
+            autoCapitalize="none"
+            autoCorrect={false}
+            helperText="Your care provider can give you this address"
+          />
+        </View>
+
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+            Share Contacts
+          </Text>
+          <AccessibleSelect
+            label="File format"
+            options={vCardVersionOptions}
+            value={vCardVersion}
+            onValueChange={value => setVCardVersion(value as VCardVersion)}
+            helperText="Emergency contacts and your care team are shared as one .vcf file"
+          />
+          <View style={styles.buttonContainer}>
+            <EmergencyButton
+              onPress={exportContacts}
+              size="small"
+              disabled={isSharingContacts}
+              accessibilityLabel="Share contacts file"
+              accessibilityHint="Saves your emergency contacts and care team as a .vcf file and opens the share menu"
+              style={{ backgroundColor: colors.primary, borderColor: colors.primary }}
+            />
+            <EmergencyButton
+              onPress={importContacts}
+              size="small"
+              disabled={isSharingContacts}
+              accessibilityLabel="Import contacts file"
+              accessibilityHint="Adds the people in a .vcf file to your emergency contacts or care team"
+              style={{ backgroundColor: colors.secondary, borderColor: colors.secondary }}
+            />
+          </View>
+          {contactsMessage && (
+            <Text style={dynamicStyles.resultText} accessibilityLiveRegion="polite">
+              {contactsMessage}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <EmergencyButton
+            onPress={saveSettings}
+            size="medium"
+            disabled={isSaving}
+            accessibilityLabel={isSaving ? 'Saving settings' : 'Save settings'}
+            accessibilityHint="Saves your emergency settings"
+            style={{ backgroundColor: colors.success, borderColor: colors.success }}
+          />
+          {onBack && (
+            <EmergencyButton
+              onPress={onBack}
+              size="medium"
+              accessibilityLabel="Back"
+              accessibilityHint="Returns to the previous screen"
+              style={{ backgroundColor: colors.secondary, borderColor: colors.secondary }}
+            />
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingTop: Platform.OS === 'ios' ? 60 : StatusBar.currentHeight ? StatusBar.currentHeight + 20 : 40,
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  pinFields: {
+    marginTop: 16,
+  },
+  buttonContainer: {
+    marginTop: 16,
+    alignItems: 'center',
+    gap: 12,
+  },
+});
+
+export default EmergencySettingsScreen;
@@ -9,31 +9,38 @@ import {
 } from 'react-native';
 import { StatusBar as ExpoStatusBar } from 'expo-status-bar';
 import * as Haptics from 'expo-haptics';
-import { MedicalProfile, MedicationReminder } from '../types/accessibility';
+import { AppRoute, MedicalProfile, MedicationReminder } from '../types/accessibility';
 import { SecureStorage } from '../services/SecureStorage';
 import { MedicationReminderService } from '../services/MedicationReminderService';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import { EmergencyContactService, EmergencyContactsStatus } from '../services/EmergencyContactService';
+import { ContactVerificationService } from '../services/ContactVerificationService';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
 import { useAccessibleStyles } from '../contexts/AccessibilityContext';
 import EmergencyButton from '../components/emergency/EmergencyButton';
 import MedicalSummaryCard from '../components/cards/MedicalSummaryCard';
 import AccessibilityToolbar from '../components/accessibility/AccessibilityToolbar';
 
 interface HealthcareHomeScreenProps {
-  onNavigate?: (screen: string) => void;
+  onNavigate?: (route: AppRoute) => void;
   onEmergency?: () => void;
+  // Press and hold on the emergency button
+  onSilentEmergency?: () => void;
 }
 
 export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
   onNavigate,
-  onEmergency
+  onEmergency,
+  onSilentEmergency
 }) => {
   const [medicalProfile, setMedicalProfile] = useState<MedicalProfile | null>(null);
   const [upcomingMedications, setUpcomingMedications] = useState<MedicationReminder[]>([]);
+  const [contactsStatus, setContactsStatus] = useState<EmergencyContactsStatus | null>(null);
   const [isAccessibilityToolbarVisible, setIsAccessibilityToolbarVisible] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   const { getColors, getDynamicStyle } = useAccessibleStyles();
   const colors = getColors();
+  const headerRef = useHeaderFocus();
 
   useEffect(() => {
     loadData();
@@ -56,6 +63,14 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
 
       setMedicalProfile(profile);
       setUpcomingMedications(medications);
+
+      if (profile) {
+        await ContactVerificationService.checkReplies(profile.emergencyContacts);
+        setContactsStatus(await EmergencyContactService.getEmergencyContactsStatus(
+          profile,
+          await ContactVerificationService.getVerifications()
+        ));
+      }
     } catch (error) {
       console.error('Failed to load healthcare data:', error);
     } finally {
@@ -63,10 +78,10 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
     }
   };
 
-  const handleNavigate = async (screen: string, screenName: string) => {
+  const handleNavigate = async (route: AppRoute, screenName: string) => {
     await Haptics.selectionAsync();
     await ScreenReaderAnnouncer.announce(`Opening ${screenName}`, { priority: 'medium' });
-    onNavigate?.(screen);
+    onNavigate?.(route);
   };
 
   const handleEmergency = async () => {
@@ -127,6 +142,11 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
       borderLeftWidth: 4,
       borderLeftColor: colors.error,
     }),
+    readinessText: getDynamicStyle({
+      fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+      color: colors.text,
+      lineHeight: 22,
+    }),
     medicationItem: getDynamicStyle({
       flexDirection: 'row',
       justifyContent: 'space-between',
@@ -173,7 +193,7 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
       >
         {/* Header */}
         <View style={styles.header}>
-          <Text style={dynamicStyles.title} accessibilityRole="header">
+          <Text ref={headerRef} style={dynamicStyles.title} accessibilityRole="header">
             Healthcare Hub
           </Text>
           <Text style={dynamicStyles.subtitle}>
@@ -188,12 +208,50 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
           </Text>
           <EmergencyButton 
             onPress={handleEmergency}
+            onLongPress={onSilentEmergency}
             size="large"
             accessibilityLabel="Emergency assistance"
-            accessibilityHint="Activates emergency response with medical information sharing"
+            accessibilityHint="Activates emergency response with medical information sharing. Press and hold to alert contacts silently."
+          />
+          <EmergencyButton
+            onPress={() => handleNavigate('emergency', 'emergency options')}
+            size="small"
+            accessibilityLabel="More emergency options"
+            accessibilityHint="Choose the type of emergency and check in with your contacts"
+            style={{ backgroundColor: colors.secondary, borderColor: colors.secondary, marginTop: 12 }}
           />
         </View>
 
+        {/* Emergency Contact Readiness */}
+        {contactsStatus && (
+          <View
+            style={[
+              dynamicStyles.emergencySection,
+              {
+                borderLeftColor: contactsStatus.isReady && contactsStatus.verification.reverifyCount === 0
+                  ? colors.success
+                  : colors.warning
+              }
+            ]}
+          >
+            <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
+              {contactsStatus.isReady ? 'Contacts Ready' : 'Contacts Not Ready'}
+            </Text>
+            <Text style={dynamicStyles.readinessText}>
+              {contactsStatus.verification.summary}
+            </Text>
+            {(!contactsStatus.isReady || contactsStatus.verification.reverifyCount > 0) && (
+              <EmergencyButton
+                onPress={() => handleNavigate('medical-profile', 'emergency contacts')}
+                size="small"
+                accessibilityLabel="Verify emergency contacts"
+                accessibilityHint="Send test messages to check your contacts' numbers"
+                style={{ backgroundColor: colors.primary, borderColor: colors.primary, marginTop: 12 }}
+              />
+            )}
+          </View>
+        )}
+
         {/* Quick Actions */}
         <View style={styles.section}>
           <Text style={dynamicStyles.sectionTitle} accessibilityRole="header">
@@ -208,10 +266,10 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
               style={[dynamicStyles.actionButton, { backgroundColor: colors.primary }]}
             />
             <EmergencyButton
-              onPress={() => handleNavigate('medications', 'medication reminders')}
+              onPress={() => handleNavigate('check-ins', 'check-ins')}
               size="medium"
-              accessibilityLabel="Medication reminders"
-              accessibilityHint="Manage your medication schedule and reminders"
+              accessibilityLabel="Check-ins"
+              accessibilityHint="Schedule regular check-ins with your emergency contacts"
               style={[dynamicStyles.actionButton, { backgroundColor: colors.success }]}
             />
             <EmergencyButton
@@ -221,6 +279,20 @@ export const HealthcareHomeScreen: React.FC<HealthcareHomeScreenProps> = ({
               accessibilityHint="Manage your healthcare team contacts"
               style={[dynamicStyles.actionButton, { backgroundColor: colors.warning }]}
             />
+            <EmergencyButton
+              onPress={() => handleNavigate('emergency-history', 'emergency history')}
+              size="medium"
+              accessibilityLabel="Emergency history"
+              accessibilityHint="Review past emergencies and their audit trail"
+              style={[dynamicStyles.actionButton, { backgroundColor: colors.primary }]}
+            />
+            <EmergencyButton
+              onPress={() => handleNavigate('emergency-settings', 'emergency settings')}
+              size="medium"
+              accessibilityLabel="Emergency settings"
+              accessibilityHint="Choose your emergency number, escalation and cancellation PIN"
+              style={[dynamicStyles.actionButton, { backgroundColor: colors.warning }]}
+            />
             <EmergencyButton
               onPress={toggleAccessibilityToolbar}
               size="medium"
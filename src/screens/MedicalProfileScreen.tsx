@@ -7,13 +7,51 @@ import {
   Alert 
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { MedicalProfile, EmergencyContact } from '../types/accessibility';
+import {
+  MedicalProfile,
+  CareCoordinator,
+  ContactVerification,
+  EmergencyContact,
+  MedicalSharingLevel,
+  MessageLanguage,
+  NotificationChannelType,
+  SharedMedicalField
+} from '../types/accessibility';
 import { SecureStorage } from '../services/SecureStorage';
 import { LocationService } from '../services/LocationService';
-import { ScreenReaderAnnouncer, WCAG_CONSTANTS } from '../utils/accessibility';
+import { DEFAULT_CONTACT_CHANNELS, NOTIFICATION_CHANNEL_LABELS, contactChannels } from '../services/NotificationRouting';
+import {
+  DEFAULT_MESSAGE_LANGUAGE,
+  MESSAGE_LANGUAGE_LABELS,
+  MESSAGE_SECTION_LABELS,
+  SENDER_NAME,
+  composeEmergencyAlert
+} from '../services/MessageTemplates';
+import { describeSegments } from '../services/SmsSegments';
+import {
+  DEFAULT_SHARING_LEVEL,
+  MEDICAL_SHARING_LABELS,
+  SHARED_FIELDS,
+  SHARED_FIELD_LABELS,
+  SHARING_LEVEL_FIELDS,
+  describeSharedFields,
+  matchingSharingLevel,
+  redactMedicalProfile,
+  sharedMedicalFields
+} from '../services/MedicalSharing';
+import {
+  ImportedContact,
+  describeSavedContact,
+  findSavedContact,
+  savedContacts
+} from '../services/ContactImport';
+import { contactVerificationStatus, describeVerification } from '../services/ContactVerification';
+import { ContactVerificationService } from '../services/ContactVerificationService';
+import { ScreenReaderAnnouncer, WCAG_CONSTANTS, useHeaderFocus } from '../utils/accessibility';
 import AccessibleTextInput from '../components/forms/AccessibleTextInput';
 import AccessibleSelect from '../components/forms/AccessibleSelect';
 import EmergencyButton from '../components/emergency/EmergencyButton';
+import DeviceContactPicker from '../components/forms/DeviceContactPicker';
 import { FormValidation, ValidationRule } from '../components/forms/FormValidation';
 
 interface MedicalProfileScreenProps {
@@ -25,6 +63,7 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
   onProfileSaved,
   onCancel
 }) => {
+  const headerRef = useHeaderFocus();
   const [profile, setProfile] = useState<Partial<MedicalProfile>>({
     personalInfo: {
       firstName: '',
@@ -52,6 +91,18 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
   const [emergencyContactPhone, setEmergencyContactPhone] = useState('');
   const [emergencyContactRelationship, setEmergencyContactRelationship] = useState('');
   const [isEmergencyContactPrimary, setIsEmergencyContactPrimary] = useState(false);
+  const [emergencyContactEmail, setEmergencyContactEmail] = useState('');
+  const [emergencyContactChannels, setEmergencyContactChannels] = useState(DEFAULT_CONTACT_CHANNELS.join(','));
+  const [emergencyContactLanguage, setEmergencyContactLanguage] = useState<string>(DEFAULT_MESSAGE_LANGUAGE);
+  const [emergencyContactFields, setEmergencyContactFields] = useState<SharedMedicalField[]>(
+    SHARING_LEVEL_FIELDS[DEFAULT_SHARING_LEVEL]
+  );
+  const [previewLanguage, setPreviewLanguage] = useState<string>(DEFAULT_MESSAGE_LANGUAGE);
+  const [previewContactId, setPreviewContactId] = useState('');
+  const [careCoordinators, setCareCoordinators] = useState<CareCoordinator[]>([]);
+  const [isContactPickerVisible, setIsContactPickerVisible] = useState(false);
+  const [verifications, setVerifications] = useState<ContactVerification[]>([]);
+  const [verifyingContactId, setVerifyingContactId] = useState<string | null>(null);
 
   const bloodTypeOptions = [
     { label: 'A+', value: 'A+' },
@@ -75,6 +126,20 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     { label: 'Other', value: 'Other' },
   ];
 
+  // Channels are tried in order until one gets through
+  const alertChannelOptions = [
+    { label: 'Text message', value: 'sms_composer' },
+    { label: 'Automatic text, then text message', value: 'sms_gateway,sms_composer' },
+    { label: 'Email, then text message', value: 'email,sms_composer' },
+    { label: 'Care provider, then text message', value: 'webhook,sms_composer' },
+  ];
+
+  const languageOptions = (Object.keys(MESSAGE_LANGUAGE_LABELS) as MessageLanguage[])
+    .map(language => ({ label: MESSAGE_LANGUAGE_LABELS[language], value: language }));
+
+  const sharingLevelOptions = (Object.keys(MEDICAL_SHARING_LABELS) as MedicalSharingLevel[])
+    .map(level => ({ label: MEDICAL_SHARING_LABELS[level], value: level }));
+
   useEffect(() => {
     loadExistingProfile();
     checkLocationPermissionStatus();
@@ -93,6 +158,10 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
       if (existingProfile) {
         setProfile(existingProfile);
       }
+      setCareCoordinators(await SecureStorage.getCareCoordinators());
+      // Pick up replies to test messages that came in since the last visit
+      await ContactVerificationService.checkReplies(existingProfile?.emergencyContacts || []);
+      setVerifications(await ContactVerificationService.getVerifications());
     } catch (error) {
       console.error('Failed to load medical profile:', error);
     } finally {
@@ -242,17 +311,28 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     }));
   };
 
+  const fillFromDeviceContact = (contact: ImportedContact) => {
+    setIsContactPickerVisible(false);
+    setEmergencyContactName(contact.name);
+    setEmergencyContactPhone(contact.phoneNumber);
+    setEmergencyContactEmail(contact.email || '');
+    setErrors(prev => ({ ...prev, name: '', phone: contact.phoneError || '', email: '' }));
+  };
+
   const addEmergencyContact = () => {
+    const channels = emergencyContactChannels.split(',') as NotificationChannelType[];
     const contactData = {
       name: emergencyContactName,
       phone: emergencyContactPhone,
-      relationship: emergencyContactRelationship
+      relationship: emergencyContactRelationship,
+      email: emergencyContactEmail
     };
 
     const validationRules = {
       name: FormValidation.commonRules.emergencyContactName,
       phone: FormValidation.commonRules.phone,
-      relationship: FormValidation.commonRules.emergencyContactRelationship
+      relationship: FormValidation.commonRules.emergencyContactRelationship,
+      email: { required: channels.includes('email'), email: true }
     };
 
     const validation = FormValidation.validateForm(contactData, validationRules);
@@ -261,12 +341,26 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
       return;
     }
 
+    const existingContact = findSavedContact(
+      { name: emergencyContactName, phoneNumber: emergencyContactPhone },
+      savedContacts(profile.emergencyContacts || [], [])
+    );
+    if (existingContact) {
+      setErrors(prev => ({ ...prev, phone: describeSavedContact(existingContact) }));
+      ScreenReaderAnnouncer.announce(describeSavedContact(existingContact), { priority: 'high' });
+      return;
+    }
+
     const newContact: EmergencyContact = {
       id: `contact_${Date.now()}`,
       name: FormValidation.sanitizeInput(emergencyContactName),
       phoneNumber: FormValidation.formatPhoneNumber(emergencyContactPhone),
       relationship: FormValidation.sanitizeInput(emergencyContactRelationship),
-      isPrimary: isEmergencyContactPrimary
+      isPrimary: isEmergencyContactPrimary,
+      email: emergencyContactEmail.trim() || undefined,
+      channels,
+      language: emergencyContactLanguage as MessageLanguage,
+      ...contactSharing(emergencyContactFields)
     };
 
     setProfile(prev => ({
@@ -279,9 +373,34 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     setEmergencyContactPhone('');
     setEmergencyContactRelationship('');
     setIsEmergencyContactPrimary(false);
-    setErrors(prev => ({ ...prev, name: '', phone: '', relationship: '' }));
+    setEmergencyContactEmail('');
+    setEmergencyContactChannels(DEFAULT_CONTACT_CHANNELS.join(','));
+    setEmergencyContactLanguage(DEFAULT_MESSAGE_LANGUAGE);
+    setEmergencyContactFields(SHARING_LEVEL_FIELDS[DEFAULT_SHARING_LEVEL]);
+    setErrors(prev => ({ ...prev, name: '', phone: '', relationship: '', email: '' }));
+  };
+
+  // Store a level when the fields match one, so the contact follows any
+  // later change to what that level covers
+  const contactSharing = (fields: SharedMedicalField[]): Pick<EmergencyContact, 'sharingLevel' | 'sharedFields'> => {
+    const level = matchingSharingLevel(fields);
+    return level ? { sharingLevel: level, sharedFields: undefined } : { sharingLevel: undefined, sharedFields: fields };
   };
 
+  const updateContactSharing = (id: string, fields: SharedMedicalField[]) => {
+    setProfile(prev => ({
+      ...prev,
+      emergencyContacts: prev.emergencyContacts?.map(contact =>
+        contact.id === id ? { ...contact, ...contactSharing(fields) } : contact
+      ) || []
+    }));
+  };
+
+  const toggleSharedField = (fields: SharedMedicalField[], field: SharedMedicalField): SharedMedicalField[] =>
+    fields.includes(field)
+      ? fields.filter(shared => shared !== field)
+      : SHARED_FIELDS.filter(shared => shared === field || fields.includes(shared));
+
   const removeEmergencyContact = (id: string) => {
     setProfile(prev => ({
       ...prev,
@@ -289,6 +408,53 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     }));
   };
 
+  const sendVerificationTest = async (contact: EmergencyContact) => {
+    const personalInfo = profile.personalInfo!;
+    if (!personalInfo.firstName.trim()) {
+      setErrors(prev => ({ ...prev, firstName: 'Add your first name so the contact knows who the test is from' }));
+      ScreenReaderAnnouncer.announce('Add your first name before sending a test message.', { priority: 'high' });
+      return;
+    }
+
+    setVerifyingContactId(contact.id);
+    try {
+      const result = await ContactVerificationService.sendTest(contact, { personalInfo });
+      setVerifications(await ContactVerificationService.getVerifications());
+
+      if (result.delivered) {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        await ScreenReaderAnnouncer.announce(
+          `Test message sent to ${contact.name}. They will show as verified once they reply.`,
+          { priority: 'high' }
+        );
+      } else {
+        const lastAttempt = result.attempts[result.attempts.length - 1];
+        Alert.alert(
+          'Test Not Sent',
+          `The test message to ${contact.name} was not sent`
+            + (lastAttempt?.detail ? `: ${lastAttempt.detail}` : '.'),
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Failed to send test message:', error);
+      Alert.alert('Test Not Sent', 'There was an error sending the test message. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setVerifyingContactId(null);
+    }
+  };
+
+  const confirmContactVerified = async (contact: EmergencyContact) => {
+    try {
+      if (await ContactVerificationService.markVerified(contact)) {
+        setVerifications(await ContactVerificationService.getVerifications());
+        await ScreenReaderAnnouncer.announce(`${contact.name} is verified.`, { priority: 'medium' });
+      }
+    } catch (error) {
+      console.error('Failed to mark contact verified:', error);
+    }
+  };
+
   const validateAndSave = async () => {
     const personalInfo = profile.personalInfo!;
     
@@ -372,6 +538,73 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     }
   };
 
+  // The alert as it would be sent now, with a sample location and reply
+  // code so its length matches a real one
+  const buildAlertPreview = () => {
+    const personalInfo = profile.personalInfo!;
+    const previewContact = profile.emergencyContacts?.find(contact => contact.id === previewContactId);
+    const fields = previewContact ? sharedMedicalFields(previewContact) : SHARING_LEVEL_FIELDS.full;
+    return composeEmergencyAlert(
+      redactMedicalProfile({
+        id: profile.id || 'preview',
+        personalInfo: {
+          ...personalInfo,
+          firstName: personalInfo.firstName.trim() || 'Your',
+          lastName: personalInfo.firstName.trim() ? personalInfo.lastName.trim() : 'name',
+        },
+        emergencyContacts: profile.emergencyContacts || [],
+        medicalConditions: profile.medicalConditions || [],
+        additionalNotes: profile.additionalNotes || '',
+        lastUpdated: new Date().toISOString(),
+      }, fields),
+      {
+        id: `emergency_${Date.now()}_preview`,
+        startTime: new Date().toISOString(),
+        trigger: 'button',
+        emergencyType: 'general',
+        category: 'medical',
+      },
+      {
+        language: previewLanguage as MessageLanguage,
+        appName: SENDER_NAME,
+        location: { latitude: -33.868820, longitude: 151.209290, accuracy: 15 },
+        replyCode: '1234',
+      }
+    );
+  };
+
+  const renderSharingControls = (
+    fields: SharedMedicalField[],
+    onChange: (fields: SharedMedicalField[]) => void,
+    contactName?: string
+  ) => (
+    <View style={styles.sharingControls}>
+      <AccessibleSelect
+        label={contactName ? `Medical details shared with ${contactName}` : 'Medical details shared'}
+        options={sharingLevelOptions}
+        value={matchingSharingLevel(fields) || ''}
+        onValueChange={(value) => onChange(SHARING_LEVEL_FIELDS[value as MedicalSharingLevel])}
+        placeholder={`Chosen one by one: ${describeSharedFields(fields)}`}
+        helperText="Location is always shared. Tick or untick details below to choose them one by one."
+      />
+      {SHARED_FIELDS.map(field => {
+        const isShared = fields.includes(field);
+        return (
+          <View key={field} style={styles.checkboxContainer}>
+            <EmergencyButton
+              onPress={() => onChange(toggleSharedField(fields, field))}
+              size="small"
+              accessibilityLabel={`Share ${SHARED_FIELD_LABELS[field].toLowerCase()}${contactName ? ` with ${contactName}` : ''} ${isShared ? 'enabled' : 'disabled'}`}
+              accessibilityHint="Toggle whether this detail is included in emergency alerts"
+              style={[styles.checkbox, isShared && styles.checkboxSelected]}
+            />
+            <Text style={styles.checkboxLabel}>{SHARED_FIELD_LABELS[field]}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -380,9 +613,11 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
     );
   }
 
+  const alertPreview = buildAlertPreview();
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
-      <Text style={styles.title} accessibilityRole="header">
+      <Text ref={headerRef} style={styles.title} accessibilityRole="header">
         Medical Profile
       </Text>
       
@@ -553,6 +788,22 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
         <Text style={styles.sectionTitle} accessibilityRole="header">
           Emergency Contacts
         </Text>
+
+        <EmergencyButton
+          onPress={() => setIsContactPickerVisible(true)}
+          size="small"
+          accessibilityLabel="Choose from contacts"
+          accessibilityHint="Fills in the form from someone in your phone's contacts"
+          style={styles.importContactButton}
+        />
+
+        <DeviceContactPicker
+          visible={isContactPickerVisible}
+          addingAs="emergency_contact"
+          saved={savedContacts(profile.emergencyContacts || [], careCoordinators)}
+          onSelect={fillFromDeviceContact}
+          onDismiss={() => setIsContactPickerVisible(false)}
+        />
         
         <AccessibleTextInput
           label="Contact Name"
@@ -580,6 +831,34 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
           errorText={errors.relationship}
           placeholder="Select relationship"
         />
+
+        <AccessibleTextInput
+          label="Email (optional)"
+          value={emergencyContactEmail}
+          onChangeText={setEmergencyContactEmail}
+          errorText={errors.email}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <AccessibleSelect
+          label="Alert by"
+          options={alertChannelOptions}
+          value={emergencyContactChannels}
+          onValueChange={setEmergencyContactChannels}
+          helperText="If the first way fails, the next one is tried"
+        />
+
+        <AccessibleSelect
+          label="Message language"
+          options={languageOptions}
+          value={emergencyContactLanguage}
+          onValueChange={setEmergencyContactLanguage}
+          helperText="Alerts and updates to this contact are written in this language"
+        />
+
+        {renderSharingControls(emergencyContactFields, setEmergencyContactFields)}
         
         <View style={styles.checkboxContainer}>
           <EmergencyButton
@@ -601,24 +880,123 @@ export const MedicalProfileScreen: React.FC<MedicalProfileScreenProps> = ({
         />
         
         {profile.emergencyContacts?.map((contact) => (
-          <View key={contact.id} style={styles.contactItem}>
-            <View style={styles.contactInfo}>
-              <Text style={styles.contactName}>{contact.name}</Text>
-              <Text style={styles.contactDetails}>
-                {contact.phoneNumber} • {contact.relationship}
-                {contact.isPrimary && ' • Primary'}
-              </Text>
+          <View key={contact.id} style={styles.contactCard}>
+            <View style={styles.contactItem}>
+              <View style={styles.contactInfo}>
+                <Text style={styles.contactName}>{contact.name}</Text>
+                <Text style={styles.contactDetails}>
+                  {contact.phoneNumber} • {contact.relationship}
+                  {contact.isPrimary && ' • Primary'}
+                </Text>
+                <Text style={styles.contactDetails}>
+                  Alerts: {contactChannels(contact.channels).map(channel => NOTIFICATION_CHANNEL_LABELS[channel]).join(', then ')}
+                </Text>
+                <Text style={styles.contactDetails}>
+                  Language: {MESSAGE_LANGUAGE_LABELS[contact.language || DEFAULT_MESSAGE_LANGUAGE]}
+                </Text>
+                <Text style={styles.contactDetails}>
+                  Medical details: {describeSharedFields(sharedMedicalFields(contact))}
+                </Text>
+                <Text
+                  style={[
+                    styles.contactDetails,
+                    contactVerificationStatus(contact, verifications) === 'verified'
+                      ? styles.verifiedText
+                      : styles.unverifiedText
+                  ]}
+                >
+                  {describeVerification(contact, verifications)}
+                </Text>
+              </View>
+              <EmergencyButton
+                onPress={() => removeEmergencyContact(contact.id)}
+                size="small"
+                accessibilityLabel={`Remove ${contact.name} from emergency contacts`}
+                style={styles.removeButton}
+              />
             </View>
-            <EmergencyButton
-              onPress={() => removeEmergencyContact(contact.id)}
-              size="small"
-              accessibilityLabel={`Remove ${contact.name} from emergency contacts`}
-              style={styles.removeButton}
-            />
+            <View style={styles.verificationActions}>
+              <EmergencyButton
+                onPress={() => sendVerificationTest(contact)}
+                size="small"
+                disabled={verifyingContactId !== null}
+                accessibilityLabel={contactVerificationStatus(contact, verifications) === 'unverified'
+                  ? `Send test message to ${contact.name}`
+                  : `Send new test message to ${contact.name}`}
+                accessibilityHint="Sends a message clearly marked as a test, asking them to reply with a code"
+                style={styles.verifyButton}
+              />
+              {contactVerificationStatus(contact, verifications) === 'pending' && (
+                <EmergencyButton
+                  onPress={() => confirmContactVerified(contact)}
+                  size="small"
+                  accessibilityLabel={`${contact.name} replied`}
+                  accessibilityHint="Marks this contact verified when their reply came to your own messages"
+                  style={styles.confirmVerifiedButton}
+                />
+              )}
+            </View>
+            {renderSharingControls(
+              sharedMedicalFields(contact),
+              (fields) => updateContactSharing(contact.id, fields),
+              contact.name
+            )}
           </View>
         ))}
       </View>
 
+      {/* Alert Preview */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          Alert Preview
+        </Text>
+
+        <AccessibleSelect
+          label="Preview language"
+          options={languageOptions}
+          value={previewLanguage}
+          onValueChange={setPreviewLanguage}
+        />
+
+        <AccessibleSelect
+          label="Preview as sent to"
+          options={(profile.emergencyContacts || []).map(contact => ({ label: contact.name, value: contact.id }))}
+          value={previewContactId}
+          onValueChange={setPreviewContactId}
+          placeholder="A contact who gets full medical details"
+        />
+
+        <View style={styles.previewCard}>
+          <Text style={styles.previewText} selectable={true}>
+            {alertPreview.text}
+          </Text>
+        </View>
+
+        <Text style={styles.previewDetails} accessibilityLiveRegion="polite">
+          {describeSegments(alertPreview.segmentInfo)}
+        </Text>
+        {alertPreview.segmentInfo.unicodeCharacters.length > 0 && (
+          <Text style={styles.previewWarning}>
+            {`These characters make every text shorter: ${alertPreview.segmentInfo.unicodeCharacters.join(' ')}`}
+          </Text>
+        )}
+        {alertPreview.omitted.length > 0 && (
+          <Text style={styles.previewWarning}>
+            {`Left out to fit: ${alertPreview.omitted.map(key => MESSAGE_SECTION_LABELS[key]).join(', ')}`}
+          </Text>
+        )}
+        {alertPreview.shortened.length > 0 && (
+          <Text style={styles.previewWarning}>
+            {`Shortened to fit: ${alertPreview.shortened.map(key => MESSAGE_SECTION_LABELS[key]).join(', ')}`}
+          </Text>
+        )}
+        {alertPreview.omitted.length + alertPreview.shortened.length === 0 && (
+          <Text style={styles.previewDetails}>
+            Everything in your profile fits in the alert.
+          </Text>
+        )}
+      </View>
+
       {/* Location Permission */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle} accessibilityRole="header">
@@ -790,20 +1168,52 @@ const styles = StyleSheet.create({
     fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
     color: '#333333',
   },
+  importContactButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
   addContactButton: {
     backgroundColor: '#2196f3',
     borderColor: '#2196f3',
     marginBottom: 16,
   },
-  contactItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
+  contactCard: {
     padding: 16,
     backgroundColor: '#e3f2fd',
     borderRadius: 8,
     marginBottom: 8,
   },
+  contactItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sharingControls: {
+    marginTop: 12,
+  },
+  verificationActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  verifyButton: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+  },
+  confirmVerifiedButton: {
+    backgroundColor: '#4caf50',
+    borderColor: '#4caf50',
+  },
+  verifiedText: {
+    color: '#2e7d32',
+    fontWeight: '600',
+  },
+  unverifiedText: {
+    color: '#e65100',
+  },
   contactInfo: {
     flex: 1,
   },
@@ -830,6 +1240,29 @@ const styles = StyleSheet.create({
     backgroundColor: '#666666',
     borderColor: '#666666',
   },
+  previewCard: {
+    padding: 16,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#dddddd',
+    marginBottom: 12,
+  },
+  previewText: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#333333',
+    lineHeight: 22,
+  },
+  previewDetails: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  previewWarning: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#e65100',
+    marginBottom: 4,
+  },
   locationPermissionCard: {
     padding: 16,
     backgroundColor: '#f0f8ff',
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { EmergencyFlowProps } from '../types/accessibility';
+import { WCAG_CONSTANTS } from '../utils/accessibility';
+
+/**
+ * Shown while a silent emergency is active. It is made to look like an
+ * ordinary notes screen so someone glancing at the phone sees nothing
+ * unusual. Labels stay neutral because a screen reader would speak them.
+ */
+export const SilentEmergencyScreen: React.FC<EmergencyFlowProps> = ({
+  session,
+  onStatusChange
+}) => {
+  const contactsNotified = session?.contactsNotified.length || 0;
+  const lastUpdate = session?.breadcrumbs?.[session.breadcrumbs.length - 1]?.timestamp
+    || session?.location?.timestamp
+    || session?.startTime;
+
+  // Holding Done ends the silent emergency without any confirmation dialog
+  const handleDone = () => {
+    onStatusChange('follow_up');
+    onStatusChange('completed');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title} accessibilityRole="header">
+          Notes
+        </Text>
+        <TouchableOpacity
+          style={styles.doneButton}
+          onLongPress={handleDone}
+          delayLongPress={1500}
+          accessibilityRole="button"
+          accessibilityLabel="Done"
+          accessibilityHint="Hold to finish"
+        >
+          <Text style={styles.doneText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.note}>
+        <Text style={styles.noteTitle}>Shopping</Text>
+        <Text style={styles.noteText}>Milk, bread, eggs, tea bags</Text>
+      </View>
+
+      <View style={styles.note}>
+        <Text style={styles.noteTitle}>Appointments</Text>
+        <Text style={styles.noteText}>Check the calendar for next week</Text>
+      </View>
+
+      {/* Discreet status: number of contacts alerted and last location time */}
+      <Text style={styles.syncText}>
+        Synced {lastUpdate ? new Date(lastUpdate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''} · {contactsNotified}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAF7',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  doneButton: {
+    minHeight: WCAG_CONSTANTS.MINIMUM_TOUCH_TARGET,
+    minWidth: WCAG_CONSTANTS.MINIMUM_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+  },
+  doneText: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    color: '#B45309',
+  },
+  note: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  noteTitle: {
+    fontSize: WCAG_CONSTANTS.LARGE_FONT_SIZE,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  noteText: {
+    fontSize: WCAG_CONSTANTS.MINIMUM_FONT_SIZE,
+    color: '#6B7280',
+  },
+  syncText: {
+    marginTop: 'auto',
+    marginBottom: 32,
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+});
+
+export default SilentEmergencyScreen;
@@ -0,0 +1,40 @@
+import { AppRoute } from '../types/accessibility';
+
+/**
+ * Pure route stack for the app. The home screen is always at the bottom and
+ * cannot be popped. Nothing here touches React or native modules.
+ */
+
+export const ROOT_ROUTE: AppRoute = 'home';
+
+export const ROUTE_TITLES: Record<AppRoute, string> = {
+  home: 'Healthcare Hub',
+  emergency: 'Emergency assistance',
+  'medical-profile': 'Medical profile',
+  'care-coordinators': 'Care coordinators',
+  'check-ins': 'Check-ins',
+  'emergency-history': 'Emergency history',
+  'emergency-settings': 'Emergency settings',
+};
+
+export const createRouteStack = (): AppRoute[] => [ROOT_ROUTE];
+
+export const currentRoute = (stack: AppRoute[]): AppRoute =>
+  stack[stack.length - 1] || ROOT_ROUTE;
+
+export const canGoBack = (stack: AppRoute[]): boolean => stack.length > 1;
+
+/**
+ * Open a route. Opening a route already in the stack returns to it instead
+ * of stacking a second copy.
+ */
+export const pushRoute = (stack: AppRoute[], route: AppRoute): AppRoute[] => {
+  const existingIndex = stack.indexOf(route);
+  if (existingIndex >= 0) {
+    return stack.slice(0, existingIndex + 1);
+  }
+  return [...stack, route];
+};
+
+export const popRoute = (stack: AppRoute[]): AppRoute[] =>
+  canGoBack(stack) ? stack.slice(0, -1) : stack;
@@ -0,0 +1,113 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { CancellationPinResult } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+
+interface StoredCancellationPins {
+  salt: string;
+  pinHash: string;
+  duressPinHash?: string;
+}
+
+// Audit action for duress cancellations; kept neutral so it reads like a
+// routine entry to anyone looking over the user's shoulder
+export const DURESS_AUDIT_ACTION = 'protected_action';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export const isValidPin = (pin: string): boolean => PIN_PATTERN.test(pin);
+
+/**
+ * Optional PIN that must be entered to cancel an emergency. A second, duress
+ * PIN looks like a normal cancellation to whoever is watching but keeps the
+ * emergency running silently. Only salted hashes are stored.
+ */
+export class CancellationPinService {
+  private static readonly PINS_KEY = 'cancellation_pins';
+
+  static async isEnabled(): Promise<boolean> {
+    return (await this.loadPins()) !== null;
+  }
+
+  static async hasDuressPin(): Promise<boolean> {
+    return Boolean((await this.loadPins())?.duressPinHash);
+  }
+
+  static async savePins(pin: string, duressPin?: string): Promise<void> {
+    if (!isValidPin(pin) || (duressPin && !isValidPin(duressPin))) {
+      throw new Error('PINs must be 4 to 8 digits');
+    }
+    if (duressPin && duressPin === pin) {
+      throw new Error('The duress PIN must be different from the cancellation PIN');
+    }
+
+    try {
+      const saltBytes = await Crypto.getRandomBytesAsync(16);
+      const salt = Array.from(saltBytes).map((b: number) => b.toString(16).padStart(2, '0')).join('');
+      const pins: StoredCancellationPins = {
+        salt,
+        pinHash: await this.hashPin(pin, salt),
+        duressPinHash: duressPin ? await this.hashPin(duressPin, salt) : undefined,
+      };
+
+      await SecureStore.setItemAsync(this.PINS_KEY, JSON.stringify(pins));
+
+      // The audit entry must not reveal whether a duress PIN exists
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'cancellation_pin_saved',
+        details: 'Cancellation PIN updated'
+      });
+    } catch (error) {
+      throw new Error(`Failed to save cancellation PIN: ${error}`);
+    }
+  }
+
+  static async clearPins(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.PINS_KEY);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'cancellation_pin_removed',
+        details: 'Cancellation PIN removed'
+      });
+    } catch (error) {
+      throw new Error(`Failed to remove cancellation PIN: ${error}`);
+    }
+  }
+
+  /**
+   * Check an entered PIN. Without a configured PIN every cancellation is
+   * allowed.
+   */
+  static async verify(pin: string): Promise<CancellationPinResult> {
+    const pins = await this.loadPins();
+    if (!pins) {
+      return 'cancel';
+    }
+
+    const hash = await this.hashPin(pin, pins.salt);
+    if (hash === pins.pinHash) {
+      return 'cancel';
+    }
+    if (pins.duressPinHash && hash === pins.duressPinHash) {
+      return 'duress';
+    }
+    return 'invalid';
+  }
+
+  private static async loadPins(): Promise<StoredCancellationPins | null> {
+    try {
+      const pinsJson = await SecureStore.getItemAsync(this.PINS_KEY);
+      return pinsJson ? JSON.parse(pinsJson) as StoredCancellationPins : null;
+    } catch (error) {
+      console.error('Failed to load cancellation PIN:', error);
+      return null;
+    }
+  }
+
+  private static hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+}
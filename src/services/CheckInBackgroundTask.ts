@@ -0,0 +1,100 @@
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import { CheckInSchedule } from '../types/accessibility';
+import { CheckInService, escalateMissedCheckIn } from './CheckInService';
+import { EmergencyStateMachine } from './EmergencyStateMachine';
+import { createEmergencyFlowEffects } from './EmergencyFlowEffects';
+import { EmergencySessionRepository } from './EmergencySessionRepository';
+import { EmergencyContactService } from './EmergencyContactService';
+import { EmergencyNumberService } from './EmergencyNumberService';
+import { EscalationService } from './EscalationService';
+import { LocationService } from './LocationService';
+import { SecureStorage } from './SecureStorage';
+import { ScreenReaderAnnouncer } from '../utils/accessibility';
+
+const CHECK_IN_TASK = 'check-in-deadlines';
+
+// The shortest interval either platform allows; the OS decides the exact time
+const CHECK_INTERVAL_MINUTES = 15;
+
+type MissedCheckInHandler = (missed: CheckInSchedule[]) => void | Promise<void>;
+
+let foregroundHandler: MissedCheckInHandler | null = null;
+
+/**
+ * Alert contacts for a check-in missed while nothing of the app is running
+ * but this task. The session is saved like any other, so opening the app
+ * later picks the emergency up where the task left it.
+ */
+const escalateWithoutApp = async (): Promise<void> => {
+  const medicalProfile = await SecureStorage.getMedicalProfile();
+  const machine = new EmergencyStateMachine({
+    autoResetDelayMs: null,
+    effects: createEmergencyFlowEffects({
+      getMedicalProfile: () => medicalProfile,
+      sessionRepository: EmergencySessionRepository,
+      locationService: LocationService,
+      contactService: EmergencyContactService,
+      emergencyNumberService: EmergencyNumberService,
+      announcer: ScreenReaderAnnouncer,
+      getEscalationPolicy: () => EscalationService.getPolicy()
+    })
+  });
+  machine.restore(await EmergencySessionRepository.getLatestSession());
+
+  await escalateMissedCheckIn(machine);
+
+  // Nothing runs the later escalation steps until the app is opened
+  const { session } = machine.getState();
+  if (session) {
+    await EscalationService.scheduleReminder(session);
+  }
+  machine.dispose();
+};
+
+TaskManager.defineTask(CHECK_IN_TASK, async () => {
+  try {
+    const missed = await CheckInService.recordMissed();
+    if (missed.length > 0) {
+      await (foregroundHandler ? foregroundHandler(missed) : escalateWithoutApp());
+    }
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('Failed to check check-in deadlines in the background:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Checks check-in deadlines while the app is in the background or closed, so
+ * a missed check-in alerts contacts without waiting for the app to be opened.
+ * The OS runs the task at most every 15 minutes, and iOS often much less
+ * often, so contacts can hear later than the grace period alone suggests.
+ */
+export class CheckInBackgroundTask {
+  /**
+   * While the app is running, missed check-ins go through its own emergency
+   * flow rather than a separate one.
+   */
+  static setForegroundHandler(handler: MissedCheckInHandler | null): void {
+    foregroundHandler = handler;
+  }
+
+  /**
+   * Run the task only while there is an active check-in to watch.
+   */
+  static async sync(schedules: CheckInSchedule[]): Promise<void> {
+    try {
+      const isRegistered = await TaskManager.isTaskRegisteredAsync(CHECK_IN_TASK);
+      const isNeeded = schedules.some(schedule => schedule.isActive);
+
+      if (isNeeded && !isRegistered) {
+        await BackgroundTask.registerTaskAsync(CHECK_IN_TASK, { minimumInterval: CHECK_INTERVAL_MINUTES });
+      } else if (!isNeeded && isRegistered) {
+        await BackgroundTask.unregisterTaskAsync(CHECK_IN_TASK);
+      }
+    } catch (error) {
+      console.error('Failed to update background check-in task:', error);
+    }
+  }
+}
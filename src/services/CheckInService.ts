@@ -0,0 +1,405 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CheckInSchedule, CheckInScheduleType } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { EmergencyStateMachine } from './EmergencyStateMachine';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CheckInScheduleInput {
+  type: CheckInScheduleType;
+  dailyTime?: string;
+  intervalHours?: number;
+  graceMinutes: number;
+}
+
+/**
+ * First daily deadline strictly after the given time.
+ */
+const nextDailyDeadline = (dailyTime: string, after: Date): Date => {
+  const [hours, minutes] = dailyTime.split(':').map(Number);
+  const deadline = new Date(after);
+  deadline.setHours(hours, minutes, 0, 0);
+  if (deadline <= after) {
+    deadline.setDate(deadline.getDate() + 1);
+  }
+  return deadline;
+};
+
+export class CheckInService {
+  private static readonly STORAGE_KEY = 'check_in_schedules';
+  private static readonly NOTIFICATION_PREFIX = 'check_in_';
+  private static readonly listeners = new Set<(schedules: CheckInSchedule[]) => void>();
+
+  static createSchedule(input: CheckInScheduleInput, now: Date = new Date()): CheckInSchedule {
+    const schedule: CheckInSchedule = {
+      id: `check_in_${Date.now()}`,
+      ...input,
+      isActive: true,
+      nextDueAt: now.toISOString(),
+      missedCount: 0,
+    };
+
+    return { ...schedule, nextDueAt: this.nextDueAfter(schedule, now) };
+  }
+
+  /**
+   * Next deadline counting from the given time, ignoring check-ins.
+   */
+  static nextDueAfter(schedule: CheckInSchedule, from: Date): string {
+    if (schedule.type === 'interval') {
+      return new Date(from.getTime() + (schedule.intervalHours || 4) * HOUR_MS).toISOString();
+    }
+    return nextDailyDeadline(schedule.dailyTime || '10:00', from).toISOString();
+  }
+
+  /**
+   * Next deadline after a check-in. A daily check-in counts for the pending
+   * deadline when it falls within the 24 hours before it; a second check-in
+   * in the same window changes nothing.
+   */
+  static nextDueAfterCheckIn(schedule: CheckInSchedule, checkedInAt: Date): string {
+    if (schedule.type === 'interval') {
+      return this.nextDueAfter(schedule, checkedInAt);
+    }
+
+    const pending = new Date(schedule.nextDueAt);
+    const windowStart = new Date(pending.getTime() - DAY_MS);
+    const alreadyCovered = schedule.lastCheckInAt && new Date(schedule.lastCheckInAt) > windowStart;
+
+    if (checkedInAt <= windowStart || alreadyCovered) {
+      return schedule.nextDueAt;
+    }
+
+    const after = checkedInAt > pending ? checkedInAt : pending;
+    return this.nextDueAfter(schedule, after);
+  }
+
+  static getGraceDeadline(schedule: CheckInSchedule): Date {
+    return new Date(new Date(schedule.nextDueAt).getTime() + schedule.graceMinutes * 60 * 1000);
+  }
+
+  static isMissed(schedule: CheckInSchedule, now: Date = new Date()): boolean {
+    return schedule.isActive && this.getGraceDeadline(schedule) <= now;
+  }
+
+  static getNextDue(schedules: CheckInSchedule[]): string | null {
+    const due = schedules
+      .filter(schedule => schedule.isActive)
+      .map(schedule => schedule.nextDueAt)
+      .sort();
+    return due[0] || null;
+  }
+
+  static describeSchedule(schedule: CheckInSchedule): string {
+    return schedule.type === 'daily'
+      ? `Every day by ${schedule.dailyTime}`
+      : `Every ${schedule.intervalHours} hours`;
+  }
+
+  static async getSchedules(): Promise<CheckInSchedule[]> {
+    try {
+      const schedulesJson = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return schedulesJson ? JSON.parse(schedulesJson) as CheckInSchedule[] : [];
+    } catch (error) {
+      console.error('Failed to load check-in schedules:', error);
+      return [];
+    }
+  }
+
+  static async saveSchedule(schedule: CheckInSchedule): Promise<boolean> {
+    try {
+      const schedules = await this.getSchedules();
+      const existingIndex = schedules.findIndex(s => s.id === schedule.id);
+
+      if (existingIndex >= 0) {
+        schedules[existingIndex] = schedule;
+      } else {
+        schedules.push(schedule);
+      }
+
+      await this.writeSchedules(schedules);
+      await this.scheduleNotifications(schedule);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'check_in_schedule_saved',
+        details: `${this.describeSchedule(schedule)} with ${schedule.graceMinutes} min grace (${schedule.isActive ? 'active' : 'paused'})`
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to save check-in schedule:', error);
+      return false;
+    }
+  }
+
+  static async deleteSchedule(scheduleId: string): Promise<boolean> {
+    try {
+      const schedules = await this.getSchedules();
+      const schedule = schedules.find(s => s.id === scheduleId);
+
+      await this.writeSchedules(schedules.filter(s => s.id !== scheduleId));
+      await this.cancelNotifications(scheduleId);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'check_in_schedule_deleted',
+        details: schedule ? `Deleted check-in: ${this.describeSchedule(schedule)}` : `Deleted check-in ${scheduleId}`
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to delete check-in schedule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * "I'm OK" - acknowledges every active schedule.
+   */
+  static async checkIn(now: Date = new Date()): Promise<CheckInSchedule[]> {
+    const schedules = await this.getSchedules();
+    const updated = schedules.map(schedule => schedule.isActive
+      ? {
+          ...schedule,
+          nextDueAt: this.nextDueAfterCheckIn(schedule, now),
+          lastCheckInAt: now.toISOString(),
+        }
+      : schedule
+    );
+
+    await this.writeSchedules(updated);
+    for (const schedule of updated.filter(s => s.isActive)) {
+      await this.scheduleNotifications(schedule);
+    }
+
+    await SecureStorage.addAuditEntry({
+      timestamp: now.toISOString(),
+      action: 'check_in_acknowledged',
+      details: `Check-in acknowledged. Next due: ${this.getNextDue(updated) || 'none'}`
+    });
+
+    return updated;
+  }
+
+  /**
+   * Mark every schedule past its grace window as missed and move it on to
+   * its next deadline. Returns the schedules that were missed.
+   */
+  static async recordMissed(now: Date = new Date()): Promise<CheckInSchedule[]> {
+    const schedules = await this.getSchedules();
+    const missed: CheckInSchedule[] = [];
+
+    const updated = schedules.map(schedule => {
+      if (!this.isMissed(schedule, now)) {
+        return schedule;
+      }
+
+      missed.push(schedule);
+      return {
+        ...schedule,
+        nextDueAt: this.nextDueAfter(schedule, now),
+        lastMissedAt: now.toISOString(),
+        missedCount: schedule.missedCount + 1,
+      };
+    });
+
+    if (missed.length === 0) {
+      return missed;
+    }
+
+    await this.writeSchedules(updated);
+    for (const schedule of updated.filter(s => s.isActive)) {
+      await this.scheduleNotifications(schedule);
+    }
+
+    for (const schedule of missed) {
+      await SecureStorage.addAuditEntry({
+        timestamp: now.toISOString(),
+        action: 'check_in_missed',
+        details: `${this.describeSchedule(schedule)}: check-in due ${new Date(schedule.nextDueAt).toLocaleString()} was not acknowledged`
+      });
+    }
+
+    return missed;
+  }
+
+  static subscribe(listener: (schedules: CheckInSchedule[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static async writeSchedules(schedules: CheckInSchedule[]): Promise<void> {
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(schedules));
+    this.listeners.forEach(listener => listener(schedules));
+  }
+
+  /**
+   * One reminder when the check-in is due and a warning when the grace
+   * window ends.
+   */
+  private static async scheduleNotifications(schedule: CheckInSchedule): Promise<void> {
+    await this.cancelNotifications(schedule.id);
+    if (!schedule.isActive) return;
+
+    const reminders = [
+      {
+        suffix: 'due',
+        at: new Date(schedule.nextDueAt),
+        title: 'Time to check in',
+        body: 'Open the app and tap "I\'m OK" to let your contacts know you are safe.',
+      },
+      {
+        suffix: 'missed',
+        at: this.getGraceDeadline(schedule),
+        title: 'Check-in missed',
+        body: 'You have not checked in, so your emergency contacts are being alerted. Open the app to follow or cancel the emergency.',
+      },
+    ];
+
+    try {
+      for (const reminder of reminders) {
+        const seconds = Math.floor((reminder.at.getTime() - Date.now()) / 1000);
+        if (seconds <= 0) continue;
+
+        await Notifications.scheduleNotificationAsync({
+          identifier: `${this.NOTIFICATION_PREFIX}${schedule.id}_${reminder.suffix}`,
+          content: {
+            title: reminder.title,
+            body: reminder.body,
+            data: { scheduleId: schedule.id, type: 'check_in' },
+            sound: 'default',
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+            seconds
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to schedule check-in notifications:', error);
+    }
+  }
+
+  private static async cancelNotifications(scheduleId: string): Promise<void> {
+    for (const suffix of ['due', 'missed']) {
+      try {
+        await Notifications.cancelScheduledNotificationAsync(`${this.NOTIFICATION_PREFIX}${scheduleId}_${suffix}`);
+      } catch (error) {
+        // Ignore if nothing was scheduled
+      }
+    }
+  }
+}
+
+/**
+ * Raise the alarm for missed check-ins. The grace period already gave the
+ * person time to respond, so contacts are alerted straight away instead of
+ * after another countdown. An emergency already under way covers it.
+ */
+export const escalateMissedCheckIn = async (machine: EmergencyStateMachine): Promise<void> => {
+  if (EmergencyStateMachine.isActiveStatus(machine.getState().status)) {
+    await machine.updateSession(session => ({
+      ...session,
+      auditLog: [
+        ...session.auditLog,
+        {
+          timestamp: new Date().toISOString(),
+          action: 'check_in_missed',
+          details: 'Scheduled check-in missed during active emergency'
+        }
+      ]
+    }));
+    return;
+  }
+
+  const result = await machine.transition('confirmation', { trigger: 'missed_check_in' });
+  const activated = result.accepted ? await machine.transition('in_progress') : result;
+  if (!activated.accepted) {
+    console.warn(`Missed check-in not escalated: ${activated.reason}`);
+  }
+};
+
+export interface CheckInControllerOptions {
+  onCheckInMissed: (missed: CheckInSchedule[]) => void;
+  onSchedulesChanged?: (schedules: CheckInSchedule[]) => void;
+}
+
+/**
+ * Escalates missed check-ins while the app is open. Deadlines are re-read
+ * from storage whenever the app becomes active; while it is in the
+ * background or closed, CheckInBackgroundTask checks them instead.
+ */
+export class CheckInController {
+  private unsubscribe: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isEvaluating = false;
+
+  constructor(private readonly options: CheckInControllerOptions) {}
+
+  start(): void {
+    this.unsubscribe = CheckInService.subscribe(schedules => {
+      this.options.onSchedulesChanged?.(schedules);
+      this.scheduleTimer(schedules);
+    });
+    this.appStateSubscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        this.evaluate();
+      }
+    });
+    this.evaluate();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimer();
+  }
+
+  private async evaluate(): Promise<void> {
+    if (this.isEvaluating) return;
+    this.isEvaluating = true;
+
+    try {
+      const missed = await CheckInService.recordMissed();
+      if (missed.length > 0) {
+        this.options.onCheckInMissed(missed);
+      }
+
+      const schedules = await CheckInService.getSchedules();
+      this.options.onSchedulesChanged?.(schedules);
+      this.scheduleTimer(schedules);
+    } catch (error) {
+      console.error('Failed to evaluate check-ins:', error);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private scheduleTimer(schedules: CheckInSchedule[]): void {
+    this.clearTimer();
+
+    const deadlines = schedules
+      .filter(schedule => schedule.isActive)
+      .map(schedule => CheckInService.getGraceDeadline(schedule).getTime());
+    if (deadlines.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...deadlines) - Date.now());
+    this.timer = setTimeout(() => this.evaluate(), delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
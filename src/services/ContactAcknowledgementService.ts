@@ -0,0 +1,135 @@
+import {
+  ContactAcknowledgementUpdate,
+  ContactAlertProgress,
+  ContactAlertStatus,
+} from '../types/accessibility';
+import { SmsGatewayService } from './SmsGatewayService';
+import { EmergencyStateMachine, EmergencyMachineState } from './EmergencyStateMachine';
+import { applyContactAcknowledgement, parseGatewayReply } from './ContactAcknowledgements';
+
+const REPLY_POLL_INTERVAL_MS = 15000;
+
+export interface ContactAcknowledgementControllerOptions {
+  machine: EmergencyStateMachine;
+  // Called when a contact's status moves on, e.g. to announce it
+  onProgress?: (contact: ContactAlertStatus) => void;
+}
+
+/**
+ * Keeps each alerted contact's status up to date for the active session.
+ * Replies and delivery receipts arrive from the SMS gateway; the person can
+ * also mark a contact themselves when the reply came some other way.
+ */
+export class ContactAcknowledgementController {
+  private unsubscribe: (() => void) | null = null;
+  private removeDeliveryListener: (() => void) | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPolling = false;
+  private readonly handledReplies = new Set<string>();
+
+  constructor(private readonly options: ContactAcknowledgementControllerOptions) {}
+
+  start(): void {
+    this.unsubscribe = this.options.machine.subscribe(state => this.handleStateChange(state));
+    this.removeDeliveryListener = SmsGatewayService.addDeliveryListener((sid, status) => {
+      if (status === 'delivered') {
+        this.apply({ status: 'delivered', reference: sid, source: 'gateway', receivedAt: new Date().toISOString() });
+      }
+    });
+    this.handleStateChange(this.options.machine.getState());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.removeDeliveryListener?.();
+    this.removeDeliveryListener = null;
+    this.clearPollTimer();
+  }
+
+  /**
+   * Mark a contact as responding, e.g. after they replied to the messaging
+   * app or phoned.
+   */
+  markContact(contactName: string, status: ContactAlertProgress): Promise<boolean> {
+    return this.apply({ status, contactName, source: 'manual', receivedAt: new Date().toISOString() });
+  }
+
+  private async apply(update: ContactAcknowledgementUpdate): Promise<boolean> {
+    const { session } = this.options.machine.getState();
+    if (!session || !applyContactAcknowledgement(session, update)) {
+      return false;
+    }
+
+    let contact: ContactAlertStatus | null = null;
+    await this.options.machine.updateSession(current => {
+      const result = applyContactAcknowledgement(current, update);
+      contact = result?.contact || null;
+      return result ? result.session : current;
+    });
+
+    if (contact) {
+      this.options.onProgress?.(contact);
+    }
+    return Boolean(contact);
+  }
+
+  private handleStateChange(state: EmergencyMachineState): void {
+    if (!this.shouldPoll(state)) {
+      this.clearPollTimer();
+      return;
+    }
+    if (!this.pollTimer && !this.isPolling) {
+      this.schedulePoll(0);
+    }
+  }
+
+  // Only gateway texts can be replied to where the app can read the reply
+  private shouldPoll({ status, session }: EmergencyMachineState): boolean {
+    return (status === 'in_progress' || status === 'follow_up') && Boolean(
+      session?.contactStatuses?.some(contact => contact.channel === 'sms_gateway' && contact.status !== 'en_route')
+    );
+  }
+
+  private schedulePoll(delayMs: number): void {
+    this.clearPollTimer();
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    this.pollTimer = null;
+    const { session } = this.options.machine.getState();
+    if (!session) return;
+
+    this.isPolling = true;
+    try {
+      const replies = await SmsGatewayService.fetchReplies(session.startTime);
+      for (const reply of replies) {
+        if (this.handledReplies.has(reply.sid)) continue;
+        this.handledReplies.add(reply.sid);
+
+        const update = parseGatewayReply(reply, reply.dateSent);
+        if (update) {
+          await this.apply(update);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to check for contact replies:', error);
+    } finally {
+      this.isPolling = false;
+    }
+
+    // The session may have closed, every contact replied or the controller
+    // stopped while polling
+    if (this.unsubscribe && this.shouldPoll(this.options.machine.getState())) {
+      this.schedulePoll(REPLY_POLL_INTERVAL_MS);
+    }
+  }
+
+  private clearPollTimer(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  AuditEntry,
+  ContactAcknowledgementSource,
+  ContactAcknowledgementUpdate,
+  ContactAlertProgress,
+  ContactAlertStatus,
+  ContactDispatchResult,
+  EmergencyContact,
+  EmergencySession,
+} from '../types/accessibility';
+import { acknowledgeEscalation, isEscalationPending } from './EscalationLadder';
+
+/**
+ * Pure rules for reply codes and per-contact alert progress. Nothing here
+ * touches storage or native modules.
+ */
+
+export const CONTACT_PROGRESS_LABELS: Record<ContactAlertProgress, string> = {
+  sent: 'Alert sent',
+  delivered: 'Alert delivered',
+  acknowledged: 'Seen the alert',
+  en_route: 'On the way',
+};
+
+const PROGRESS_ORDER: ContactAlertProgress[] = ['sent', 'delivered', 'acknowledged', 'en_route'];
+
+const SOURCE_LABELS: Record<ContactAcknowledgementSource, string> = {
+  reply: 'reply',
+  gateway: 'gateway receipt',
+  manual: 'marked on this phone',
+};
+
+// Whole words or phrases, in any language a message template is written in.
+// A reply is only read as a yes when it says one of these or carries the
+// reply code; anything else keeps the escalation going.
+const EN_ROUTE_WORDS = [
+  'omw', 'on my way', 'on the way', 'coming', 'en route', 'leaving now', 'heading over',
+  'arrivo', 'sto arrivando', 'in arrivo', 'vengo', 'parto ora',
+];
+
+const ACKNOWLEDGED_WORDS = [
+  'ok', 'okay', 'yes', 'yep', 'yeah', 'seen', 'got it', 'received', 'on it', 'will call', 'calling',
+  'si', 'va bene', 'ricevuto', 'visto', 'letto',
+];
+
+// "Can't come", "non vengo", "stop" and the like mean the contact is not
+// responding, even if the reply code or a yes word is in there too
+const NEGATIVE_WORDS = [
+  'no', 'not', 'nope', 'cant', 'can t', 'cannot', 'wont', 'won t', 'dont', 'don t', 'unable', 'stop',
+  'busy', 'wrong number',
+  'non', 'impossibile', 'occupato', 'occupata', 'numero sbagliato',
+];
+
+const REPLY_CODE_LENGTH = 4;
+
+export const isResponding = (status: ContactAlertProgress): boolean =>
+  status === 'acknowledged' || status === 'en_route';
+
+const progressRank = (status: ContactAlertProgress): number => PROGRESS_ORDER.indexOf(status);
+
+const digitsOf = (phoneNumber: string): string => phoneNumber.replace(/\D/g, '');
+
+/**
+ * A short code not already used in this session. Codes only need to tell
+ * one emergency's contacts apart, so four digits is plenty.
+ */
+export const generateReplyCode = (
+  usedCodes: string[],
+  random: () => number = Math.random
+): string => {
+  for (;;) {
+    const code = String(Math.floor(random() * 10 ** REPLY_CODE_LENGTH)).padStart(REPLY_CODE_LENGTH, '0');
+    if (!usedCodes.includes(code)) return code;
+  }
+};
+
+const containsAny = (words: string, phrases: string[]): boolean =>
+  phrases.some(phrase => words.includes(` ${phrase} `));
+
+/**
+ * Read a contact's text reply. Returns null unless it clearly says they have
+ * seen the alert or are on the way, or gives the reply code; refusals and
+ * replies that cannot be read, such as "who is this?", count as no answer.
+ */
+export const parseAcknowledgementReply = (
+  text: string
+): { status: ContactAlertProgress; replyCode?: string } | null => {
+  const normalised = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!normalised) return null;
+
+  const replyCode = normalised.match(new RegExp(`\\b\\d{${REPLY_CODE_LENGTH}}\\b`))?.[0];
+  const words = ` ${normalised.replace(/\d+/g, ' ').replace(/\s+/g, ' ').trim()} `;
+  if (containsAny(words, NEGATIVE_WORDS)) return null;
+
+  if (containsAny(words, EN_ROUTE_WORDS)) return { status: 'en_route', replyCode };
+  if (replyCode || containsAny(words, ACKNOWLEDGED_WORDS)) return { status: 'acknowledged', replyCode };
+  return null;
+};
+
+/**
+ * Turn a text sent to the gateway number into an update. Returns null when
+ * it does not read as a yes.
+ */
+export const parseGatewayReply = (
+  reply: { from: string; body: string },
+  receivedAt: string = new Date().toISOString()
+): ContactAcknowledgementUpdate | null => {
+  const parsed = parseAcknowledgementReply(reply.body);
+  return parsed ? { ...parsed, phoneNumber: reply.from, source: 'reply', receivedAt } : null;
+};
+
+/**
+ * Start tracking every contact the emergency alert reached. Contacts who
+ * already have a status keep it. Contacts sent a shared message have no
+ * reply code of their own, so their replies are matched on their number.
+ */
+export const recordContactAlerts = (
+  statuses: ContactAlertStatus[] | undefined,
+  results: ContactDispatchResult[],
+  contacts: EmergencyContact[]
+): ContactAlertStatus[] => {
+  const current = statuses || [];
+  const added = results
+    .filter(result => result.delivered)
+    .filter(result => !current.some(status => status.contactName === result.contactName))
+    .map(result => {
+      const attempt = result.attempts[result.attempts.length - 1];
+      return {
+        contactName: result.contactName,
+        phoneNumber: contacts.find(contact => contact.name === result.contactName)?.phoneNumber || '',
+        replyCode: result.replyCode,
+        status: 'sent' as ContactAlertProgress,
+        channel: attempt?.channel,
+        reference: attempt?.reference,
+        sentAt: attempt?.timestamp || new Date().toISOString(),
+        updatedAt: attempt?.timestamp || new Date().toISOString(),
+      };
+    });
+
+  return [...current, ...added];
+};
+
+const findStatus = (
+  statuses: ContactAlertStatus[],
+  update: ContactAcknowledgementUpdate
+): ContactAlertStatus | undefined => {
+  if (update.contactName) {
+    return statuses.find(status => status.contactName === update.contactName);
+  }
+  if (update.reference) {
+    return statuses.find(status => status.reference === update.reference);
+  }
+  const byCode = update.replyCode
+    ? statuses.find(status => status.replyCode === update.replyCode)
+    : undefined;
+  if (byCode) return byCode;
+
+  // A reply without a code, e.g. just "coming", is matched on the number
+  const from = update.phoneNumber ? digitsOf(update.phoneNumber) : '';
+  return from
+    ? statuses.find(status => {
+        const digits = digitsOf(status.phoneNumber);
+        return digits.length >= 6 && (from.endsWith(digits) || digits.endsWith(from));
+      })
+    : undefined;
+};
+
+export const describeContactProgress = (status: ContactAlertStatus): string =>
+  `${CONTACT_PROGRESS_LABELS[status.status]} at ${new Date(status.updatedAt).toLocaleTimeString()}`;
+
+/**
+ * Apply an update to the session. Statuses only move forward, and the first
+ * contact to respond stops the escalation. Returns null when nothing changed.
+ */
+export const applyContactAcknowledgement = (
+  session: EmergencySession,
+  update: ContactAcknowledgementUpdate
+): { session: EmergencySession; contact: ContactAlertStatus } | null => {
+  const statuses = session.contactStatuses || [];
+  const existing = findStatus(statuses, update);
+  if (!existing || progressRank(update.status) <= progressRank(existing.status)) {
+    return null;
+  }
+
+  const contact: ContactAlertStatus = {
+    ...existing,
+    status: update.status,
+    updatedAt: update.receivedAt,
+    source: update.source,
+  };
+  const auditEntries: AuditEntry[] = [{
+    timestamp: update.receivedAt,
+    action: update.status === 'delivered' ? 'contact_alert_delivered' : `contact_${update.status}`,
+    details: `${contact.contactName}: ${CONTACT_PROGRESS_LABELS[update.status].toLowerCase()} (${SOURCE_LABELS[update.source]})`
+  }];
+
+  let escalation = session.escalation;
+  if (isResponding(update.status) && escalation && isEscalationPending(escalation)) {
+    escalation = acknowledgeEscalation(escalation, contact.contactName, new Date(update.receivedAt));
+    auditEntries.push({
+      timestamp: update.receivedAt,
+      action: 'escalation_acknowledged',
+      details: `${contact.contactName} is responding - escalation stopped`
+    });
+  }
+
+  return {
+    contact,
+    session: {
+      ...session,
+      escalation,
+      contactStatuses: statuses.map(status => status === existing ? contact : status),
+      auditLog: [...session.auditLog, ...auditEntries],
+    },
+  };
+};
+
+/**
+ * One line for the screen: who is on the way, who has seen it and who has
+ * not answered yet.
+ */
+export const summariseContactProgress = (statuses: ContactAlertStatus[]): string => {
+  const count = (status: ContactAlertProgress) => statuses.filter(entry => entry.status === status).length;
+  const responding = count('acknowledged') + count('en_route');
+  const waiting = statuses.length - responding;
+
+  const parts = [
+    count('en_route') > 0 && `${count('en_route')} on the way`,
+    count('acknowledged') > 0 && `${count('acknowledged')} seen the alert`,
+    waiting > 0 && `${waiting} waiting for a reply`,
+  ].filter(Boolean);
+
+  return `${statuses.length} ${statuses.length === 1 ? 'contact' : 'contacts'} alerted: ${parts.join(', ')}`;
+};
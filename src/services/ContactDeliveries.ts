@@ -0,0 +1,105 @@
+import {
+  ContactDelivery,
+  ContactDeliveryState,
+  ContactDispatchResult,
+  EmergencyContact,
+} from '../types/accessibility';
+import { NOTIFICATION_CHANNEL_LABELS } from './NotificationRouting';
+
+/**
+ * Pure rules for where each contact's alert got to on this phone, before any
+ * reply. Nothing here touches storage or native modules.
+ */
+
+export const CONTACT_DELIVERY_LABELS: Record<ContactDeliveryState, string> = {
+  queued: 'Waiting to be alerted',
+  handed_off: 'Alert sent',
+  cancelled_by_user: 'Not sent - message closed',
+  failed: 'Could not be alerted',
+};
+
+/**
+ * Add every contact not already listed as queued, so the screen shows who is
+ * still to be alerted as well as who has been.
+ */
+export const queueContactDeliveries = (
+  deliveries: ContactDelivery[] | undefined,
+  contacts: EmergencyContact[],
+  timestamp: string = new Date().toISOString()
+): ContactDelivery[] => {
+  const current = deliveries || [];
+  const queued = contacts
+    .filter(contact => !current.some(delivery => delivery.contactName === contact.name))
+    .map(contact => ({ contactName: contact.name, state: 'queued' as ContactDeliveryState, updatedAt: timestamp }));
+  return [...current, ...queued];
+};
+
+const deliveryFromResult = (result: ContactDispatchResult): ContactDelivery => {
+  const attempt = result.attempts[result.attempts.length - 1];
+  const state: ContactDeliveryState = result.delivered
+    ? 'handed_off'
+    : attempt?.outcome === 'cancelled' ? 'cancelled_by_user' : 'failed';
+
+  return {
+    contactName: result.contactName,
+    state,
+    channel: attempt?.channel,
+    reason: attempt?.detail || (attempt ? undefined : 'No way to reach them is set up'),
+    batchId: attempt?.batchId,
+    updatedAt: attempt?.timestamp || new Date().toISOString(),
+  };
+};
+
+/**
+ * Later entries replace earlier ones for the same contact; new contacts are
+ * added at the end.
+ */
+export const mergeContactDeliveries = (
+  deliveries: ContactDelivery[] | undefined,
+  updates: ContactDelivery[]
+): ContactDelivery[] => {
+  const merged = [...(deliveries || [])];
+  updates.forEach(update => {
+    const index = merged.findIndex(delivery => delivery.contactName === update.contactName);
+    if (index >= 0) {
+      merged[index] = update;
+    } else {
+      merged.push(update);
+    }
+  });
+  return merged;
+};
+
+export const recordContactDeliveries = (
+  deliveries: ContactDelivery[] | undefined,
+  results: ContactDispatchResult[]
+): ContactDelivery[] => mergeContactDeliveries(deliveries, results.map(deliveryFromResult));
+
+export const describeContactDelivery = (
+  delivery: ContactDelivery,
+  deliveries: ContactDelivery[] = []
+): string => {
+  let description = CONTACT_DELIVERY_LABELS[delivery.state];
+  if (delivery.channel && delivery.state !== 'queued') {
+    description += ` by ${NOTIFICATION_CHANNEL_LABELS[delivery.channel].toLowerCase()}`;
+  }
+  const others = delivery.batchId
+    ? deliveries.filter(other => other.batchId === delivery.batchId && other.contactName !== delivery.contactName).length
+    : 0;
+  if (others > 0) {
+    description += `, with ${others} ${others === 1 ? 'other' : 'others'}`;
+  }
+  return delivery.reason ? `${description} (${delivery.reason})` : description;
+};
+
+/**
+ * One line for the whole list, e.g. "2 of 3 contacts alerted, 1 not sent".
+ */
+export const summariseContactDeliveries = (deliveries: ContactDelivery[]): string => {
+  const count = (state: ContactDeliveryState) => deliveries.filter(delivery => delivery.state === state).length;
+  const parts = [`${count('handed_off')} of ${deliveries.length} ${deliveries.length === 1 ? 'contact' : 'contacts'} alerted`];
+  if (count('cancelled_by_user') > 0) parts.push(`${count('cancelled_by_user')} not sent`);
+  if (count('failed') > 0) parts.push(`${count('failed')} failed`);
+  if (count('queued') > 0) parts.push(`${count('queued')} waiting`);
+  return parts.join(', ');
+};
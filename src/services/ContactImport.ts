@@ -0,0 +1,144 @@
+import { CareCoordinator, EmergencyContact } from '../types/accessibility';
+import { FormValidation } from '../components/forms/FormValidation';
+
+/**
+ * Pure rules for picking people from the phone's address book. Nothing here
+ * touches storage or native modules.
+ */
+
+export interface DeviceContactNumber {
+  // "mobile", "home" and so on, as labelled in the address book
+  label: string;
+  number: string;
+}
+
+export interface DeviceContact {
+  id: string;
+  name: string;
+  phoneNumbers: DeviceContactNumber[];
+  email?: string;
+}
+
+export type SavedContactKind = 'emergency_contact' | 'care_coordinator';
+
+export interface SavedContact {
+  kind: SavedContactKind;
+  name: string;
+  phoneNumber: string;
+}
+
+export interface ImportedContact {
+  name: string;
+  phoneNumber: string;
+  email?: string;
+  // Why the number needs editing before it can be added
+  phoneError?: string;
+}
+
+export interface ImportOption {
+  number: DeviceContactNumber;
+  // Set when the number passes phone validation
+  phoneNumber?: string;
+  error?: string;
+  duplicate?: SavedContact;
+}
+
+const SAVED_CONTACT_PLACES: Record<SavedContactKind, string> = {
+  emergency_contact: 'one of your emergency contacts',
+  care_coordinator: 'in your care team',
+};
+
+// Enough to tell numbers apart whether or not they carry a country code
+const COMPARED_DIGITS = 9;
+
+// Long address books are narrowed by searching rather than scrolled
+export const MAX_LISTED_CONTACTS = 50;
+
+const digitsOf = (phoneNumber: string): string => phoneNumber.replace(/\D/g, '');
+
+export const savedContacts = (
+  emergencyContacts: EmergencyContact[],
+  coordinators: CareCoordinator[]
+): SavedContact[] => [
+  ...emergencyContacts.map(contact => ({
+    kind: 'emergency_contact' as const,
+    name: contact.name,
+    phoneNumber: contact.phoneNumber,
+  })),
+  ...coordinators.map(coordinator => ({
+    kind: 'care_coordinator' as const,
+    name: coordinator.name,
+    phoneNumber: coordinator.phoneNumber,
+  })),
+];
+
+/**
+ * "+61 412 345 678" and "0412 345 678" are the same phone, so numbers match
+ * on their last nine digits.
+ */
+export const isSamePhoneNumber = (first: string, second: string): boolean => {
+  const firstDigits = digitsOf(first);
+  const secondDigits = digitsOf(second);
+  if (firstDigits === secondDigits) return firstDigits.length > 0;
+  if (Math.min(firstDigits.length, secondDigits.length) < COMPARED_DIGITS) return false;
+  return firstDigits.slice(-COMPARED_DIGITS) === secondDigits.slice(-COMPARED_DIGITS);
+};
+
+const isSameName = (first: string, second: string): boolean =>
+  FormValidation.sanitizeInput(first).toLowerCase() === FormValidation.sanitizeInput(second).toLowerCase();
+
+export const findSavedContact = (
+  contact: { name: string; phoneNumber: string },
+  saved: SavedContact[]
+): SavedContact | undefined =>
+  saved.find(entry => isSamePhoneNumber(entry.phoneNumber, contact.phoneNumber))
+  || saved.find(entry => isSameName(entry.name, contact.name));
+
+export const describeSavedContact = (entry: SavedContact): string =>
+  `${entry.name} is already ${SAVED_CONTACT_PLACES[entry.kind]}`;
+
+/**
+ * Address books hold numbers in every format; keep the ones the phone
+ * fields would accept, formatted the same way.
+ */
+export const normaliseImportedNumber = (number: string): { phoneNumber?: string; error?: string } => {
+  const cleaned = number.trim().replace(/[^\d+]/g, '');
+  const validation = FormValidation.validateField(cleaned, FormValidation.commonRules.phone);
+  return validation.isValid
+    ? { phoneNumber: FormValidation.formatPhoneNumber(cleaned) }
+    : { error: validation.error };
+};
+
+export const importOptions = (contact: DeviceContact, saved: SavedContact[]): ImportOption[] =>
+  contact.phoneNumbers.map(number => {
+    const { phoneNumber, error } = normaliseImportedNumber(number.number);
+    return {
+      number,
+      phoneNumber,
+      error,
+      duplicate: findSavedContact({ name: contact.name, phoneNumber: phoneNumber || number.number }, saved),
+    };
+  });
+
+/**
+ * Match on any part of the name, or on the digits of a number once at least
+ * three have been typed.
+ */
+export const searchDeviceContacts = (contacts: DeviceContact[], query: string): DeviceContact[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const digits = digitsOf(query);
+  if (words.length === 0) return contacts;
+
+  return contacts.filter(contact => {
+    const name = contact.name.toLowerCase();
+    return words.every(word => name.includes(word))
+      || (digits.length >= 3 && contact.phoneNumbers.some(number => digitsOf(number.number).includes(digits)));
+  });
+};
+
+export const toImportedContact = (contact: DeviceContact, option: ImportOption): ImportedContact => ({
+  name: FormValidation.sanitizeInput(contact.name),
+  phoneNumber: option.phoneNumber || option.number.number,
+  email: contact.email,
+  phoneError: option.error,
+});
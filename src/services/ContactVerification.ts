@@ -0,0 +1,209 @@
+import {
+  ContactDispatchResult,
+  ContactVerification,
+  ContactVerificationStatus,
+  EmergencyContact,
+} from '../types/accessibility';
+import { parseAcknowledgementReply } from './ContactAcknowledgements';
+import { isSamePhoneNumber } from './ContactImport';
+
+/**
+ * Pure rules for checking that emergency contacts' numbers really reach them,
+ * using test messages they reply to. Nothing here touches storage or native
+ * modules.
+ */
+
+export const CONTACT_VERIFICATION_LABELS: Record<ContactVerificationStatus, string> = {
+  unverified: 'Not verified',
+  pending: 'Waiting for reply',
+  verified: 'Verified',
+};
+
+// People change numbers, so a confirmation only counts for so long
+export const REVERIFY_AFTER_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ContactReadiness {
+  contactCount: number;
+  verifiedCount: number;
+  pendingCount: number;
+  // Verified, but long enough ago that a new test is due
+  reverifyCount: number;
+  hasVerifiedPrimary: boolean;
+  isReady: boolean;
+  summary: string;
+}
+
+export interface VerificationReply {
+  from: string;
+  body: string;
+  receivedAt: string;
+}
+
+/**
+ * The contact's latest test, as long as it went to the number they have now.
+ */
+export const findVerification = (
+  contact: Pick<EmergencyContact, 'id' | 'phoneNumber'>,
+  verifications: ContactVerification[]
+): ContactVerification | undefined =>
+  verifications.find(verification =>
+    verification.contactId === contact.id && isSamePhoneNumber(verification.phoneNumber, contact.phoneNumber)
+  );
+
+export const contactVerificationStatus = (
+  contact: Pick<EmergencyContact, 'id' | 'phoneNumber'>,
+  verifications: ContactVerification[]
+): ContactVerificationStatus =>
+  findVerification(contact, verifications)?.status || 'unverified';
+
+export const reverificationDueAt = (verification: ContactVerification): Date | null =>
+  verification.status === 'verified' && verification.verifiedAt
+    ? new Date(new Date(verification.verifiedAt).getTime() + REVERIFY_AFTER_DAYS * DAY_MS)
+    : null;
+
+export const isReverificationDue = (verification: ContactVerification, now: Date = new Date()): boolean => {
+  const dueAt = reverificationDueAt(verification);
+  return dueAt !== null && dueAt.getTime() <= now.getTime();
+};
+
+/**
+ * When the first of these contacts will need testing again, or null if none
+ * of them has been verified.
+ */
+export const nextReverificationAt = (
+  contacts: EmergencyContact[],
+  verifications: ContactVerification[]
+): Date | null => {
+  const dueDates = contacts
+    .map(contact => findVerification(contact, verifications))
+    .map(verification => verification ? reverificationDueAt(verification) : null)
+    .filter((dueAt): dueAt is Date => dueAt !== null);
+  return dueDates.length > 0
+    ? new Date(Math.min(...dueDates.map(dueAt => dueAt.getTime())))
+    : null;
+};
+
+export const describeVerification = (
+  contact: Pick<EmergencyContact, 'id' | 'phoneNumber'>,
+  verifications: ContactVerification[],
+  now: Date = new Date()
+): string => {
+  const verification = findVerification(contact, verifications);
+  if (!verification) return CONTACT_VERIFICATION_LABELS.unverified;
+
+  if (verification.status === 'pending') {
+    return `Test sent ${new Date(verification.sentAt).toLocaleDateString()}, waiting for reply`;
+  }
+  const verifiedOn = new Date(verification.verifiedAt || verification.sentAt).toLocaleDateString();
+  return isReverificationDue(verification, now)
+    ? `Verified ${verifiedOn} - send a new test`
+    : `Verified ${verifiedOn}`;
+};
+
+/**
+ * Record a test message that was sent. Any earlier test for the contact is
+ * replaced, so they count as unverified until they answer the new one.
+ */
+export const startVerification = (
+  verifications: ContactVerification[],
+  contact: EmergencyContact,
+  result: ContactDispatchResult,
+  replyCode: string,
+  now: Date = new Date()
+): ContactVerification[] => {
+  const attempt = result.attempts[result.attempts.length - 1];
+  const verification: ContactVerification = {
+    contactId: contact.id,
+    phoneNumber: contact.phoneNumber,
+    status: 'pending',
+    replyCode,
+    channel: attempt?.channel,
+    sentAt: attempt?.timestamp || now.toISOString(),
+  };
+  return [...verifications.filter(existing => existing.contactId !== contact.id), verification];
+};
+
+/**
+ * Mark the contact's pending test as answered. Returns null if there is no
+ * test waiting for them.
+ */
+export const confirmVerification = (
+  verifications: ContactVerification[],
+  contact: Pick<EmergencyContact, 'id' | 'phoneNumber'>,
+  source: ContactVerification['source'],
+  verifiedAt: string = new Date().toISOString()
+): { verifications: ContactVerification[]; verification: ContactVerification } | null => {
+  const existing = findVerification(contact, verifications);
+  if (!existing || existing.status !== 'pending') return null;
+
+  const verification: ContactVerification = { ...existing, status: 'verified', verifiedAt, source };
+  return {
+    verification,
+    verifications: verifications.map(entry => entry === existing ? verification : entry),
+  };
+};
+
+/**
+ * The contact whose pending test a text answers. The reply code decides when
+ * there is one; otherwise a yes sent after the test from the same number
+ * shows the number works. Refusals and unreadable replies are ignored.
+ */
+export const matchVerificationReply = (
+  contacts: EmergencyContact[],
+  verifications: ContactVerification[],
+  reply: VerificationReply
+): EmergencyContact | undefined => {
+  const parsed = parseAcknowledgementReply(reply.body);
+  if (!parsed) return undefined;
+
+  const waiting = contacts.filter(contact => {
+    const verification = findVerification(contact, verifications);
+    return verification?.status === 'pending'
+      && new Date(reply.receivedAt).getTime() >= new Date(verification.sentAt).getTime()
+      && isSamePhoneNumber(contact.phoneNumber, reply.from);
+  });
+
+  return waiting.find(contact => findVerification(contact, verifications)?.replyCode === parsed.replyCode)
+    || waiting[0];
+};
+
+/**
+ * Contacts are only ready once a primary contact has answered a test; a
+ * number that merely looks right may still be mistyped.
+ */
+export const summariseReadiness = (
+  contacts: EmergencyContact[],
+  verifications: ContactVerification[],
+  now: Date = new Date()
+): ContactReadiness => {
+  const current = contacts.map(contact => ({ contact, verification: findVerification(contact, verifications) }));
+  const verified = current.filter(entry => entry.verification?.status === 'verified');
+  const pendingCount = current.filter(entry => entry.verification?.status === 'pending').length;
+  const reverifyCount = verified.filter(entry => isReverificationDue(entry.verification!, now)).length;
+  const hasVerifiedPrimary = verified.some(entry => entry.contact.isPrimary);
+
+  let summary: string;
+  if (contacts.length === 0) {
+    summary = 'Add an emergency contact';
+  } else if (!hasVerifiedPrimary) {
+    summary = pendingCount > 0
+      ? `Waiting for ${pendingCount} ${pendingCount === 1 ? 'contact' : 'contacts'} to reply to a test message`
+      : 'Send a test message to your primary contact';
+  } else if (reverifyCount > 0) {
+    summary = `${reverifyCount} ${reverifyCount === 1 ? 'contact needs' : 'contacts need'} a new test message`;
+  } else {
+    summary = `${verified.length} of ${contacts.length} contacts verified`;
+  }
+
+  return {
+    contactCount: contacts.length,
+    verifiedCount: verified.length,
+    pendingCount,
+    reverifyCount,
+    hasVerifiedPrimary,
+    isReady: hasVerifiedPrimary,
+    summary,
+  };
+};
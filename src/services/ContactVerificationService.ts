@@ -0,0 +1,175 @@
+import * as Notifications from 'expo-notifications';
+import {
+  ContactDispatchResult,
+  ContactVerification,
+  EmergencyContact,
+  MedicalProfile,
+} from '../types/accessibility';
+import { EncryptedAsyncStorage } from './EncryptedAsyncStorage';
+import { SecureStorage } from './SecureStorage';
+import { SmsGatewayService } from './SmsGatewayService';
+import { EmergencyContactService } from './EmergencyContactService';
+import { generateReplyCode } from './ContactAcknowledgements';
+import {
+  REVERIFY_AFTER_DAYS,
+  confirmVerification,
+  findVerification,
+  matchVerificationReply,
+  nextReverificationAt,
+  startVerification,
+} from './ContactVerification';
+
+/**
+ * Encrypted record of the test messages sent to emergency contacts and
+ * which of them have replied.
+ */
+export class ContactVerificationService {
+  private static readonly STORAGE_KEY = 'contact_verifications';
+  private static readonly REMINDER_ID = 'contact_reverification';
+
+  static async getVerifications(): Promise<ContactVerification[]> {
+    try {
+      const data = await EncryptedAsyncStorage.getItem(this.STORAGE_KEY);
+      return data ? JSON.parse(data) as ContactVerification[] : [];
+    } catch (error) {
+      console.error('Failed to load contact verifications:', error);
+      return [];
+    }
+  }
+
+  private static async saveVerifications(verifications: ContactVerification[]): Promise<void> {
+    try {
+      await EncryptedAsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(verifications));
+    } catch (error) {
+      throw new Error(`Failed to save contact verifications: ${error}`);
+    }
+  }
+
+  /**
+   * Send the contact a test message with a reply code. They stay pending
+   * until they reply or the person marks them verified.
+   */
+  static async sendTest(
+    contact: EmergencyContact,
+    medicalProfile: Pick<MedicalProfile, 'personalInfo'>
+  ): Promise<ContactDispatchResult> {
+    const verifications = await this.getVerifications();
+    const replyCode = generateReplyCode(
+      verifications.filter(verification => verification.status === 'pending').map(verification => verification.replyCode)
+    );
+
+    const result = await EmergencyContactService.sendVerificationTest(contact, medicalProfile, replyCode);
+    if (!result.delivered) {
+      const lastAttempt = result.attempts[result.attempts.length - 1];
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'contact_verification_failed',
+        details: `Test message to ${contact.name} not sent` + (lastAttempt?.detail ? `: ${lastAttempt.detail}` : '')
+      });
+      return result;
+    }
+
+    await this.saveVerifications(startVerification(verifications, contact, result, replyCode));
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'contact_verification_sent',
+      details: `Test message sent to ${contact.name} (${contact.phoneNumber})`
+    });
+    await this.scheduleReminder();
+    return result;
+  }
+
+  /**
+   * Mark a contact verified when they answered some way the app cannot
+   * read, e.g. a reply to a text sent from the messaging app. Returns false
+   * if no test was waiting for them.
+   */
+  static async markVerified(contact: EmergencyContact): Promise<boolean> {
+    const confirmed = confirmVerification(await this.getVerifications(), contact, 'manual');
+    if (!confirmed) return false;
+
+    await this.saveVerifications(confirmed.verifications);
+    await SecureStorage.addAuditEntry({
+      timestamp: confirmed.verification.verifiedAt!,
+      action: 'contact_verified',
+      details: `${contact.name} confirmed the test message (marked on this phone)`
+    });
+    await this.scheduleReminder();
+    return true;
+  }
+
+  /**
+   * Look for replies to pending tests on the SMS gateway. Returns the
+   * contacts who are now verified.
+   */
+  static async checkReplies(contacts: EmergencyContact[]): Promise<EmergencyContact[]> {
+    let verifications = await this.getVerifications();
+    const pending = contacts
+      .map(contact => findVerification(contact, verifications))
+      .filter((verification): verification is ContactVerification => verification?.status === 'pending');
+    if (pending.length === 0) return [];
+
+    const since = pending.map(verification => verification.sentAt).sort()[0];
+    const verified: EmergencyContact[] = [];
+
+    for (const reply of await SmsGatewayService.fetchReplies(since)) {
+      const contact = matchVerificationReply(contacts, verifications, {
+        from: reply.from,
+        body: reply.body,
+        receivedAt: reply.dateSent,
+      });
+      const confirmed = contact && confirmVerification(verifications, contact, 'reply', reply.dateSent);
+      if (!contact || !confirmed) continue;
+
+      verifications = confirmed.verifications;
+      verified.push(contact);
+      await SecureStorage.addAuditEntry({
+        timestamp: reply.dateSent,
+        action: 'contact_verified',
+        details: `${contact.name} replied to the test message`
+      });
+    }
+
+    if (verified.length > 0) {
+      await this.saveVerifications(verifications);
+      await this.scheduleReminder();
+    }
+    return verified;
+  }
+
+  /**
+   * Remind the person to test their contacts again once the oldest
+   * confirmation is REVERIFY_AFTER_DAYS old. Only the next reminder is
+   * scheduled; verifying again moves it on.
+   */
+  static async scheduleReminder(): Promise<void> {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(this.REMINDER_ID);
+    } catch (error) {
+      // Ignore if nothing was scheduled
+    }
+
+    try {
+      const profile = await SecureStorage.getMedicalProfile();
+      const dueAt = nextReverificationAt(profile?.emergencyContacts || [], await this.getVerifications());
+      const seconds = dueAt ? Math.floor((dueAt.getTime() - Date.now()) / 1000) : 0;
+      if (seconds <= 0) return;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: this.REMINDER_ID,
+        content: {
+          title: 'Check your emergency contacts',
+          body: `It has been ${REVERIFY_AFTER_DAYS} days since a contact confirmed a test message. Send a new one to make sure your alerts still reach them.`,
+          data: { type: 'contact_verification' },
+          sound: 'default',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds
+        },
+      });
+    } catch (error) {
+      console.error('Failed to schedule contact verification reminder:', error);
+    }
+  }
+}
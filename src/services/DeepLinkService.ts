@@ -0,0 +1,122 @@
+import { AppRoute } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+
+// Must match "scheme" in app.json
+export const DEEP_LINK_SCHEME = 'happyyellowkiwi';
+
+// None yet: a host only works once it serves apple-app-site-association and
+// assetlinks.json. Add it here and to the associated domains and intent
+// filters in app.json at the same time.
+export const UNIVERSAL_LINK_HOSTS: string[] = [];
+
+export type DeepLinkPath = 'emergency' | 'profile' | 'medications' | 'coordinators';
+
+// Where the link came from, as reported by the `source` query parameter
+export type DeepLinkSource = 'shortcut' | 'nfc' | 'widget' | 'external';
+
+export type DeepLinkLaunch = 'cold_start' | 'running';
+
+export interface DeepLink {
+  path: DeepLinkPath;
+  /** Route to open; emergency links start the confirmation flow instead */
+  route: AppRoute | null;
+  source: DeepLinkSource;
+  viaUniversalLink: boolean;
+}
+
+const PATH_ROUTES: Record<DeepLinkPath, AppRoute | null> = {
+  emergency: null,
+  profile: 'medical-profile',
+  // Upcoming medications are listed on the home screen
+  medications: 'home',
+  coordinators: 'care-coordinators',
+};
+
+const SOURCES: DeepLinkSource[] = ['shortcut', 'nfc', 'widget', 'external'];
+
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?/i;
+
+const readQueryParam = (query: string | undefined, name: string): string | undefined => {
+  if (!query) return undefined;
+
+  try {
+    for (const pair of query.split('&')) {
+      const [key, value = ''] = pair.split('=');
+      if (decodeURIComponent(key) === name) {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+      }
+    }
+  } catch {
+    // Malformed escapes are treated as a missing parameter
+  }
+  return undefined;
+};
+
+/**
+ * Parse `happyyellowkiwi://<path>` or `https://<host>/<path>`. Returns null for
+ * anything that is not one of our links so unknown URLs are never acted on.
+ */
+export const parseDeepLink = (url: string): DeepLink | null => {
+  const match = url.trim().match(URL_PATTERN);
+  if (!match) return null;
+
+  const [, scheme, host, pathname, query] = match;
+  let segments: string[];
+  let viaUniversalLink = false;
+
+  if (scheme.toLowerCase() === DEEP_LINK_SCHEME) {
+    // The first segment arrives as the host for custom schemes
+    segments = [host, ...pathname.split('/')];
+  } else if (scheme.toLowerCase() === 'https' && UNIVERSAL_LINK_HOSTS.includes(host.toLowerCase())) {
+    segments = pathname.split('/');
+    viaUniversalLink = true;
+  } else {
+    return null;
+  }
+
+  const path = segments.filter(Boolean)[0]?.toLowerCase();
+  if (!path || !Object.prototype.hasOwnProperty.call(PATH_ROUTES, path)) {
+    return null;
+  }
+
+  const requestedSource = readQueryParam(query, 'source')?.toLowerCase();
+  const source = SOURCES.find(candidate => candidate === requestedSource) || 'external';
+
+  return {
+    path: path as DeepLinkPath,
+    route: PATH_ROUTES[path as DeepLinkPath],
+    source,
+    viaUniversalLink,
+  };
+};
+
+export class DeepLinkService {
+  /**
+   * Record a deep link activation. Every link is audited, including ones that
+   * were rejected or could not be acted on.
+   */
+  static async recordActivation(
+    url: string,
+    link: DeepLink | null,
+    launch: DeepLinkLaunch,
+    outcome: string
+  ): Promise<void> {
+    const launchLabel = launch === 'cold_start' ? 'app launched by link' : 'app already running';
+
+    if (!link) {
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'deep_link_rejected',
+        // Only the scheme is kept; the rest of an unknown URL may hold personal data
+        details: `Unrecognised link (${url.split(':')[0]}) ignored - ${launchLabel}`
+      });
+      return;
+    }
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'deep_link_opened',
+      details: `${link.path} link from ${link.source} via ${link.viaUniversalLink ? 'universal link' : `${DEEP_LINK_SCHEME}://`} - ${launchLabel} - ${outcome}`
+    });
+  }
+}
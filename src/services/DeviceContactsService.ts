@@ -0,0 +1,49 @@
+import * as Contacts from 'expo-contacts';
+import { SecureStorage } from './SecureStorage';
+import { DeviceContact } from './ContactImport';
+
+export class DeviceContactsService {
+  static async requestPermissions(): Promise<boolean> {
+    try {
+      const { status, accessPrivileges } = await Contacts.requestPermissionsAsync();
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'contacts_permission_requested',
+        details: `Permission ${status}${accessPrivileges === 'limited' ? ' (selected contacts only)' : ''}`
+      });
+
+      return status === 'granted';
+    } catch (error) {
+      console.error('Failed to request contacts permissions:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Everyone in the address book with at least one phone number, sorted by
+   * first name. Only names, numbers and the first email are read.
+   */
+  static async getContacts(): Promise<DeviceContact[]> {
+    try {
+      const { data } = await Contacts.getContactsAsync({
+        fields: [Contacts.Fields.Name, Contacts.Fields.PhoneNumbers, Contacts.Fields.Emails],
+        sort: Contacts.SortTypes.FirstName
+      });
+
+      return data
+        .map(contact => ({
+          id: contact.id,
+          name: contact.name?.trim() || '',
+          phoneNumbers: (contact.phoneNumbers || [])
+            .filter(phone => phone.number)
+            .map(phone => ({ label: phone.label || 'phone', number: phone.number! })),
+          email: contact.emails?.find(email => email.email)?.email
+        }))
+        .filter(contact => contact.name && contact.phoneNumbers.length > 0);
+    } catch (error) {
+      console.error('Failed to read device contacts:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { EmergencyCategory, EmergencyTrigger } from '../types/accessibility';
+
+/**
+ * Wording for each kind of emergency. Contacts see the headline and guidance
+ * in the alert SMS; the user sees the instructions while the emergency is in
+ * progress. Nothing here touches storage or native modules.
+ */
+export interface EmergencyCategoryDetails {
+  label: string;
+  icon: string;
+  /** Completes "<name> has reported ..." in the alert SMS */
+  alertSummary: string;
+  /** What contacts should do */
+  contactGuidance: string;
+  /** What the user should do while waiting for help */
+  instructions: string[];
+}
+
+export const EMERGENCY_CATEGORIES: Record<EmergencyCategory, EmergencyCategoryDetails> = {
+  medical: {
+    label: 'Medical emergency',
+    icon: '🏥',
+    alertSummary: 'a medical emergency',
+    contactGuidance: 'Please check on them and call emergency services if you cannot reach them.',
+    instructions: [
+      'Sit or lie down somewhere safe',
+      'Keep your phone with you and the screen unlocked if you can',
+      'Unlock the door if it is safe to do so',
+    ],
+  },
+  fall: {
+    label: 'Fall',
+    icon: '🤕',
+    alertSummary: 'a fall',
+    contactGuidance: 'They may be unable to get up. Please go to them or call emergency services if you cannot reach them.',
+    instructions: [
+      'Do not try to get up quickly - stay still and check for pain',
+      'If you are hurt, stay where you are and keep warm',
+      'Only get up slowly if you are sure you are not injured',
+    ],
+  },
+  chest_pain: {
+    label: 'Chest pain',
+    icon: '❤️',
+    alertSummary: 'chest pain',
+    contactGuidance: 'Chest pain can be a heart attack. Call emergency services now, then try to reach them.',
+    instructions: [
+      'Call emergency services now - do not wait for your contacts',
+      'Sit down and rest in a comfortable position',
+      'If you have been prescribed medication for chest pain, take it as directed',
+      'Unlock the door if it is safe to do so',
+    ],
+  },
+  breathing_difficulty: {
+    label: 'Breathing difficulty',
+    icon: '🫁',
+    alertSummary: 'difficulty breathing',
+    contactGuidance: 'They may struggle to talk on the phone. Call emergency services now, then try to reach them.',
+    instructions: [
+      'Call emergency services now - do not wait for your contacts',
+      'Sit upright and loosen any tight clothing',
+      'Use your inhaler or oxygen if you have been prescribed one',
+    ],
+  },
+  personal_safety: {
+    label: 'Personal safety',
+    icon: '🛡️',
+    alertSummary: 'that they feel unsafe',
+    contactGuidance: 'Do not go alone. Contact the police if you cannot reach them.',
+    instructions: [
+      'Move to a safe place if you can',
+      'Lock yourself in a room if someone is threatening you',
+      'Call emergency services when it is safe to talk',
+    ],
+  },
+  fire: {
+    label: 'Fire',
+    icon: '🔥',
+    alertSummary: 'a fire',
+    contactGuidance: 'Call the fire service now. Do not go into the building.',
+    instructions: [
+      'Get out and stay out - do not stop for belongings',
+      'Close doors behind you',
+      'Call emergency services once you are outside',
+    ],
+  },
+  missed_check_in: {
+    label: 'Missed check-in',
+    icon: '⏰',
+    alertSummary: 'a missed check-in',
+    contactGuidance: 'Please check on them and call emergency services if you cannot reach them.',
+    instructions: [
+      'If you are safe, move to follow-up and let your contacts know',
+      'If you need help, stay where you are and keep your phone with you',
+    ],
+  },
+};
+
+// Categories the user can pick; the rest are only set by automatic triggers
+export const SELECTABLE_CATEGORIES: EmergencyCategory[] = [
+  'medical',
+  'fall',
+  'chest_pain',
+  'breathing_difficulty',
+  'personal_safety',
+  'fire',
+];
+
+export const DEFAULT_EMERGENCY_CATEGORY: EmergencyCategory = 'medical';
+
+/**
+ * Category for a new session: automatic triggers decide it themselves,
+ * otherwise the user's choice is used.
+ */
+export const resolveEmergencyCategory = (
+  trigger: EmergencyTrigger,
+  chosen?: EmergencyCategory
+): EmergencyCategory => {
+  switch (trigger) {
+    case 'fall_detection':
+      return 'fall';
+    case 'missed_check_in':
+      return 'missed_check_in';
+    default:
+      return chosen || DEFAULT_EMERGENCY_CATEGORY;
+  }
+};
+
+export const getEmergencyCategory = (category?: EmergencyCategory): EmergencyCategoryDetails =>
+  EMERGENCY_CATEGORIES[category || DEFAULT_EMERGENCY_CATEGORY];
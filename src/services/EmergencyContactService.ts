@@ -1,58 +1,93 @@
-import * as SMS from 'expo-sms';
-import { EmergencyContact, MedicalProfile, EmergencySession } from '../types/accessibility';
+import {
+  EmergencyContact,
+  MedicalProfile,
+  EmergencySession,
+  CareCoordinator,
+  ContactDispatchResult,
+  ContactVerification,
+  MessageLanguage,
+  NotificationDeliveryMode,
+  NotificationMessageKind
+} from '../types/accessibility';
 import { SecureStorage } from './SecureStorage';
-import { LocationService, LocationData } from './LocationService';
+import { LocationData } from './LocationService';
+import { NotificationChannelService } from './NotificationChannels';
+import {
+  NotificationDispatcher,
+  NotificationEntry,
+  NotificationMessage
+} from './NotificationDispatcher';
+import { deliveredContactNames, hasCovertChannel } from './NotificationRouting';
+import { NotificationOutboxService } from './NotificationOutboxService';
+import { generateReplyCode } from './ContactAcknowledgements';
+import { ContactReadiness, summariseReadiness } from './ContactVerification';
+import {
+  describeDisclosure,
+  disclosedMedicalFields,
+  redactMedicalProfile,
+  sharedMedicalFields
+} from './MedicalSharing';
+import {
+  ComposedMessage,
+  DEFAULT_MESSAGE_LANGUAGE,
+  SENDER_NAME,
+  composeDuressAlert,
+  composeEmergencyAlert,
+  composeLocationUpdate,
+  composeStandDown,
+  composeVerificationTest
+} from './MessageTemplates';
+
+export interface EmergencyContactsStatus {
+  hasContacts: boolean;
+  hasPrimaryContact: boolean;
+  contactCount: number;
+  isReady: boolean;
+  verification: ContactReadiness;
+}
 
 export class EmergencyContactService {
+  private static dispatcher: NotificationDispatcher = NotificationChannelService.createDispatcher();
+
+  /**
+   * Replace the delivery channels, e.g. with `createLocalDispatcher()` to run
+   * the whole notification path without a phone.
+   */
+  static setDispatcher(dispatcher: NotificationDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * Alert primary contacts, falling back to the others if none could be
+   * reached. Returns the outcome of every channel tried for each contact.
+   */
   static async notifyEmergencyContacts(
     medicalProfile: MedicalProfile,
     emergencySession: EmergencySession,
     location?: LocationData
-  ): Promise<string[]> {
-    const notifiedContacts: string[] = [];
+  ): Promise<ContactDispatchResult[]> {
+    const results: ContactDispatchResult[] = [];
 
     try {
-      // Check if SMS is available
-      const isAvailable = await SMS.isAvailableAsync();
-      if (!isAvailable) {
-        console.warn('SMS is not available on this device');
-        await SecureStorage.addAuditEntry({
-          timestamp: new Date().toISOString(),
-          action: 'sms_not_available',
-          details: 'SMS functionality not available on device'
-        });
-        return notifiedContacts;
-      }
-
       // Get primary emergency contacts first
       const primaryContacts = medicalProfile.emergencyContacts.filter(contact => contact.isPrimary);
       const secondaryContacts = medicalProfile.emergencyContacts.filter(contact => !contact.isPrimary);
 
-      // Notify primary contacts first
-      for (const contact of primaryContacts) {
-        const success = await this.sendEmergencyText(contact, medicalProfile, emergencySession, location);
-        if (success) {
-          notifiedContacts.push(contact.name);
-        }
-      }
+      results.push(...await this.dispatchEmergencyAlert(primaryContacts, medicalProfile, emergencySession, location, results));
 
       // If no primary contacts were notified, try secondary contacts
-      if (notifiedContacts.length === 0) {
-        for (const contact of secondaryContacts) {
-          const success = await this.sendEmergencyText(contact, medicalProfile, emergencySession, location);
-          if (success) {
-            notifiedContacts.push(contact.name);
-          }
-        }
+      if (deliveredContactNames(results).length === 0) {
+        results.push(...await this.dispatchEmergencyAlert(secondaryContacts, medicalProfile, emergencySession, location, results));
       }
 
+      const notifiedContacts = deliveredContactNames(results);
       await SecureStorage.addAuditEntry({
         timestamp: new Date().toISOString(),
         action: 'emergency_contacts_notified',
         details: `Notified ${notifiedContacts.length} contacts: ${notifiedContacts.join(', ')}`
       });
 
-      return notifiedContacts;
+      return results;
     } catch (error) {
       console.error('Failed to notify emergency contacts:', error);
       
@@ -62,97 +97,321 @@ export class EmergencyContactService {
         details: `Error: ${error}`
       });
 
-      return notifiedContacts;
+      return results;
     }
   }
 
-  private static async sendEmergencyText(
-    contact: EmergencyContact,
+  /**
+   * Send the emergency alert to a specific set of contacts, e.g. one rung of
+   * the escalation ladder. Returns the outcome for each contact.
+   */
+  static async notifyContacts(
+    contacts: EmergencyContact[],
     medicalProfile: MedicalProfile,
     emergencySession: EmergencySession,
     location?: LocationData
-  ): Promise<boolean> {
+  ): Promise<ContactDispatchResult[]> {
     try {
-      const message = this.buildEmergencyMessage(medicalProfile, emergencySession, location);
-      
-      const result = await SMS.sendSMSAsync([contact.phoneNumber], message);
-      
-      if (result.result === 'sent') {
-        await SecureStorage.addAuditEntry({
-          timestamp: new Date().toISOString(),
-          action: 'emergency_sms_sent',
-          details: `SMS sent to ${contact.name} (${contact.relationship}) at ${contact.phoneNumber}`
-        });
-        return true;
-      } else {
-        console.warn(`SMS to ${contact.name} was not sent:`, result);
-        await SecureStorage.addAuditEntry({
-          timestamp: new Date().toISOString(),
-          action: 'emergency_sms_failed',
-          details: `SMS to ${contact.name} failed: ${result.result}`
-        });
-        return false;
-      }
+      return await this.dispatchEmergencyAlert(contacts, medicalProfile, emergencySession, location);
     } catch (error) {
-      console.error(`Failed to send SMS to ${contact.name}:`, error);
-      
+      console.error('Failed to notify contacts:', error);
+
       await SecureStorage.addAuditEntry({
         timestamp: new Date().toISOString(),
-        action: 'emergency_sms_error',
-        details: `SMS to ${contact.name} error: ${error}`
+        action: 'emergency_notification_failed',
+        details: `Error: ${error}`
       });
 
-      return false;
+      return [];
     }
   }
 
-  private static buildEmergencyMessage(
+  /**
+   * Let contacts who received the alert know the emergency is over.
+   * Returns the names of contacts the all-clear was sent to.
+   */
+  static async sendStandDown(
+    contacts: EmergencyContact[],
     medicalProfile: MedicalProfile,
     emergencySession: EmergencySession,
-    location?: LocationData
-  ): string {
-    const { firstName, lastName } = medicalProfile.personalInfo;
-    const startTime = new Date(emergencySession.startTime).toLocaleString();
-    
-    let message = `🚨 EMERGENCY ALERT 🚨\n\n`;
-    message += `${firstName} ${lastName} has activated an emergency response.\n\n`;
-    message += `Time: ${startTime}\n`;
-    message += `Emergency ID: ${emergencySession.id}\n\n`;
-
-    if (location) {
-      message += `📍 Location: ${LocationService.formatLocationForSharing(location)}\n`;
-      message += `Map: ${LocationService.formatLocationForMaps(location)}\n\n`;
-    } else {
-      message += `📍 Location: Unavailable (location services disabled or permission denied)\n\n`;
+    outcome: 'completed' | 'cancelled',
+    note?: string
+  ): Promise<string[]> {
+    try {
+      const results = await this.dispatchInLanguage(contacts, 'stand_down', emergencySession, language =>
+        composeStandDown(medicalProfile, emergencySession, outcome, { language, appName: SENDER_NAME, note })
+      );
+      const notifiedContacts = deliveredContactNames(results);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'stand_down_notified',
+        details: `All-clear sent to ${notifiedContacts.length} of ${contacts.length} contacts: ${notifiedContacts.join(', ')}`
+      });
+
+      return notifiedContacts;
+    } catch (error) {
+      console.error('Failed to send all-clear:', error);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'stand_down_failed',
+        details: `Error: ${error}`
+      });
+
+      return [];
     }
+  }
 
-    // Add critical medical information
-    if (medicalProfile.personalInfo.bloodType) {
-      message += `🩸 Blood Type: ${medicalProfile.personalInfo.bloodType}\n`;
+  /**
+   * Warn contacts that the person was made to cancel their emergency. The
+   * alert is coded so it is unmistakable to contacts but never says "duress"
+   * on the person's own screen. Returns the names of contacts it was sent to.
+   */
+  static async sendDuressAlert(
+    contacts: EmergencyContact[],
+    medicalProfile: MedicalProfile,
+    emergencySession: EmergencySession,
+    location?: LocationData
+  ): Promise<string[]> {
+    try {
+      const results = await this.dispatchInLanguage(contacts, 'duress_alert', emergencySession, language =>
+        composeDuressAlert(medicalProfile, emergencySession, { language, appName: SENDER_NAME, location })
+      );
+      return deliveredContactNames(results);
+    } catch (error) {
+      console.error('Failed to send duress alert:', error);
+      return [];
     }
+  }
+
+  /**
+   * Contacts (including care coordinators) matching names recorded in
+   * `contactsNotified`.
+   */
+  static async resolveContactsByName(
+    names: string[],
+    medicalProfile: MedicalProfile
+  ): Promise<EmergencyContact[]> {
+    const coordinators = await SecureStorage.getCareCoordinators();
+    const candidates = [
+      ...medicalProfile.emergencyContacts,
+      ...coordinators.map(coordinator => this.careCoordinatorToContact(coordinator))
+    ];
+
+    return candidates.filter(contact => names.includes(contact.name));
+  }
 
-    if (medicalProfile.personalInfo.allergies.length > 0) {
-      message += `⚠️ Allergies: ${medicalProfile.personalInfo.allergies.join(', ')}\n`;
+  /**
+   * Care coordinators are alerted through the same path as emergency contacts.
+   */
+  static careCoordinatorToContact(coordinator: CareCoordinator): EmergencyContact {
+    return {
+      id: coordinator.id,
+      name: `${coordinator.title} ${coordinator.name}`,
+      relationship: 'Care Coordinator',
+      phoneNumber: coordinator.phoneNumber,
+      isPrimary: coordinator.isPrimary,
+      email: coordinator.email
+    };
+  }
+
+  /**
+   * Tell contacts who already received the alert that the person has moved.
+   * Returns the names of contacts the update was sent to.
+   */
+  static async sendLocationUpdate(
+    contacts: EmergencyContact[],
+    medicalProfile: MedicalProfile,
+    emergencySession: EmergencySession,
+    location: LocationData
+  ): Promise<string[]> {
+    try {
+      const results = await this.dispatchInLanguage(contacts, 'location_update', emergencySession, language =>
+        composeLocationUpdate(medicalProfile, emergencySession, location, { language, appName: SENDER_NAME })
+      );
+      return deliveredContactNames(results);
+    } catch (error) {
+      console.error('Failed to send location update:', error);
+      return [];
     }
+  }
+
+  /**
+   * Each contact's alert carries its own reply code, so a reply shows who
+   * is responding, and only the medical details they are allowed to see.
+   * Codes already used in the session are not reissued. When contacts are
+   * grouped, the shared text leaves the reply code out.
+   */
+  private static async dispatchEmergencyAlert(
+    contacts: EmergencyContact[],
+    medicalProfile: MedicalProfile,
+    emergencySession: EmergencySession,
+    location: LocationData | undefined,
+    earlierResults: ContactDispatchResult[] = []
+  ): Promise<ContactDispatchResult[]> {
+    const usedCodes = [
+      ...(emergencySession.contactStatuses || []).map(status => status.replyCode),
+      ...earlierResults.map(result => result.replyCode),
+    ].filter((code): code is string => Boolean(code));
+
+    const entries: NotificationEntry[] = contacts.map(contact => {
+      const replyCode = generateReplyCode(usedCodes);
+      usedCodes.push(replyCode);
 
-    if (medicalProfile.personalInfo.medications.length > 0) {
-      message += `💊 Medications: ${medicalProfile.personalInfo.medications.join(', ')}\n`;
+      const profile = redactMedicalProfile(medicalProfile, sharedMedicalFields(contact));
+      const context = { language: contact.language || DEFAULT_MESSAGE_LANGUAGE, appName: SENDER_NAME, location };
+      const composed = composeEmergencyAlert(profile, emergencySession, { ...context, replyCode });
+      return {
+        contact,
+        message: {
+          ...this.createMessage('emergency_alert', emergencySession, composed),
+          replyCode,
+          groupBody: composeEmergencyAlert(profile, emergencySession, context).text,
+        },
+      };
+    });
+
+    const dispatchResults = await this.dispatchAndQueue(entries);
+    const results: ContactDispatchResult[] = [];
+
+    for (const [index, result] of dispatchResults.entries()) {
+      const contact = contacts[index];
+      const disclosedFields = disclosedMedicalFields(medicalProfile, sharedMedicalFields(contact));
+      results.push({ ...result, disclosedFields });
+
+      if (result.delivered) {
+        await SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'medical_data_disclosed',
+          details: `${describeDisclosure(contact.name, disclosedFields)} (emergency ${emergencySession.id})`
+        });
+      }
     }
 
-    if (medicalProfile.medicalConditions.length > 0) {
-      message += `🏥 Conditions: ${medicalProfile.medicalConditions.join(', ')}\n`;
+    return results;
+  }
+
+  /**
+   * Send one message to each contact in their own language, composing each
+   * language only once.
+   */
+  private static async dispatchInLanguage(
+    contacts: EmergencyContact[],
+    kind: NotificationMessageKind,
+    emergencySession: EmergencySession,
+    compose: (language: MessageLanguage) => ComposedMessage
+  ): Promise<ContactDispatchResult[]> {
+    const messages = new Map<MessageLanguage, NotificationMessage>();
+    const entries = contacts.map(contact => {
+      const language = contact.language || DEFAULT_MESSAGE_LANGUAGE;
+      if (!messages.has(language)) {
+        messages.set(language, this.createMessage(kind, emergencySession, compose(language)));
+      }
+      return { contact, message: messages.get(language)! };
+    });
+
+    return this.dispatchAndQueue(entries);
+  }
+
+  /**
+   * Send every entry, keeping any that did not get through in the outbox to
+   * be tried again. Texts the user chose not to send are left alone, as are
+   * covert messages to contacts with no covert channel: retrying cannot
+   * reach them either.
+   */
+  private static async dispatchAndQueue(entries: NotificationEntry[]): Promise<ContactDispatchResult[]> {
+    const results = await this.dispatcher.dispatchMany(entries, await this.getDeliveryMode());
+
+    for (const [index, result] of results.entries()) {
+      const { contact, message } = entries[index];
+      const lastAttempt = result.attempts[result.attempts.length - 1];
+      if (result.delivered || lastAttempt?.outcome === 'cancelled') continue;
+
+      if (message.covert && !hasCovertChannel(contact.channels)) {
+        await SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'covert_alert_skipped',
+          details: `${message.kind.replace(/_/g, ' ')} not sent to ${contact.name}: they have no alert channel that sends without the messaging app opening`
+        });
+        continue;
+      }
+
+      try {
+        await NotificationOutboxService.enqueue(contact, message, lastAttempt?.detail);
+      } catch (error) {
+        console.error('Failed to queue notification for retry:', error);
+      }
     }
 
-    message += `\nEmergency services have been contacted. This is an automated message from the Trilogy Care Emergency App.`;
+    return results;
+  }
 
-    return message;
+  /**
+   * Send a contact a test message they can reply to, through the same
+   * channels as a real alert. Not queued on failure: the person is there to
+   * see the result and try again.
+   */
+  static sendVerificationTest(
+    contact: EmergencyContact,
+    medicalProfile: Pick<MedicalProfile, 'personalInfo'>,
+    replyCode: string
+  ): Promise<ContactDispatchResult> {
+    const composed = composeVerificationTest(medicalProfile, {
+      language: contact.language || DEFAULT_MESSAGE_LANGUAGE,
+      appName: SENDER_NAME,
+      replyCode
+    });
+    return this.dispatcher.dispatch(contact, {
+      kind: 'contact_verification',
+      sessionId: `verification_${contact.id}`,
+      subject: composed.subject,
+      body: composed.text,
+      replyCode
+    });
   }
 
+  /**
+   * Try a queued message again through the same channels.
+   */
+  static resend(contact: EmergencyContact, message: NotificationMessage): Promise<ContactDispatchResult> {
+    return this.dispatcher.dispatch(contact, message);
+  }
+
+  private static async getDeliveryMode(): Promise<NotificationDeliveryMode> {
+    return (await NotificationChannelService.getSettings()).deliveryMode || 'individual';
+  }
+
+  /**
+   * Duress alerts and every message of a silent emergency (which includes
+   * one carried on after a duress cancellation) are covert, so nothing opens
+   * on the person's screen for someone nearby to see.
+   */
+  private static createMessage(
+    kind: NotificationMessageKind,
+    emergencySession: EmergencySession,
+    composed: ComposedMessage
+  ): NotificationMessage {
+    return {
+      kind,
+      sessionId: emergencySession.id,
+      subject: composed.subject,
+      body: composed.text,
+      covert: kind === 'duress_alert' || emergencySession.emergencyType === 'silent',
+    };
+  }
+
+  /**
+   * `errors` covers the whole list; `contactErrors` holds the problems with
+   * each contact by id, so a single bad entry can be pointed out or skipped.
+   */
   static async validateEmergencyContacts(contacts: EmergencyContact[]): Promise<{
     isValid: boolean;
     errors: string[];
+    contactErrors: Record<string, string[]>;
   }> {
     const errors: string[] = [];
+    const contactErrors: Record<string, string[]> = {};
 
     if (contacts.length === 0) {
       errors.push('At least one emergency contact is required');
@@ -164,24 +423,32 @@ export class EmergencyContactService {
     }
 
     for (const contact of contacts) {
+      const problems: string[] = [];
+
       if (!contact.name.trim()) {
-        errors.push(`Contact name is required`);
+        problems.push(`Contact name is required`);
       }
 
       if (!contact.phoneNumber.trim()) {
-        errors.push(`Phone number is required for ${contact.name || 'contact'}`);
+        problems.push(`Phone number is required for ${contact.name || 'contact'}`);
       } else if (!this.isValidPhoneNumber(contact.phoneNumber)) {
-        errors.push(`Invalid phone number for ${contact.name}: ${contact.phoneNumber}`);
+        problems.push(`Invalid phone number for ${contact.name}: ${contact.phoneNumber}`);
       }
 
       if (!contact.relationship.trim()) {
-        errors.push(`Relationship is required for ${contact.name || 'contact'}`);
+        problems.push(`Relationship is required for ${contact.name || 'contact'}`);
+      }
+
+      if (problems.length > 0) {
+        errors.push(...problems);
+        contactErrors[contact.id] = problems;
       }
     }
 
     return {
       isValid: errors.length === 0,
-      errors
+      errors,
+      contactErrors
     };
   }
 
@@ -204,22 +471,27 @@ export class EmergencyContactService {
     return phoneNumber; // Return original if we can't format it
   }
 
-  static async getEmergencyContactsStatus(medicalProfile: MedicalProfile | null): Promise<{
-    hasContacts: boolean;
-    hasPrimaryContact: boolean;
-    contactCount: number;
-    isReady: boolean;
-  }> {
+  /**
+   * Ready means the contacts pass validation and a primary contact has
+   * answered a test message, so a mistyped number does not look ready.
+   */
+  static async getEmergencyContactsStatus(
+    medicalProfile: MedicalProfile | null,
+    verifications: ContactVerification[] = []
+  ): Promise<EmergencyContactsStatus> {
+    const contacts = medicalProfile?.emergencyContacts || [];
+    const verification = summariseReadiness(contacts, verifications);
+
     if (!medicalProfile) {
       return {
         hasContacts: false,
         hasPrimaryContact: false,
         contactCount: 0,
-        isReady: false
+        isReady: false,
+        verification
       };
     }
 
-    const contacts = medicalProfile.emergencyContacts;
     const hasContacts = contacts.length > 0;
     const hasPrimaryContact = contacts.some(contact => contact.isPrimary);
     const validation = await this.validateEmergencyContacts(contacts);
@@ -228,7 +500,8 @@ export class EmergencyContactService {
       hasContacts,
       hasPrimaryContact,
       contactCount: contacts.length,
-      isReady: hasContacts && hasPrimaryContact && validation.isValid
+      isReady: hasContacts && hasPrimaryContact && validation.isValid && verification.isReady,
+      verification
     };
   }
 }
\ No newline at end of file
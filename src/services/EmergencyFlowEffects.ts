@@ -0,0 +1,323 @@
+import {
+  EmergencyCategory,
+  EmergencySession,
+  EmergencyStatus,
+  EmergencyTrigger,
+  EmergencyType,
+  EscalationPolicy,
+  EscalationStage,
+  MedicalProfile
+} from '../types/accessibility';
+import { EmergencyMachineEffects, EmergencyTransitionContext } from './EmergencyStateMachine';
+import { pauseEscalation, resumeEscalation, startEscalation } from './EscalationLadder';
+import { getEmergencyCategory, resolveEmergencyCategory } from './EmergencyCategories';
+import { deliveredContactNames, dispatchAuditEntries } from './NotificationRouting';
+import { disclosureAuditEntries } from './MedicalSharing';
+import { recordContactAlerts } from './ContactAcknowledgements';
+import { queueContactDeliveries, recordContactDeliveries } from './ContactDeliveries';
+import type { EmergencySessionRepository } from './EmergencySessionRepository';
+import type { LocationService, LocationData } from './LocationService';
+import type { EmergencyContactService } from './EmergencyContactService';
+import type { EmergencyNumberService } from './EmergencyNumberService';
+import type { ScreenReaderAnnouncer } from '../utils/accessibility';
+
+const LOCATION_TIMEOUT_MS = 5000;
+
+type LocationStatus = 'obtained' | 'permission_denied' | 'timeout' | 'failed';
+
+export interface EmergencyFlowDependencies {
+  getMedicalProfile: () => MedicalProfile | null;
+  sessionRepository: Pick<typeof EmergencySessionRepository, 'saveSession'>;
+  locationService: Pick<typeof LocationService, 'getLocationForEmergency'>;
+  contactService: Pick<
+    typeof EmergencyContactService,
+    'notifyEmergencyContacts' | 'sendStandDown' | 'resolveContactsByName'
+  >;
+  emergencyNumberService: Pick<typeof EmergencyNumberService, 'resolveForLocation'>;
+  announcer: Pick<typeof ScreenReaderAnnouncer, 'announce'>;
+  getEscalationPolicy: () => Promise<EscalationPolicy>;
+}
+
+/**
+ * Side effects of the emergency lifecycle: session creation, location,
+ * contact notification and persistence. Services are passed in by App.tsx so
+ * the machine and these effects can run against fakes off-device.
+ */
+export const createEmergencyFlowEffects = (
+  dependencies: EmergencyFlowDependencies
+): EmergencyMachineEffects => ({
+  onEnter: {
+    confirmation: ({ trigger, emergencyType, category }) =>
+      createSession(
+        dependencies.getMedicalProfile(),
+        trigger || 'button',
+        emergencyType || 'general',
+        resolveEmergencyCategory(trigger || 'button', category)
+      ),
+    in_progress: (context) => activateEmergency(context, dependencies),
+    follow_up: ({ session }) => session ? enterFollowUp(session) : undefined,
+    completed: (context) => closeSession(context, 'completed', dependencies),
+    cancelled: (context) => closeSession(context, 'cancelled', dependencies),
+  },
+  persist: async ({ session }) => {
+    if (session) {
+      await dependencies.sessionRepository.saveSession(session);
+    }
+  },
+});
+
+const TRIGGER_DETAILS: Record<EmergencyTrigger, string> = {
+  button: 'Emergency button pressed',
+  fall_detection: 'Fall detected - confirmation countdown started',
+  missed_check_in: 'Check-in missed - grace period over, alerting contacts',
+  deep_link: 'Emergency link opened - confirmation countdown started',
+  help_notification: '"I need help" notification pressed - confirmation countdown started',
+};
+
+const createSession = (
+  medicalProfile: MedicalProfile | null,
+  trigger: EmergencyTrigger,
+  emergencyType: EmergencyType,
+  category: EmergencyCategory
+): EmergencySession => ({
+  id: `emergency_${Date.now()}`,
+  startTime: new Date().toISOString(),
+  status: 'confirmation',
+  medicalProfileId: medicalProfile?.id || 'unknown',
+  trigger,
+  emergencyType,
+  category,
+  contactsNotified: [],
+  auditLog: [{
+    timestamp: new Date().toISOString(),
+    action: 'emergency_initiated',
+    details: `${TRIGGER_DETAILS[trigger]} - ${getEmergencyCategory(category).label}`
+      + (emergencyType === 'silent' ? ' (silent emergency)' : '')
+  }]
+});
+
+const fetchEmergencyLocation = async (
+  locationService: EmergencyFlowDependencies['locationService']
+): Promise<{ location: LocationData | null; status: LocationStatus }> => {
+  try {
+    // Attempt to get location with timeout for emergency situations
+    const location = await Promise.race([
+      locationService.getLocationForEmergency(),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Location timeout')), LOCATION_TIMEOUT_MS)
+      )
+    ]);
+
+    return { location, status: location ? 'obtained' : 'permission_denied' };
+  } catch (error) {
+    console.warn('Location request timed out or failed during emergency:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { location: null, status: errorMessage === 'Location timeout' ? 'timeout' : 'failed' };
+  }
+};
+
+const activateEmergency = async (
+  context: EmergencyTransitionContext,
+  dependencies: EmergencyFlowDependencies
+): Promise<EmergencySession | void> => {
+  const { session } = context;
+  const medicalProfile = dependencies.getMedicalProfile();
+  if (!session) return;
+
+  // Returning from follow-up keeps the original location and notifications,
+  // and the escalation ladder carries on from where it was paused
+  if (context.from === 'follow_up') {
+    const resumed = withStatus(session, 'in_progress', 'emergency_resumed', 'Emergency resumed from follow-up');
+    return resumed.escalation ? { ...resumed, escalation: resumeEscalation(resumed.escalation) } : resumed;
+  }
+
+  const { location, status: locationStatus } = await fetchEmergencyLocation(dependencies.locationService);
+
+  const updatedSession: EmergencySession = {
+    ...withStatus(session, 'in_progress', 'emergency_confirmed', `Emergency confirmed - Location: ${locationStatus}`),
+    location: location || undefined,
+  };
+
+  // Notify emergency contacts if profile exists
+  if (medicalProfile) {
+    try {
+      const results = await dependencies.contactService.notifyEmergencyContacts(
+        medicalProfile,
+        updatedSession,
+        location || undefined
+      );
+      const notifiedContacts = deliveredContactNames(results);
+
+      updatedSession.contactsNotified = notifiedContacts;
+      updatedSession.contactStatuses = recordContactAlerts(
+        updatedSession.contactStatuses,
+        results,
+        medicalProfile.emergencyContacts
+      );
+      // Contacts left for later escalation steps stay queued
+      updatedSession.contactDeliveries = recordContactDeliveries(
+        queueContactDeliveries(updatedSession.contactDeliveries, medicalProfile.emergencyContacts),
+        results
+      );
+      updatedSession.auditLog.push(...dispatchAuditEntries(results), ...disclosureAuditEntries(results), {
+        timestamp: new Date().toISOString(),
+        action: 'contacts_notified',
+        details: `Notified ${notifiedContacts.length} contacts - Location status: ${locationStatus}`
+      });
+    } catch (contactError) {
+      console.error('Failed to notify emergency contacts:', contactError);
+      updatedSession.auditLog.push({
+        timestamp: new Date().toISOString(),
+        action: 'contact_notification_failed',
+        details: `Failed to notify contacts: ${contactError}`
+      });
+    }
+  }
+
+  // Resolve the number now so the in-progress screen can offer a one-tap call
+  try {
+    const emergencyNumber = await dependencies.emergencyNumberService.resolveForLocation(location);
+    updatedSession.emergencyNumber = emergencyNumber;
+    updatedSession.auditLog.push({
+      timestamp: new Date().toISOString(),
+      action: 'emergency_number_resolved',
+      details: `Emergency number ${emergencyNumber.number} (${emergencyNumber.countryCode || 'unknown country'}, from ${emergencyNumber.source})`
+    });
+  } catch (error) {
+    console.error('Failed to resolve emergency number:', error);
+  }
+
+  // The initial alert covers the first rung(s) of the escalation ladder
+  const completedStages: EscalationStage[] = [];
+  if (medicalProfile) {
+    completedStages.push('primary_contacts');
+    const secondaryNotified = medicalProfile.emergencyContacts.some(contact =>
+      !contact.isPrimary && updatedSession.contactsNotified.includes(contact.name)
+    );
+    if (secondaryNotified) {
+      completedStages.push('secondary_contacts');
+    }
+  }
+
+  try {
+    updatedSession.escalation = startEscalation(await dependencies.getEscalationPolicy(), completedStages);
+  } catch (error) {
+    console.error('Failed to start escalation:', error);
+  }
+
+  announceActivation(dependencies.announcer, locationStatus);
+
+  return updatedSession;
+};
+
+const announceActivation = (
+  announcer: EmergencyFlowDependencies['announcer'],
+  locationStatus: LocationStatus
+): void => {
+  // Provide user feedback about location status
+  if (locationStatus === 'permission_denied') {
+    announcer.announce(
+      'Emergency activated. Location permission was denied - emergency contacts will be notified without location.',
+      { priority: 'high' }
+    );
+  } else if (locationStatus === 'obtained') {
+    announcer.announce(
+      'Emergency activated. Your location and medical information are being shared with emergency contacts.',
+      { priority: 'high' }
+    );
+  } else {
+    announcer.announce(
+      'Emergency activated. Emergency contacts are being notified. Location information unavailable.',
+      { priority: 'high' }
+    );
+  }
+};
+
+/**
+ * Help is already engaged once the emergency is in follow-up, so the
+ * escalation ladder is paused rather than alerting anyone else.
+ */
+const enterFollowUp = (session: EmergencySession): EmergencySession => {
+  const followUp = withStatus(session, 'follow_up', 'emergency_follow_up', 'Emergency moved to follow-up');
+  if (!followUp.escalation?.nextStepAt) return followUp;
+
+  followUp.auditLog.push({
+    timestamp: new Date().toISOString(),
+    action: 'escalation_paused',
+    details: 'Escalation paused while in follow-up'
+  });
+  return { ...followUp, escalation: pauseEscalation(followUp.escalation) };
+};
+
+const closeSession = async (
+  context: EmergencyTransitionContext,
+  status: 'completed' | 'cancelled',
+  dependencies: EmergencyFlowDependencies
+): Promise<EmergencySession | void> => {
+  if (!context.session) return;
+  const closedSession = withStatus(context.session, status, `emergency_${status}`, `Emergency ${status}`);
+
+  // Contacts are about to get a new alert; an all-clear now would tell them
+  // the person is safe
+  if (context.skipStandDown) {
+    closedSession.auditLog.push({
+      timestamp: new Date().toISOString(),
+      action: 'stand_down_skipped',
+      details: 'All-clear not sent: a new emergency was started'
+    });
+    return closedSession;
+  }
+
+  // Only contacts who actually received the alert are told to stand down
+  const medicalProfile = dependencies.getMedicalProfile();
+  if (!medicalProfile || closedSession.contactsNotified.length === 0) {
+    return closedSession;
+  }
+
+  try {
+    const recipients = await dependencies.contactService.resolveContactsByName(
+      closedSession.contactsNotified,
+      medicalProfile
+    );
+    const notified = await dependencies.contactService.sendStandDown(
+      recipients,
+      medicalProfile,
+      closedSession,
+      status,
+      context.note?.trim() || undefined
+    );
+
+    closedSession.auditLog.push({
+      timestamp: new Date().toISOString(),
+      action: 'stand_down_sent',
+      details: `All-clear sent to ${notified.length} of ${closedSession.contactsNotified.length} notified contacts: ${notified.join(', ')}`
+    });
+  } catch (error) {
+    console.error('Failed to send all-clear:', error);
+    closedSession.auditLog.push({
+      timestamp: new Date().toISOString(),
+      action: 'stand_down_failed',
+      details: `Failed to send all-clear: ${error}`
+    });
+  }
+
+  return closedSession;
+};
+
+const withStatus = (
+  session: EmergencySession,
+  status: EmergencyStatus,
+  action: string,
+  details: string
+): EmergencySession => ({
+  ...session,
+  status,
+  auditLog: [
+    ...session.auditLog,
+    {
+      timestamp: new Date().toISOString(),
+      action,
+      details
+    }
+  ]
+});
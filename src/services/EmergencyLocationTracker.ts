@@ -0,0 +1,221 @@
+import type { LocationSubscription } from 'expo-location';
+import { EmergencyStatus, LocationBreadcrumb, MedicalProfile } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { LocationService, LocationData, LocationTrackingMode } from './LocationService';
+import { EmergencyContactService } from './EmergencyContactService';
+import { EmergencyStateMachine, EmergencyMachineState } from './EmergencyStateMachine';
+
+// Contacts get a new location once the person has moved this far (km)
+export const LOCATION_UPDATE_THRESHOLD_KM = 0.2;
+const MIN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_BREADCRUMBS = 500;
+// Fixes are kept in memory and saved with the session in batches, since
+// every save rewrites the whole encrypted session
+const BREADCRUMB_SAVE_EVERY_FIXES = 6;
+const BREADCRUMB_SAVE_INTERVAL_MS = 60 * 1000;
+const STATIONARY_RADIUS_KM = 0.03;
+const STATIONARY_FIX_COUNT = 3;
+
+/**
+ * Track at full accuracy while the person is moving, drop to balanced once
+ * the last few fixes sit in one place, and use low power during follow-up.
+ */
+export const chooseTrackingMode = (
+  status: EmergencyStatus,
+  breadcrumbs: LocationBreadcrumb[]
+): LocationTrackingMode => {
+  if (status === 'follow_up') {
+    return 'low_power';
+  }
+
+  const recent = breadcrumbs.slice(-STATIONARY_FIX_COUNT);
+  if (recent.length < STATIONARY_FIX_COUNT) {
+    return 'high';
+  }
+
+  const isStationary = recent.every(crumb =>
+    LocationService.calculateDistance(recent[0], crumb) <= STATIONARY_RADIUS_KM
+  );
+  return isStationary ? 'balanced' : 'high';
+};
+
+export interface EmergencyLocationTrackerOptions {
+  machine: EmergencyStateMachine;
+  getMedicalProfile: () => MedicalProfile | null;
+}
+
+/**
+ * Live location for the active session. Every fix is kept as a breadcrumb,
+ * saved every few fixes, every minute and whenever the status changes, and
+ * contacts who were alerted receive a new location when the person moves
+ * past the threshold. Tracking stops as soon as the session is closed.
+ */
+export class EmergencyLocationTracker {
+  private unsubscribe: (() => void) | null = null;
+  private subscription: LocationSubscription | null = null;
+  private trackedSessionId: string | null = null;
+  private mode: LocationTrackingMode | null = null;
+  private watchGeneration = 0;
+  private isSendingUpdate = false;
+  private lastStatus: EmergencyStatus | null = null;
+  private pendingSessionId: string | null = null;
+  private pendingBreadcrumbs: LocationBreadcrumb[] = [];
+  private lastSavedAt = 0;
+
+  constructor(private readonly options: EmergencyLocationTrackerOptions) {}
+
+  start(): void {
+    this.unsubscribe = this.options.machine.subscribe(state => this.handleStateChange(state));
+    this.handleStateChange(this.options.machine.getState());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.stopWatching();
+    this.saveBreadcrumbs();
+  }
+
+  private handleStateChange({ status, session }: EmergencyMachineState): void {
+    if (status !== this.lastStatus) {
+      this.lastStatus = status;
+      this.saveBreadcrumbs();
+    }
+
+    const shouldTrack = session && (status === 'in_progress' || status === 'follow_up');
+    if (!shouldTrack) {
+      if (this.trackedSessionId) {
+        this.stopWatching();
+        SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'emergency_location_tracking_stopped',
+          details: `Live location tracking stopped (session ${status})`
+        });
+      }
+      return;
+    }
+
+    this.updateWatch(status, session.id, session.breadcrumbs || []);
+  }
+
+  private updateWatch(status: EmergencyStatus, sessionId: string, savedBreadcrumbs: LocationBreadcrumb[]): void {
+    const breadcrumbs = this.pendingSessionId === sessionId
+      ? [...savedBreadcrumbs, ...this.pendingBreadcrumbs]
+      : savedBreadcrumbs;
+    const mode = chooseTrackingMode(status, breadcrumbs);
+    if (this.trackedSessionId !== sessionId || this.mode !== mode) {
+      this.startWatching(sessionId, mode);
+    }
+  }
+
+  private async startWatching(sessionId: string, mode: LocationTrackingMode): Promise<void> {
+    this.stopWatching();
+    this.trackedSessionId = sessionId;
+    this.mode = mode;
+
+    // A newer start or stop may happen while the watch is being set up
+    const generation = ++this.watchGeneration;
+    const subscription = await LocationService.watchEmergencyLocation(mode, location => {
+      this.handleLocation(location);
+    });
+
+    if (generation !== this.watchGeneration) {
+      subscription?.remove();
+      return;
+    }
+    this.subscription = subscription;
+  }
+
+  private stopWatching(): void {
+    this.watchGeneration++;
+    this.subscription?.remove();
+    this.subscription = null;
+    this.trackedSessionId = null;
+    this.mode = null;
+  }
+
+  private async handleLocation(location: LocationData): Promise<void> {
+    const { status, session } = this.options.machine.getState();
+    if (!session) return;
+
+    if (this.pendingSessionId !== session.id) {
+      this.pendingSessionId = session.id;
+      this.pendingBreadcrumbs = [];
+    }
+    this.pendingBreadcrumbs.push(location);
+    this.updateWatch(status, session.id, session.breadcrumbs || []);
+
+    try {
+      if (this.pendingBreadcrumbs.length >= BREADCRUMB_SAVE_EVERY_FIXES
+        || Date.now() - this.lastSavedAt >= BREADCRUMB_SAVE_INTERVAL_MS) {
+        await this.saveBreadcrumbs();
+      }
+
+      await this.sendLocationUpdateIfMoved(location);
+    } catch (error) {
+      console.error('Failed to record emergency location:', error);
+    }
+  }
+
+  /**
+   * Add the fixes held in memory to their session.
+   */
+  private async saveBreadcrumbs(): Promise<void> {
+    const sessionId = this.pendingSessionId;
+    const breadcrumbs = this.pendingBreadcrumbs;
+    if (!sessionId || breadcrumbs.length === 0) return;
+
+    this.pendingBreadcrumbs = [];
+    this.lastSavedAt = Date.now();
+    try {
+      await this.options.machine.updateSession(session => session.id === sessionId
+        ? { ...session, breadcrumbs: [...(session.breadcrumbs || []), ...breadcrumbs].slice(-MAX_BREADCRUMBS) }
+        : session);
+    } catch (error) {
+      console.error('Failed to save emergency location history:', error);
+    }
+  }
+
+  private async sendLocationUpdateIfMoved(location: LocationData): Promise<void> {
+    const { session } = this.options.machine.getState();
+    const medicalProfile = this.options.getMedicalProfile();
+    if (this.isSendingUpdate || !session || !medicalProfile || session.contactsNotified.length === 0) {
+      return;
+    }
+
+    const distanceMoved = session.location
+      ? LocationService.calculateDistance(session.location, location)
+      : Infinity;
+    const lastUpdateAt = session.lastLocationUpdateAt
+      ? new Date(session.lastLocationUpdateAt).getTime()
+      : 0;
+
+    if (distanceMoved < LOCATION_UPDATE_THRESHOLD_KM || Date.now() - lastUpdateAt < MIN_UPDATE_INTERVAL_MS) {
+      return;
+    }
+
+    this.isSendingUpdate = true;
+    try {
+      const recipients = await EmergencyContactService.resolveContactsByName(session.contactsNotified, medicalProfile);
+      const updated = await EmergencyContactService.sendLocationUpdate(recipients, medicalProfile, session, location);
+
+      await this.options.machine.updateSession(current => ({
+        ...current,
+        location: updated.length > 0 ? location : current.location,
+        lastLocationUpdateAt: new Date().toISOString(),
+        auditLog: [
+          ...current.auditLog,
+          {
+            timestamp: new Date().toISOString(),
+            action: 'location_update_sent',
+            details: distanceMoved === Infinity
+              ? `First location shared with ${updated.length} of ${recipients.length} contacts`
+              : `Moved ${Math.round(distanceMoved * 1000)}m - location sent to ${updated.length} of ${recipients.length} contacts`
+          }
+        ]
+      }));
+    } finally {
+      this.isSendingUpdate = false;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { Linking } from 'react-native';
+import * as Location from 'expo-location';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EmergencyCallAttempt, EmergencyNumber } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import type { LocationData } from './LocationService';
+
+export interface EmergencyNumberEntry {
+  country: string;
+  number: string;
+}
+
+/**
+ * Offline table of medical emergency numbers keyed by ISO 3166 country code.
+ * Where a country has separate services, the ambulance number is used.
+ */
+export const EMERGENCY_NUMBERS: Record<string, EmergencyNumberEntry> = {
+  AU: { country: 'Australia', number: '000' },
+  NZ: { country: 'New Zealand', number: '111' },
+  US: { country: 'United States', number: '911' },
+  CA: { country: 'Canada', number: '911' },
+  MX: { country: 'Mexico', number: '911' },
+  PH: { country: 'Philippines', number: '911' },
+  GB: { country: 'United Kingdom', number: '999' },
+  IE: { country: 'Ireland', number: '112' },
+  HK: { country: 'Hong Kong', number: '999' },
+  MY: { country: 'Malaysia', number: '999' },
+  SG: { country: 'Singapore', number: '995' },
+  JP: { country: 'Japan', number: '119' },
+  KR: { country: 'South Korea', number: '119' },
+  CN: { country: 'China', number: '120' },
+  BR: { country: 'Brazil', number: '192' },
+  IN: { country: 'India', number: '112' },
+  ID: { country: 'Indonesia', number: '112' },
+  ZA: { country: 'South Africa', number: '112' },
+  AT: { country: 'Austria', number: '112' },
+  BE: { country: 'Belgium', number: '112' },
+  CH: { country: 'Switzerland', number: '112' },
+  DE: { country: 'Germany', number: '112' },
+  DK: { country: 'Denmark', number: '112' },
+  ES: { country: 'Spain', number: '112' },
+  FI: { country: 'Finland', number: '112' },
+  FR: { country: 'France', number: '112' },
+  GR: { country: 'Greece', number: '112' },
+  IT: { country: 'Italy', number: '112' },
+  NL: { country: 'Netherlands', number: '112' },
+  NO: { country: 'Norway', number: '112' },
+  PL: { country: 'Poland', number: '112' },
+  PT: { country: 'Portugal', number: '112' },
+  SE: { country: 'Sweden', number: '112' },
+};
+
+// 112 is routed to the local emergency service by GSM networks in most countries
+export const DEFAULT_EMERGENCY_NUMBER = '112';
+
+const REVERSE_GEOCODE_TIMEOUT_MS = 3000;
+
+export class EmergencyNumberService {
+  private static readonly OVERRIDE_KEY = 'emergency_number_override';
+
+  /**
+   * Country chosen by the user in settings, or null to pick automatically.
+   */
+  static async getOverride(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(this.OVERRIDE_KEY);
+    } catch (error) {
+      console.error('Failed to load emergency number override:', error);
+      return null;
+    }
+  }
+
+  static async saveOverride(countryCode: string | null): Promise<void> {
+    try {
+      if (countryCode) {
+        await AsyncStorage.setItem(this.OVERRIDE_KEY, countryCode);
+      } else {
+        await AsyncStorage.removeItem(this.OVERRIDE_KEY);
+      }
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'emergency_number_override_saved',
+        details: countryCode
+          ? `Emergency number set to ${EMERGENCY_NUMBERS[countryCode]?.number} (${countryCode})`
+          : 'Emergency number set to automatic'
+      });
+    } catch (error) {
+      throw new Error(`Failed to save emergency number override: ${error}`);
+    }
+  }
+
+  /**
+   * Pick the number from the most specific information available:
+   * user override, then where the device is, then the device locale.
+   */
+  static resolveNumber(countryCodes: {
+    override?: string | null;
+    location?: string | null;
+    locale?: string | null;
+  }): EmergencyNumber {
+    const candidates: [EmergencyNumber['source'], string | null | undefined][] = [
+      ['override', countryCodes.override],
+      ['location', countryCodes.location],
+      ['locale', countryCodes.locale],
+    ];
+
+    for (const [source, countryCode] of candidates) {
+      const entry = countryCode ? EMERGENCY_NUMBERS[countryCode.toUpperCase()] : undefined;
+      if (entry) {
+        return { number: entry.number, countryCode: countryCode!.toUpperCase(), source };
+      }
+    }
+
+    return { number: DEFAULT_EMERGENCY_NUMBER, source: 'default' };
+  }
+
+  static async resolveForLocation(location?: LocationData | null): Promise<EmergencyNumber> {
+    const override = await this.getOverride();
+    if (override && EMERGENCY_NUMBERS[override]) {
+      return this.resolveNumber({ override });
+    }
+
+    return this.resolveNumber({
+      location: location ? await this.getLocationCountryCode(location) : null,
+      locale: this.getLocaleCountryCode(),
+    });
+  }
+
+  static getLocaleCountryCode(): string | null {
+    try {
+      const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+      const region = locale.split(/[-_]/).find(part => /^[A-Z]{2}$/.test(part));
+      return region || null;
+    } catch (error) {
+      console.error('Failed to read device locale:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Country at the given coordinates. Reverse geocoding may need a network
+   * connection, so it is bounded by a short timeout and failures return null.
+   */
+  static async getLocationCountryCode(location: LocationData): Promise<string | null> {
+    try {
+      const addresses = await Promise.race([
+        Location.reverseGeocodeAsync({
+          latitude: location.latitude,
+          longitude: location.longitude
+        }),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Reverse geocode timeout')), REVERSE_GEOCODE_TIMEOUT_MS)
+        )
+      ]);
+
+      return addresses.find(address => address.isoCountryCode)?.isoCountryCode || null;
+    } catch (error) {
+      console.warn('Failed to determine country from location:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Open the phone dialer with the emergency number. The OS still asks the
+   * user to confirm the call, so the outcome records that the dialer opened
+   * rather than that the call connected.
+   */
+  static async dial(emergencyNumber: EmergencyNumber): Promise<EmergencyCallAttempt> {
+    const phoneUrl = `tel:${emergencyNumber.number}`;
+    let outcome: EmergencyCallAttempt['outcome'];
+
+    try {
+      const canOpen = await Linking.canOpenURL(phoneUrl);
+      if (canOpen) {
+        await Linking.openURL(phoneUrl);
+        outcome = 'dialer_opened';
+      } else {
+        outcome = 'unavailable';
+      }
+    } catch (error) {
+      console.error('Failed to dial emergency services:', error);
+      outcome = 'failed';
+    }
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'emergency_services_dialed',
+      details: `Dial ${emergencyNumber.number} (${emergencyNumber.source}): ${outcome}`
+    });
+
+    return {
+      number: emergencyNumber.number,
+      timestamp: new Date().toISOString(),
+      outcome
+    };
+  }
+}
@@ -0,0 +1,220 @@
+import { EmergencySession, EmergencyStatus } from '../types/accessibility';
+import { EncryptedAsyncStorage } from './EncryptedAsyncStorage';
+import { SecureStorage } from './SecureStorage';
+
+interface SessionIndexEntry {
+  id: string;
+  startTime: string;
+  status: EmergencyStatus;
+}
+
+export interface EmergencySessionFilter {
+  statuses?: EmergencyStatus[];
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Encrypted history of every emergency session. Each session is stored under
+ * its own key with a small index so the list can be filtered without
+ * decrypting every session.
+ */
+export class EmergencySessionRepository {
+  private static readonly INDEX_KEY = 'emergency_session_index';
+  private static readonly SESSION_KEY_PREFIX = 'emergency_session_';
+
+  private static sessionKey(sessionId: string): string {
+    return `${this.SESSION_KEY_PREFIX}${sessionId}`;
+  }
+
+  private static isClosed(status: EmergencyStatus): boolean {
+    return status === 'completed' || status === 'cancelled';
+  }
+
+  private static isHiddenWhileActive(session: EmergencySession): boolean {
+    return session.emergencyType === 'silent' && !this.isClosed(session.status);
+  }
+
+  private static async readIndex(): Promise<SessionIndexEntry[]> {
+    const indexData = await EncryptedAsyncStorage.getItem(this.INDEX_KEY);
+    return indexData ? JSON.parse(indexData) as SessionIndexEntry[] : [];
+  }
+
+  private static async writeIndex(index: SessionIndexEntry[]): Promise<void> {
+    await EncryptedAsyncStorage.setItem(this.INDEX_KEY, JSON.stringify(index));
+  }
+
+  /**
+   * Store the session. Only its creation and closing go in the global audit
+   * log; routine updates are already in the session's own audit log, and
+   * auditing them would push everything else out of the global one.
+   */
+  static async saveSession(session: EmergencySession): Promise<void> {
+    try {
+      await EncryptedAsyncStorage.setItem(this.sessionKey(session.id), JSON.stringify(session));
+
+      const index = await this.readIndex();
+      const entry: SessionIndexEntry = {
+        id: session.id,
+        startTime: session.startTime,
+        status: session.status
+      };
+      const existingIndex = index.findIndex(item => item.id === session.id);
+      const previous = existingIndex >= 0 ? index[existingIndex] : null;
+
+      if (existingIndex >= 0) {
+        index[existingIndex] = entry;
+      } else {
+        index.push(entry);
+      }
+
+      await this.writeIndex(index);
+
+      if (!previous) {
+        await SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'emergency_session_created',
+          details: `Session ${session.id} created with status: ${session.status}`
+        });
+      } else if (this.isClosed(session.status) && !this.isClosed(previous.status)) {
+        await SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'emergency_session_closed',
+          details: `Session ${session.id} closed with status: ${session.status}`
+        });
+      }
+    } catch (error) {
+      throw new Error(`Failed to save emergency session: ${error}`);
+    }
+  }
+
+  static async getSession(sessionId: string): Promise<EmergencySession | null> {
+    try {
+      const sessionData = await EncryptedAsyncStorage.getItem(this.sessionKey(sessionId));
+      return sessionData ? JSON.parse(sessionData) as EmergencySession : null;
+    } catch (error) {
+      throw new Error(`Failed to retrieve emergency session ${sessionId}: ${error}`);
+    }
+  }
+
+  /**
+   * Sessions matching the filter, newest first. A silent emergency is left
+   * out until it closes: history can be opened from the decoy home screen,
+   * and listing the live session would give it away.
+   */
+  static async listSessions(filter: EmergencySessionFilter = {}): Promise<EmergencySession[]> {
+    try {
+      const index = await this.readIndex();
+      const matching = index
+        .filter(entry => this.matchesFilter(entry, filter))
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+
+      const sessions: EmergencySession[] = [];
+      for (const entry of matching) {
+        const session = await this.getSession(entry.id);
+        if (session && !this.isHiddenWhileActive(session)) {
+          sessions.push(session);
+        }
+      }
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'emergency_history_accessed',
+        details: `Listed ${sessions.length} emergency sessions`
+      });
+
+      return sessions;
+    } catch (error) {
+      throw new Error(`Failed to list emergency sessions: ${error}`);
+    }
+  }
+
+  /**
+   * Most recently started session, migrating the legacy single-slot session
+   * on first use.
+   */
+  static async getLatestSession(): Promise<EmergencySession | null> {
+    await this.migrateLegacySession();
+
+    const index = await this.readIndex();
+    if (index.length === 0) {
+      return null;
+    }
+
+    const latest = index.reduce((newest, entry) =>
+      new Date(entry.startTime) > new Date(newest.startTime) ? entry : newest
+    );
+
+    return this.getSession(latest.id);
+  }
+
+  static async deleteSession(sessionId: string): Promise<void> {
+    try {
+      await EncryptedAsyncStorage.removeItem(this.sessionKey(sessionId));
+
+      const index = await this.readIndex();
+      await this.writeIndex(index.filter(entry => entry.id !== sessionId));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'emergency_session_deleted',
+        details: `Session ${sessionId} deleted from history`
+      });
+    } catch (error) {
+      throw new Error(`Failed to delete emergency session: ${error}`);
+    }
+  }
+
+  static async clearAll(): Promise<void> {
+    try {
+      const index = await this.readIndex();
+      await EncryptedAsyncStorage.clearAll([
+        ...index.map(entry => this.sessionKey(entry.id)),
+        this.INDEX_KEY
+      ]);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'emergency_history_cleared',
+        details: `Cleared ${index.length} emergency sessions`
+      });
+    } catch (error) {
+      throw new Error(`Failed to clear emergency history: ${error}`);
+    }
+  }
+
+  /**
+   * Move a session saved by the old single-slot storage into the history.
+   */
+  private static async migrateLegacySession(): Promise<void> {
+    try {
+      const legacySession = await SecureStorage.getEmergencySession();
+      if (!legacySession) return;
+
+      const existing = await this.getSession(legacySession.id);
+      if (!existing) {
+        await this.saveSession(legacySession);
+      }
+
+      await SecureStorage.deleteEmergencySession();
+    } catch (error) {
+      console.error('Failed to migrate legacy emergency session:', error);
+    }
+  }
+
+  private static matchesFilter(entry: SessionIndexEntry, filter: EmergencySessionFilter): boolean {
+    if (filter.statuses && filter.statuses.length > 0 && !filter.statuses.includes(entry.status)) {
+      return false;
+    }
+
+    const startTime = new Date(entry.startTime);
+    if (filter.from && startTime < filter.from) {
+      return false;
+    }
+    if (filter.to && startTime > filter.to) {
+      return false;
+    }
+
+    return true;
+  }
+}
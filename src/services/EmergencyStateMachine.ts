@@ -0,0 +1,336 @@
+import { EmergencyStatus, EmergencySession, EmergencyTransitionOptions } from '../types/accessibility';
+
+/**
+ * Allowed transitions between emergency statuses. Anything not listed here is
+ * rejected, e.g. follow_up → detection without first completing or cancelling
+ * the session.
+ */
+export const EMERGENCY_TRANSITIONS: Record<EmergencyStatus, readonly EmergencyStatus[]> = {
+  detection: ['confirmation'],
+  confirmation: ['in_progress', 'cancelled'],
+  in_progress: ['follow_up', 'cancelled'],
+  follow_up: ['in_progress', 'completed', 'cancelled'],
+  completed: ['detection', 'confirmation'],
+  cancelled: ['detection', 'confirmation'],
+};
+
+export interface EmergencyMachineState {
+  status: EmergencyStatus;
+  session: EmergencySession | null;
+}
+
+export interface EmergencyTransitionContext extends EmergencyTransitionOptions {
+  from: EmergencyStatus;
+  to: EmergencyStatus;
+  session: EmergencySession | null;
+}
+
+/**
+ * Returns a rejection reason, or null when the transition may proceed.
+ */
+export type EmergencyGuard = (context: EmergencyTransitionContext) => string | null;
+
+/**
+ * Entry effects may return an updated session (or null to clear it). Returning
+ * undefined leaves the session untouched.
+ */
+export type EmergencyEffect = (
+  context: EmergencyTransitionContext
+) => Promise<EmergencySession | null | void> | EmergencySession | null | void;
+
+export interface EmergencyMachineEffects {
+  onEnter?: Partial<Record<EmergencyStatus, EmergencyEffect>>;
+  onExit?: Partial<Record<EmergencyStatus, EmergencyEffect>>;
+  /**
+   * Called after every accepted transition with the resulting state.
+   */
+  persist?: (state: EmergencyMachineState) => Promise<void> | void;
+}
+
+export type EmergencyMachineEventType =
+  | 'transition'
+  | 'transition_rejected'
+  | 'effect_failed'
+  | 'session_restored'
+  | 'session_updated'
+  | 'auto_reset_scheduled';
+
+export interface EmergencyMachineEvent {
+  timestamp: string;
+  type: EmergencyMachineEventType;
+  from: EmergencyStatus;
+  to?: EmergencyStatus;
+  reason?: string;
+}
+
+export interface EmergencyTransitionResult {
+  accepted: boolean;
+  state: EmergencyMachineState;
+  reason?: string;
+}
+
+export interface EmergencyScheduler {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface EmergencyStateMachineOptions {
+  effects?: EmergencyMachineEffects;
+  guards?: Partial<Record<EmergencyStatus, EmergencyGuard[]>>;
+  /**
+   * Delay before a completed/cancelled session returns to detection.
+   * Set to null to disable the automatic reset.
+   */
+  autoResetDelayMs?: number | null;
+  scheduler?: EmergencyScheduler;
+  now?: () => Date;
+  maxEventLogSize?: number;
+}
+
+export type EmergencyMachineListener = (state: EmergencyMachineState) => void;
+
+const CLOSED_STATUSES: readonly EmergencyStatus[] = ['completed', 'cancelled'];
+
+// Built-in guards that hold regardless of the effects wired in by the app
+const DEFAULT_GUARDS: Partial<Record<EmergencyStatus, EmergencyGuard[]>> = {
+  confirmation: [
+    ({ session }) =>
+      session && !CLOSED_STATUSES.includes(session.status)
+        ? `Session ${session.id} is still active`
+        : null,
+  ],
+  in_progress: [({ session }) => (session ? null : 'No active emergency session')],
+  follow_up: [({ session }) => (session ? null : 'No active emergency session')],
+};
+
+const defaultScheduler: EmergencyScheduler = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Pure emergency lifecycle. Owns the current status and session, validates
+ * transitions and runs the effects supplied by the caller. It has no React or
+ * native dependencies so the flow can be exercised on a desktop.
+ */
+export class EmergencyStateMachine {
+  private state: EmergencyMachineState = { status: 'detection', session: null };
+  private readonly listeners = new Set<EmergencyMachineListener>();
+  private readonly eventLog: EmergencyMachineEvent[] = [];
+  private readonly effects: EmergencyMachineEffects;
+  private readonly guards: Partial<Record<EmergencyStatus, EmergencyGuard[]>>;
+  private readonly autoResetDelayMs: number | null;
+  private readonly scheduler: EmergencyScheduler;
+  private readonly now: () => Date;
+  private readonly maxEventLogSize: number;
+  private pending: Promise<unknown> = Promise.resolve();
+  private resetHandle: unknown = null;
+
+  constructor(options: EmergencyStateMachineOptions = {}) {
+    this.effects = options.effects || {};
+    this.guards = options.guards || {};
+    this.autoResetDelayMs = options.autoResetDelayMs === undefined ? 3000 : options.autoResetDelayMs;
+    this.scheduler = options.scheduler || defaultScheduler;
+    this.now = options.now || (() => new Date());
+    this.maxEventLogSize = options.maxEventLogSize || 200;
+  }
+
+  static canTransition(from: EmergencyStatus, to: EmergencyStatus): boolean {
+    return EMERGENCY_TRANSITIONS[from].includes(to);
+  }
+
+  static isActiveStatus(status: EmergencyStatus): boolean {
+    return status !== 'detection' && !CLOSED_STATUSES.includes(status);
+  }
+
+  getState(): EmergencyMachineState {
+    return this.state;
+  }
+
+  getEventLog(): EmergencyMachineEvent[] {
+    return [...this.eventLog];
+  }
+
+  subscribe(listener: EmergencyMachineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resume a session loaded from storage without re-running entry effects.
+   */
+  restore(session: EmergencySession | null): void {
+    const from = this.state.status;
+
+    if (session && EmergencyStateMachine.isActiveStatus(session.status)) {
+      this.setState({ status: session.status, session });
+      this.logEvent('session_restored', from, session.status);
+    } else {
+      this.setState({ status: 'detection', session: null });
+    }
+  }
+
+  /**
+   * Apply a change to the current session outside of a status transition,
+   * e.g. appending an audit entry while the emergency is in progress.
+   */
+  updateSession(updater: (session: EmergencySession) => EmergencySession): Promise<EmergencyMachineState> {
+    return this.enqueue(async () => {
+      if (!this.state.session) {
+        return this.state;
+      }
+
+      this.setState({ ...this.state, session: updater(this.state.session) });
+      this.logEvent('session_updated', this.state.status);
+      await this.runPersist();
+      return this.state;
+    });
+  }
+
+  /**
+   * Request a transition. Requests are serialised so effects of one
+   * transition finish before the next is evaluated.
+   */
+  transition(to: EmergencyStatus, options: EmergencyTransitionOptions = {}): Promise<EmergencyTransitionResult> {
+    return this.enqueue(() => this.performTransition(to, options));
+  }
+
+  dispose(): void {
+    this.clearAutoReset();
+    this.listeners.clear();
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async performTransition(
+    to: EmergencyStatus,
+    options: EmergencyTransitionOptions
+  ): Promise<EmergencyTransitionResult> {
+    const from = this.state.status;
+    const context: EmergencyTransitionContext = { ...options, from, to, session: this.state.session };
+
+    const rejection = this.evaluateGuards(context);
+    if (rejection) {
+      this.logEvent('transition_rejected', from, to, rejection);
+      return { accepted: false, state: this.state, reason: rejection };
+    }
+
+    this.clearAutoReset();
+
+    let session = await this.runEffect(this.effects.onExit?.[from], context, from, to);
+    context.session = session;
+
+    // Publish the new status before entry effects run so screens switch
+    // immediately, even while slow effects (location, SMS) are pending
+    this.setState({ status: to, session });
+
+    session = await this.runEffect(this.effects.onEnter?.[to], context, from, to);
+    this.setState({ status: to, session: to === 'detection' ? null : session });
+    this.logEvent('transition', from, to);
+
+    await this.runPersist();
+
+    if (CLOSED_STATUSES.includes(to)) {
+      this.scheduleAutoReset();
+    }
+
+    return { accepted: true, state: this.state };
+  }
+
+  private evaluateGuards(context: EmergencyTransitionContext): string | null {
+    if (!EmergencyStateMachine.canTransition(context.from, context.to)) {
+      return `Transition from ${context.from} to ${context.to} is not allowed`;
+    }
+
+    const guards = [
+      ...(DEFAULT_GUARDS[context.to] || []),
+      ...(this.guards[context.to] || []),
+    ];
+
+    for (const guard of guards) {
+      const reason = guard(context);
+      if (reason) {
+        return reason;
+      }
+    }
+
+    return null;
+  }
+
+  private async runEffect(
+    effect: EmergencyEffect | undefined,
+    context: EmergencyTransitionContext,
+    from: EmergencyStatus,
+    to: EmergencyStatus
+  ): Promise<EmergencySession | null> {
+    if (!effect) {
+      return context.session;
+    }
+
+    try {
+      const result = await effect(context);
+      return result === undefined ? context.session : result;
+    } catch (error) {
+      // Effects must never block an emergency from progressing
+      this.logEvent('effect_failed', from, to, `${error}`);
+      return context.session;
+    }
+  }
+
+  private async runPersist(): Promise<void> {
+    if (!this.effects.persist) return;
+
+    try {
+      await this.effects.persist(this.state);
+    } catch (error) {
+      this.logEvent('effect_failed', this.state.status, undefined, `Persist failed: ${error}`);
+    }
+  }
+
+  private scheduleAutoReset(): void {
+    if (this.autoResetDelayMs === null) return;
+
+    this.logEvent('auto_reset_scheduled', this.state.status, 'detection');
+    this.resetHandle = this.scheduler.setTimeout(() => {
+      this.resetHandle = null;
+      this.transition('detection');
+    }, this.autoResetDelayMs);
+  }
+
+  private clearAutoReset(): void {
+    if (this.resetHandle !== null) {
+      this.scheduler.clearTimeout(this.resetHandle);
+      this.resetHandle = null;
+    }
+  }
+
+  private setState(state: EmergencyMachineState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private logEvent(
+    type: EmergencyMachineEventType,
+    from: EmergencyStatus,
+    to?: EmergencyStatus,
+    reason?: string
+  ): void {
+    this.eventLog.push({
+      timestamp: this.now().toISOString(),
+      type,
+      from,
+      to,
+      reason,
+    });
+
+    if (this.eventLog.length > this.maxEventLogSize) {
+      this.eventLog.splice(0, this.eventLog.length - this.maxEventLogSize);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { EscalationPolicy, EscalationStage, EscalationState } from '../types/accessibility';
+
+/**
+ * Pure escalation rules shared by the emergency flow and the escalation
+ * controller. Nothing here touches storage or native modules.
+ */
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: true,
+  steps: [
+    { stage: 'primary_contacts', waitMinutes: 0 },
+    { stage: 'secondary_contacts', waitMinutes: 5 },
+    { stage: 'care_coordinators', waitMinutes: 5 },
+    { stage: 'emergency_services', waitMinutes: 5 },
+  ],
+};
+
+export const ESCALATION_STAGE_LABELS: Record<EscalationStage, string> = {
+  primary_contacts: 'Primary contacts',
+  secondary_contacts: 'Other emergency contacts',
+  care_coordinators: 'Care coordinators',
+  emergency_services: 'Emergency services',
+};
+
+const addMinutes = (date: Date, minutes: number): string =>
+  new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+
+/**
+ * Begin the ladder once the initial alert has gone out. Stages already
+ * handled by the initial alert are marked complete. The policy is kept with
+ * the state so the ladder steps through the same rungs to the end.
+ */
+export const startEscalation = (
+  policy: EscalationPolicy,
+  completedStages: EscalationStage[],
+  now: Date = new Date()
+): EscalationState | undefined => {
+  if (!policy.enabled) {
+    return undefined;
+  }
+
+  const nextStepIndex = policy.steps.findIndex(step => !completedStages.includes(step.stage));
+  if (nextStepIndex < 0) {
+    return { policy, nextStepIndex: policy.steps.length, completedStages };
+  }
+
+  return {
+    policy,
+    nextStepIndex,
+    nextStepAt: addMinutes(now, policy.steps[nextStepIndex].waitMinutes),
+    completedStages,
+  };
+};
+
+/**
+ * Still waiting for someone to respond. A paused ladder is pending too, so a
+ * response during follow-up still stops it.
+ */
+export const isEscalationPending = (state: EscalationState | undefined): boolean =>
+  Boolean(state && !state.acknowledgedAt && (state.nextStepAt || state.pausedAt));
+
+export const isEscalationDue = (state: EscalationState | undefined, now: Date = new Date()): boolean =>
+  isEscalationPending(state) && Boolean(state!.nextStepAt) && new Date(state!.nextStepAt!).getTime() <= now.getTime();
+
+/**
+ * Hold the ladder while the emergency is in follow-up: help is already
+ * engaged, so nobody else is alerted. The wait left on the current step is
+ * kept for when the emergency is resumed.
+ */
+export const pauseEscalation = (state: EscalationState, now: Date = new Date()): EscalationState => {
+  if (state.pausedAt || !isEscalationPending(state)) {
+    return state;
+  }
+
+  return {
+    ...state,
+    nextStepAt: undefined,
+    pausedAt: now.toISOString(),
+    pausedRemainingMs: Math.max(0, new Date(state.nextStepAt!).getTime() - now.getTime()),
+  };
+};
+
+export const resumeEscalation = (state: EscalationState, now: Date = new Date()): EscalationState => {
+  if (!state.pausedAt) {
+    return state;
+  }
+
+  return {
+    ...state,
+    nextStepAt: state.acknowledgedAt
+      ? undefined
+      : new Date(now.getTime() + (state.pausedRemainingMs || 0)).toISOString(),
+    pausedAt: undefined,
+    pausedRemainingMs: undefined,
+  };
+};
+
+/**
+ * Mark the current step as done and schedule the following one. When
+ * skipWait is set (the stage had nobody to notify) the next step is due now.
+ */
+export const advanceEscalation = (
+  state: EscalationState,
+  policy: EscalationPolicy,
+  skipWait: boolean,
+  now: Date = new Date()
+): EscalationState => {
+  const currentStep = policy.steps[state.nextStepIndex];
+  const nextStepIndex = state.nextStepIndex + 1;
+  const nextStep = policy.steps[nextStepIndex];
+
+  return {
+    ...state,
+    nextStepIndex,
+    nextStepAt: nextStep ? addMinutes(now, skipWait ? 0 : nextStep.waitMinutes) : undefined,
+    completedStages: currentStep
+      ? [...state.completedStages, currentStep.stage]
+      : state.completedStages,
+  };
+};
+
+export const acknowledgeEscalation = (
+  state: EscalationState,
+  acknowledgedBy: string,
+  now: Date = new Date()
+): EscalationState => ({
+  ...state,
+  nextStepAt: undefined,
+  acknowledgedAt: now.toISOString(),
+  acknowledgedBy,
+});
@@ -0,0 +1,334 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AuditEntry,
+  ContactAlertStatus,
+  ContactDelivery,
+  EmergencyContact,
+  EmergencySession,
+  EscalationPolicy,
+  EscalationStage,
+  EscalationState,
+  MedicalProfile
+} from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { EmergencyContactService } from './EmergencyContactService';
+import { deliveredContactNames, dispatchAuditEntries } from './NotificationRouting';
+import { disclosureAuditEntries } from './MedicalSharing';
+import { recordContactAlerts } from './ContactAcknowledgements';
+import { mergeContactDeliveries, recordContactDeliveries } from './ContactDeliveries';
+import { EmergencyStateMachine, EmergencyMachineState } from './EmergencyStateMachine';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  ESCALATION_STAGE_LABELS,
+  advanceEscalation,
+  isEscalationDue,
+  isEscalationPending,
+  pauseEscalation
+} from './EscalationLadder';
+
+export interface EscalationStepResult {
+  escalation: EscalationState;
+  notifiedContacts: string[];
+  contactStatuses: ContactAlertStatus[];
+  contactDeliveries: ContactDelivery[];
+  auditEntries: AuditEntry[];
+  promptEmergencyServices: boolean;
+}
+
+export class EscalationService {
+  private static readonly POLICY_KEY = 'escalation_policy';
+  private static readonly REMINDER_PREFIX = 'escalation_';
+
+  static async getPolicy(): Promise<EscalationPolicy> {
+    try {
+      const policyJson = await AsyncStorage.getItem(this.POLICY_KEY);
+      return policyJson ? JSON.parse(policyJson) as EscalationPolicy : DEFAULT_ESCALATION_POLICY;
+    } catch (error) {
+      console.error('Failed to load escalation policy:', error);
+      return DEFAULT_ESCALATION_POLICY;
+    }
+  }
+
+  static async savePolicy(policy: EscalationPolicy): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.POLICY_KEY, JSON.stringify(policy));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'escalation_policy_saved',
+        details: policy.enabled
+          ? `Escalation enabled: ${policy.steps.map(step => `${ESCALATION_STAGE_LABELS[step.stage]} after ${step.waitMinutes} min`).join(', ')}`
+          : 'Escalation disabled'
+      });
+    } catch (error) {
+      throw new Error(`Failed to save escalation policy: ${error}`);
+    }
+  }
+
+  /**
+   * Run every step that is currently due, following the policy stored when
+   * escalation started (`policy` is only used for sessions saved without
+   * one). Stages with nobody left to notify are skipped without waiting so
+   * the ladder never stalls on an empty rung.
+   */
+  static async runDueSteps(
+    session: EmergencySession,
+    policy: EscalationPolicy,
+    medicalProfile: MedicalProfile | null
+  ): Promise<EscalationStepResult | null> {
+    let escalation = session.escalation;
+    if (!escalation || !isEscalationDue(escalation)) {
+      return null;
+    }
+    const ladder = escalation.policy || policy;
+
+    const result: EscalationStepResult = {
+      escalation,
+      notifiedContacts: [],
+      contactStatuses: [],
+      contactDeliveries: [],
+      auditEntries: [],
+      promptEmergencyServices: false,
+    };
+
+    while (isEscalationDue(escalation)) {
+      const step = ladder.steps[escalation!.nextStepIndex];
+      if (!step) break;
+
+      const alreadyNotified = [...session.contactsNotified, ...result.notifiedContacts];
+      let skipWait = false;
+
+      if (step.stage === 'emergency_services') {
+        result.promptEmergencyServices = true;
+        result.auditEntries.push({
+          timestamp: new Date().toISOString(),
+          action: 'escalation_emergency_services_prompted',
+          details: 'No acknowledgement received - prompting to call emergency services'
+        });
+      } else {
+        const recipients = (await this.getStageRecipients(step.stage, medicalProfile))
+          .filter(contact => !alreadyNotified.includes(contact.name));
+
+        if (recipients.length === 0 || !medicalProfile) {
+          skipWait = true;
+          result.auditEntries.push({
+            timestamp: new Date().toISOString(),
+            action: 'escalation_stage_skipped',
+            details: `${ESCALATION_STAGE_LABELS[step.stage]}: nobody left to notify`
+          });
+        } else {
+          const dispatchResults = await EmergencyContactService.notifyContacts(
+            recipients,
+            medicalProfile,
+            session,
+            session.location
+          );
+          const notified = deliveredContactNames(dispatchResults);
+          result.notifiedContacts.push(...notified);
+          result.contactStatuses = recordContactAlerts(result.contactStatuses, dispatchResults, recipients);
+          result.contactDeliveries = recordContactDeliveries(result.contactDeliveries, dispatchResults);
+          result.auditEntries.push(...dispatchAuditEntries(dispatchResults), ...disclosureAuditEntries(dispatchResults), {
+            timestamp: new Date().toISOString(),
+            action: 'escalation_stage_notified',
+            details: `${ESCALATION_STAGE_LABELS[step.stage]}: notified ${notified.length} of ${recipients.length} (${notified.join(', ') || 'none'})`
+          });
+        }
+      }
+
+      escalation = advanceEscalation(escalation!, ladder, skipWait);
+    }
+
+    result.escalation = escalation!;
+    return result;
+  }
+
+  static applyStepResult(session: EmergencySession, result: EscalationStepResult): EmergencySession {
+    const escalation: EscalationState = {
+      ...result.escalation,
+      // An acknowledgement that arrived while the step was running wins
+      acknowledgedAt: session.escalation?.acknowledgedAt,
+      acknowledgedBy: session.escalation?.acknowledgedBy,
+      nextStepAt: session.escalation?.acknowledgedAt ? undefined : result.escalation.nextStepAt,
+    };
+
+    return {
+      ...session,
+      // So does a move to follow-up
+      escalation: session.escalation?.pausedAt ? pauseEscalation(escalation) : escalation,
+      contactsNotified: [...session.contactsNotified, ...result.notifiedContacts],
+      contactStatuses: [...(session.contactStatuses || []), ...result.contactStatuses],
+      contactDeliveries: mergeContactDeliveries(session.contactDeliveries, result.contactDeliveries),
+      auditLog: [...session.auditLog, ...result.auditEntries],
+    };
+  }
+
+  /**
+   * Local notification fired when the next step is due, so a backgrounded or
+   * closed app brings the user back to continue the escalation.
+   */
+  static async scheduleReminder(session: EmergencySession): Promise<void> {
+    await this.cancelReminder(session.id);
+
+    // A reminder could give a silent emergency away
+    if (!isEscalationPending(session.escalation) || !session.escalation!.nextStepAt || session.emergencyType === 'silent') return;
+
+    try {
+      const dueAt = new Date(session.escalation!.nextStepAt!);
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${this.REMINDER_PREFIX}${session.id}`,
+        content: {
+          title: 'Emergency still active',
+          body: 'No one has acknowledged your emergency yet. Open the app to alert the next contacts.',
+          data: { sessionId: session.id, type: 'escalation' },
+          sound: 'default',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, Math.floor((dueAt.getTime() - Date.now()) / 1000))
+        },
+      });
+    } catch (error) {
+      console.error('Failed to schedule escalation reminder:', error);
+    }
+  }
+
+  static async cancelReminder(sessionId: string): Promise<void> {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(`${this.REMINDER_PREFIX}${sessionId}`);
+    } catch (error) {
+      // Ignore if no reminder was scheduled
+    }
+  }
+
+  private static async getStageRecipients(
+    stage: EscalationStage,
+    medicalProfile: MedicalProfile | null
+  ): Promise<EmergencyContact[]> {
+    switch (stage) {
+      case 'primary_contacts':
+        return medicalProfile?.emergencyContacts.filter(contact => contact.isPrimary) || [];
+      case 'secondary_contacts':
+        return medicalProfile?.emergencyContacts.filter(contact => !contact.isPrimary) || [];
+      case 'care_coordinators': {
+        const coordinators = await SecureStorage.getCareCoordinators();
+        return coordinators.map(coordinator => EmergencyContactService.careCoordinatorToContact(coordinator));
+      }
+      default:
+        return [];
+    }
+  }
+}
+
+export interface EscalationControllerOptions {
+  machine: EmergencyStateMachine;
+  getMedicalProfile: () => MedicalProfile | null;
+  onEmergencyServicesDue: () => void;
+}
+
+/**
+ * Drives the escalation ladder for the active session. Timers are derived
+ * from the persisted session on every evaluation, so the ladder picks up
+ * where it left off after the app is backgrounded or restarted.
+ */
+export class EscalationController {
+  private unsubscribe: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isRunning = false;
+  private lastSessionId: string | null = null;
+  private reminderScheduledFor: string | null = null;
+
+  constructor(private readonly options: EscalationControllerOptions) {}
+
+  start(): void {
+    this.unsubscribe = this.options.machine.subscribe(state => this.handleStateChange(state));
+    this.appStateSubscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        this.evaluate();
+      }
+    });
+    this.evaluate();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimer();
+  }
+
+  private handleStateChange(state: EmergencyMachineState): void {
+    if (this.lastSessionId && (!state.session || !EmergencyStateMachine.isActiveStatus(state.status))) {
+      EscalationService.cancelReminder(this.lastSessionId);
+      this.reminderScheduledFor = null;
+    }
+    this.lastSessionId = state.session?.id || null;
+    this.evaluate();
+  }
+
+  private evaluate(): void {
+    this.clearTimer();
+
+    const { status, session } = this.options.machine.getState();
+    if (!session || !EmergencyStateMachine.isActiveStatus(status) || status === 'confirmation') {
+      return;
+    }
+
+    // Escalation is paused during follow-up and picks up again on resume
+    if (status === 'follow_up' || !isEscalationPending(session.escalation)) {
+      if (this.reminderScheduledFor) {
+        EscalationService.cancelReminder(session.id);
+        this.reminderScheduledFor = null;
+      }
+      return;
+    }
+
+    if (isEscalationDue(session.escalation)) {
+      this.runDueSteps();
+      return;
+    }
+
+    const nextStepAt = session.escalation!.nextStepAt!;
+    this.timer = setTimeout(() => this.evaluate(), new Date(nextStepAt).getTime() - Date.now());
+
+    if (this.reminderScheduledFor !== nextStepAt) {
+      this.reminderScheduledFor = nextStepAt;
+      EscalationService.scheduleReminder(session);
+    }
+  }
+
+  private async runDueSteps(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const { session } = this.options.machine.getState();
+      if (!session) return;
+
+      // Only needed for sessions started before the policy was stored with them
+      const policy = session.escalation?.policy || await EscalationService.getPolicy();
+      const result = await EscalationService.runDueSteps(session, policy, this.options.getMedicalProfile());
+      if (!result) return;
+
+      await this.options.machine.updateSession(current => EscalationService.applyStepResult(current, result));
+
+      if (result.promptEmergencyServices) {
+        this.options.onEmergencyServicesDue();
+      }
+    } catch (error) {
+      console.error('Failed to run escalation step:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { Accelerometer, Gyroscope } from 'expo-sensors';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SecureStorage } from './SecureStorage';
+import { EmergencyStateMachine, EmergencyMachineState } from './EmergencyStateMachine';
+import {
+  FallDetection,
+  FallDetector,
+  FallDetectorConfig,
+  MotionSample,
+  Vector3
+} from './FallDetector';
+
+/**
+ * Anything that can stream motion samples: the device sensors, or a
+ * recorded trace when tuning the detector.
+ */
+export interface MotionSensorSource {
+  isAvailable(): Promise<boolean>;
+  /** Start streaming; returns a function that stops the stream */
+  start(onSample: (sample: MotionSample) => void): () => void;
+}
+
+const SENSOR_INTERVAL_MS = 50;
+
+/**
+ * Accelerometer samples combined with the latest gyroscope reading.
+ */
+export const createDeviceMotionSource = (intervalMs: number = SENSOR_INTERVAL_MS): MotionSensorSource => ({
+  isAvailable: () => Accelerometer.isAvailableAsync(),
+  start: (onSample) => {
+    let rotationRate: Vector3 | undefined;
+
+    Accelerometer.setUpdateInterval(intervalMs);
+    Gyroscope.setUpdateInterval(intervalMs);
+
+    const gyroscopeSubscription = Gyroscope.addListener(({ x, y, z }) => {
+      rotationRate = { x, y, z };
+    });
+    const accelerometerSubscription = Accelerometer.addListener(({ x, y, z }) => {
+      onSample({ timestamp: Date.now(), acceleration: { x, y, z }, rotationRate });
+    });
+
+    return () => {
+      accelerometerSubscription.remove();
+      gyroscopeSubscription.remove();
+    };
+  },
+});
+
+export class FallDetectionService {
+  private static readonly ENABLED_KEY = 'fall_detection_enabled';
+  private static readonly listeners = new Set<(enabled: boolean) => void>();
+
+  static async isEnabled(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(this.ENABLED_KEY)) === 'true';
+    } catch (error) {
+      console.error('Failed to load fall detection setting:', error);
+      return false;
+    }
+  }
+
+  static async setEnabled(enabled: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.ENABLED_KEY, String(enabled));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'fall_detection_setting_saved',
+        details: `Fall detection ${enabled ? 'enabled' : 'disabled'}`
+      });
+
+      this.listeners.forEach(listener => listener(enabled));
+    } catch (error) {
+      throw new Error(`Failed to save fall detection setting: ${error}`);
+    }
+  }
+
+  static subscribe(listener: (enabled: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export interface FallDetectionControllerOptions {
+  machine: EmergencyStateMachine;
+  onFallDetected: (detection: FallDetection) => void;
+  source?: MotionSensorSource;
+  config?: Partial<FallDetectorConfig>;
+}
+
+/**
+ * Watches for falls while no emergency is active and hands detections to
+ * the app. Sensors only run while fall detection is enabled, the app is in
+ * the foreground and the machine is idle. The motion sensors deliver nothing
+ * once the phone locks or the app is backgrounded, so this is foreground-only
+ * and the settings screen says so.
+ */
+export class FallDetectionController {
+  private readonly source: MotionSensorSource;
+  private readonly detector: FallDetector;
+  private unsubscribeMachine: (() => void) | null = null;
+  private unsubscribeSetting: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private stopSensors: (() => void) | null = null;
+  private isEnabled = false;
+  private isAvailable = false;
+  private appState: AppStateStatus = AppState.currentState;
+
+  constructor(private readonly options: FallDetectionControllerOptions) {
+    this.source = options.source || createDeviceMotionSource();
+    this.detector = new FallDetector(options.config);
+  }
+
+  async start(): Promise<void> {
+    this.unsubscribeMachine = this.options.machine.subscribe(state => this.update(state));
+    this.unsubscribeSetting = FallDetectionService.subscribe(enabled => {
+      this.isEnabled = enabled;
+      this.update(this.options.machine.getState());
+    });
+    this.appStateSubscription = AppState.addEventListener('change', nextAppState => {
+      this.appState = nextAppState;
+      this.update(this.options.machine.getState());
+    });
+
+    this.isEnabled = await FallDetectionService.isEnabled();
+    try {
+      this.isAvailable = await this.source.isAvailable();
+    } catch (error) {
+      console.error('Failed to check motion sensor availability:', error);
+    }
+    // stop() may have been called while the setting was loading
+    if (!this.unsubscribeMachine) return;
+    this.update(this.options.machine.getState());
+  }
+
+  stop(): void {
+    this.unsubscribeMachine?.();
+    this.unsubscribeMachine = null;
+    this.unsubscribeSetting?.();
+    this.unsubscribeSetting = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.stopMonitoring();
+  }
+
+  private update({ status }: EmergencyMachineState): void {
+    const shouldMonitor = this.isEnabled
+      && this.isAvailable
+      && this.appState === 'active'
+      && status === 'detection';
+
+    if (shouldMonitor && !this.stopSensors) {
+      this.detector.reset();
+      this.stopSensors = this.source.start(sample => this.handleSample(sample));
+    } else if (!shouldMonitor && this.stopSensors) {
+      this.stopMonitoring();
+    }
+  }
+
+  private handleSample(sample: MotionSample): void {
+    const detection = this.detector.addSample(sample);
+    if (!detection) return;
+
+    this.stopMonitoring();
+
+    SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'fall_detected',
+      details: `Impact of ${detection.peakG.toFixed(1)}g followed by ${Math.round((detection.detectedAt - detection.impactAt) / 1000)}s without movement`
+    });
+
+    this.options.onFallDetected(detection);
+  }
+
+  private stopMonitoring(): void {
+    this.stopSensors?.();
+    this.stopSensors = null;
+  }
+}
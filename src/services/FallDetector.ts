@@ -0,0 +1,148 @@
+/**
+ * Pure fall detection. Samples are fed in from any source (device sensors or
+ * a recorded trace) so thresholds can be tuned off-device. A fall is an
+ * impact spike followed by a period of stillness; getting up again during
+ * the stillness window cancels the detection.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MotionSample {
+  /** Milliseconds, monotonically increasing */
+  timestamp: number;
+  /** Acceleration in g, including gravity */
+  acceleration: Vector3;
+  /** Rotation rate in rad/s, when a gyroscope is available */
+  rotationRate?: Vector3;
+}
+
+export interface FallDetectorConfig {
+  /** Total acceleration that counts as an impact */
+  impactThresholdG: number;
+  /** Ignore movement for this long after the impact while the body settles */
+  settleMs: number;
+  /** How long the person must stay still after settling */
+  stillnessDurationMs: number;
+  /** Allowed deviation from 1g while still */
+  stillnessToleranceG: number;
+  /** Allowed rotation while still */
+  stillnessRotationRadPerSec: number;
+  /** Give up if stillness has not been reached this long after the impact */
+  maxStillnessWaitMs: number;
+  /** Minimum time between two detections */
+  cooldownMs: number;
+}
+
+export const DEFAULT_FALL_DETECTOR_CONFIG: FallDetectorConfig = {
+  impactThresholdG: 2.5,
+  settleMs: 1000,
+  stillnessDurationMs: 3000,
+  stillnessToleranceG: 0.2,
+  stillnessRotationRadPerSec: 0.5,
+  maxStillnessWaitMs: 10000,
+  cooldownMs: 30000,
+};
+
+export interface FallDetection {
+  impactAt: number;
+  detectedAt: number;
+  peakG: number;
+}
+
+type DetectorPhase =
+  | { name: 'monitoring' }
+  | { name: 'impact'; impactAt: number; peakG: number; stillSince: number | null };
+
+export const magnitude = ({ x, y, z }: Vector3): number => Math.sqrt(x * x + y * y + z * z);
+
+export class FallDetector {
+  private readonly config: FallDetectorConfig;
+  private phase: DetectorPhase = { name: 'monitoring' };
+  private lastDetectionAt: number | null = null;
+
+  constructor(config: Partial<FallDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_FALL_DETECTOR_CONFIG, ...config };
+  }
+
+  /**
+   * Feed the next sample. Returns the detection when this sample completes
+   * a fall, otherwise null.
+   */
+  addSample(sample: MotionSample): FallDetection | null {
+    const totalG = magnitude(sample.acceleration);
+
+    if (this.phase.name === 'monitoring') {
+      if (totalG >= this.config.impactThresholdG && !this.isCoolingDown(sample.timestamp)) {
+        this.phase = { name: 'impact', impactAt: sample.timestamp, peakG: totalG, stillSince: null };
+      }
+      return null;
+    }
+
+    const phase = this.phase;
+    const sinceImpact = sample.timestamp - phase.impactAt;
+
+    if (sinceImpact < this.config.settleMs) {
+      phase.peakG = Math.max(phase.peakG, totalG);
+      return null;
+    }
+
+    if (!this.isStill(sample, totalG)) {
+      phase.stillSince = null;
+      if (sinceImpact > this.config.maxStillnessWaitMs) {
+        this.reset();
+      }
+      return null;
+    }
+
+    if (phase.stillSince === null) {
+      phase.stillSince = sample.timestamp;
+    }
+
+    if (sample.timestamp - phase.stillSince >= this.config.stillnessDurationMs) {
+      const detection: FallDetection = {
+        impactAt: phase.impactAt,
+        detectedAt: sample.timestamp,
+        peakG: phase.peakG,
+      };
+      this.lastDetectionAt = sample.timestamp;
+      this.reset();
+      return detection;
+    }
+
+    return null;
+  }
+
+  reset(): void {
+    this.phase = { name: 'monitoring' };
+  }
+
+  private isStill(sample: MotionSample, totalG: number): boolean {
+    if (Math.abs(totalG - 1) > this.config.stillnessToleranceG) {
+      return false;
+    }
+
+    return !sample.rotationRate
+      || magnitude(sample.rotationRate) <= this.config.stillnessRotationRadPerSec;
+  }
+
+  private isCoolingDown(timestamp: number): boolean {
+    return this.lastDetectionAt !== null && timestamp - this.lastDetectionAt < this.config.cooldownMs;
+  }
+}
+
+/**
+ * Run a recorded trace through a fresh detector.
+ */
+export const detectFalls = (
+  samples: MotionSample[],
+  config: Partial<FallDetectorConfig> = {}
+): FallDetection[] => {
+  const detector = new FallDetector(config);
+  return samples
+    .map(sample => detector.addSample(sample))
+    .filter((detection): detection is FallDetection => detection !== null);
+};
@@ -0,0 +1,212 @@
+import {
+  AuditEntry,
+  EmergencyContact,
+  EmergencySession,
+  IncidentContactOutcome,
+  IncidentPhase,
+  IncidentTimeline,
+  IncidentTimelineEntry,
+  LocationBreadcrumb,
+} from '../types/accessibility';
+import { DURESS_AUDIT_ACTION } from './CancellationPinService';
+import { CONTACT_PROGRESS_LABELS } from './ContactAcknowledgements';
+
+/**
+ * Pure rules for turning a session's audit log into a reviewable incident
+ * timeline. Nothing here touches storage or native modules.
+ */
+
+const ACTION_LABELS: Record<string, string> = {
+  emergency_initiated: 'Emergency started',
+  emergency_confirmed: 'Emergency confirmed',
+  contacts_notified: 'Contacts alerted',
+  contact_notification_failed: 'Contact alert failed',
+  contact_channel_sent: 'Alert delivered',
+  contact_channel_failed: 'Alert not delivered',
+  contact_channel_cancelled: 'Alert closed without sending',
+  medical_data_disclosed: 'Medical details shared',
+  notification_queued: 'Message queued to retry',
+  notification_retry_sent: 'Queued message sent',
+  notification_retry_failed: 'Retry failed',
+  notification_expired: 'Queued message given up',
+  notification_dropped: 'Queued message no longer needed',
+  emergency_number_resolved: 'Emergency number found',
+  escalation_stage_notified: 'Escalated',
+  escalation_stage_skipped: 'Escalation step skipped',
+  escalation_paused: 'Escalation paused',
+  escalation_emergency_services_prompted: 'Prompted to call emergency services',
+  escalation_acknowledged: 'Contact responding',
+  contact_alert_delivered: 'Alert reached phone',
+  contact_acknowledged: 'Contact saw the alert',
+  contact_en_route: 'Contact on the way',
+  location_update_sent: 'Location update sent',
+  emergency_services_call_attempted: 'Emergency services called',
+  emergency_follow_up: 'Moved to follow-up',
+  emergency_resumed: 'Emergency resumed',
+  emergency_completed: 'Emergency completed',
+  emergency_cancelled: 'Emergency cancelled',
+  stand_down_sent: 'All-clear sent',
+  stand_down_failed: 'All-clear failed',
+  stand_down_skipped: 'All-clear not sent',
+  cancellation_pin_rejected: 'Incorrect cancellation PIN',
+};
+
+// Entries where the position at the time is worth showing
+const LOCATION_ACTIONS = ['emergency_confirmed', 'location_update_sent', 'emergency_services_call_attempted'];
+
+const labelFor = (action: string): string => {
+  if (ACTION_LABELS[action]) return ACTION_LABELS[action];
+  const words = action.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const timeOf = (timestamp: string): number => new Date(timestamp).getTime();
+
+/**
+ * "5 sec", "3 min 20 sec" or "1 hr 5 min"; written out so it reads well aloud.
+ */
+export const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return minutes > 0 ? `${hours} hr ${minutes} min` : `${hours} hr`;
+  if (minutes > 0) return seconds > 0 ? `${minutes} min ${seconds} sec` : `${minutes} min`;
+  return `${seconds} sec`;
+};
+
+export const formatLocationSnapshot = (location: LocationBreadcrumb): string =>
+  `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)} (±${Math.round(location.accuracy)}m)`;
+
+/**
+ * Last known position at a point in the incident. The confirmed location is
+ * used until the first breadcrumb is recorded.
+ */
+const locationAt = (session: EmergencySession, timestamp: string): LocationBreadcrumb | undefined => {
+  const at = timeOf(timestamp);
+  const breadcrumbs = (session.breadcrumbs || []).filter(crumb => timeOf(crumb.timestamp) <= at);
+  if (breadcrumbs.length > 0) {
+    return breadcrumbs[breadcrumbs.length - 1];
+  }
+  return session.location;
+};
+
+// Names listed by the escalation ("... (Ann, Bob)") and all-clear ("...: Ann, Bob") entries
+const namesIn = (details: string | undefined, pattern: RegExp): string[] => {
+  const match = details?.match(pattern);
+  if (!match) return [];
+  return match[1].split(', ').map(name => name.trim()).filter(name => name && name !== 'none');
+};
+
+const buildContactOutcomes = (
+  session: EmergencySession,
+  auditLog: AuditEntry[],
+  profileContacts: EmergencyContact[]
+): IncidentContactOutcome[] => {
+  const initialAlert = auditLog.find(entry => entry.action === 'contacts_notified');
+  const escalations = auditLog.filter(entry => entry.action === 'escalation_stage_notified');
+  const allClearNames = auditLog
+    .filter(entry => entry.action === 'stand_down_sent')
+    .flatMap(entry => namesIn(entry.details, /:\s(.*)$/));
+
+  const names = [
+    ...session.contactsNotified,
+    ...profileContacts.map(contact => contact.name).filter(name => !session.contactsNotified.includes(name)),
+  ];
+
+  return names.map(name => {
+    const alerted = session.contactsNotified.includes(name);
+    const escalation = escalations.find(entry => namesIn(entry.details, /\(([^)]*)\)$/).includes(name));
+
+    return {
+      name,
+      alertedAt: alerted ? (escalation || initialAlert)?.timestamp : undefined,
+      alertedBy: alerted
+        ? escalation ? `Escalation to ${escalation.details?.split(':')[0].toLowerCase()}` : 'Initial alert'
+        : undefined,
+      progress: session.contactStatuses?.find(status => status.contactName === name)?.status,
+      allClearSent: allClearNames.includes(name),
+    };
+  });
+};
+
+const buildPhases = (session: EmergencySession, auditLog: AuditEntry[], now: Date): IncidentPhase[] => {
+  const start = timeOf(session.startTime);
+  const first = (...actions: string[]) => auditLog.find(entry => actions.includes(entry.action));
+  const phases: IncidentPhase[] = [];
+
+  const addPhase = (label: string, entry: AuditEntry | undefined) => {
+    if (entry) {
+      phases.push({ label, durationMs: timeOf(entry.timestamp) - start });
+    }
+  };
+
+  addPhase('Time to confirm', first('emergency_confirmed'));
+  addPhase('Time to alert contacts', first('contacts_notified'));
+  addPhase(
+    'Time until a contact responded',
+    first('escalation_acknowledged', 'contact_acknowledged', 'contact_en_route')
+  );
+
+  const closed = first('emergency_completed', 'emergency_cancelled');
+  if (closed) {
+    addPhase('Total duration', closed);
+  } else {
+    phases.push({ label: 'Time so far', durationMs: now.getTime() - start });
+  }
+
+  return phases;
+};
+
+/**
+ * Build the timeline for a session. Contacts from the profile who were never
+ * alerted are listed too, so gaps are visible.
+ */
+export const buildIncidentTimeline = (
+  session: EmergencySession,
+  profileContacts: EmergencyContact[] = [],
+  now: Date = new Date()
+): IncidentTimeline => {
+  // Duress entries stay in the stored log but are never shown on the device
+  const auditLog = session.auditLog
+    .filter(entry => entry.action !== DURESS_AUDIT_ACTION)
+    .sort((a, b) => timeOf(a.timestamp) - timeOf(b.timestamp));
+  const start = timeOf(session.startTime);
+
+  const entries: IncidentTimelineEntry[] = auditLog.map(entry => ({
+    timestamp: entry.timestamp,
+    action: entry.action,
+    label: labelFor(entry.action),
+    details: entry.details,
+    elapsedMs: Math.max(0, timeOf(entry.timestamp) - start),
+    location: LOCATION_ACTIONS.includes(entry.action) ? locationAt(session, entry.timestamp) : undefined,
+  }));
+
+  return {
+    entries,
+    phases: buildPhases(session, auditLog, now),
+    contacts: buildContactOutcomes(session, auditLog, profileContacts),
+  };
+};
+
+export const describeContactOutcome = (contact: IncidentContactOutcome): string => {
+  if (!contact.alertedBy) return 'Not alerted';
+  return `Alerted (${contact.alertedBy})`
+    + (contact.progress && contact.progress !== 'sent' ? `, ${CONTACT_PROGRESS_LABELS[contact.progress].toLowerCase()}` : '')
+    + (contact.allClearSent ? ', all-clear sent' : '');
+};
+
+/**
+ * The whole timeline as sentences, in reading order, for screen readers.
+ */
+export const describeIncidentTimeline = (timeline: IncidentTimeline): string[] => [
+  `Incident timeline with ${timeline.entries.length} ${timeline.entries.length === 1 ? 'event' : 'events'}.`,
+  ...timeline.entries.map(entry =>
+    `${entry.elapsedMs === 0 ? 'At the start' : `${formatDuration(entry.elapsedMs)} in`}: ${entry.label}.`
+      + (entry.details ? ` ${entry.details}.` : '')
+      + (entry.location ? ` Location ${formatLocationSnapshot(entry.location)}.` : '')
+  ),
+  ...timeline.phases.map(phase => `${phase.label}: ${formatDuration(phase.durationMs)}.`),
+  ...timeline.contacts.map(contact => `${contact.name}: ${describeContactOutcome(contact)}.`),
+];
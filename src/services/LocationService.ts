@@ -8,6 +8,14 @@ export interface LocationData {
   timestamp: string;
 }
 
+export type LocationTrackingMode = 'high' | 'balanced' | 'low_power';
+
+const TRACKING_OPTIONS: Record<LocationTrackingMode, Location.LocationOptions> = {
+  high: { accuracy: Location.Accuracy.High, timeInterval: 10000, distanceInterval: 10 },
+  balanced: { accuracy: Location.Accuracy.Balanced, timeInterval: 30000, distanceInterval: 25 },
+  low_power: { accuracy: Location.Accuracy.Low, timeInterval: 120000, distanceInterval: 100 },
+};
+
 export class LocationService {
   private static hasPermission = false;
 
@@ -181,6 +189,42 @@ export class LocationService {
     }
   }
 
+  /**
+   * Watch position for live emergency tracking. Lower modes trade accuracy
+   * and update frequency for battery. Returns null when tracking cannot start.
+   */
+  static async watchEmergencyLocation(
+    mode: LocationTrackingMode,
+    onLocation: (location: LocationData) => void
+  ): Promise<Location.LocationSubscription | null> {
+    try {
+      const hasPermission = await this.checkPermissions();
+      if (!hasPermission) {
+        return null;
+      }
+
+      const subscription = await Location.watchPositionAsync(TRACKING_OPTIONS[mode], position => {
+        onLocation({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy || 0,
+          timestamp: new Date(position.timestamp).toISOString()
+        });
+      });
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'emergency_location_tracking_started',
+        details: `Live location tracking started in ${mode} mode`
+      });
+
+      return subscription;
+    } catch (error) {
+      console.error('Failed to start location tracking:', error);
+      return null;
+    }
+  }
+
   static formatLocationForSharing(location: LocationData): string {
     const { latitude, longitude, accuracy } = location;
     return `Location: ${latitude.toFixed(6)}, ${longitude.toFixed(6)} (±${Math.round(accuracy)}m)`;
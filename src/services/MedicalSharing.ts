@@ -0,0 +1,113 @@
+import {
+  AuditEntry,
+  ContactDispatchResult,
+  EmergencyContact,
+  MedicalProfile,
+  MedicalSharingLevel,
+  SharedMedicalField,
+} from '../types/accessibility';
+
+/**
+ * Pure rules for how much of the medical profile each contact is sent.
+ * Nothing here touches storage or native modules.
+ */
+
+export const DEFAULT_SHARING_LEVEL: MedicalSharingLevel = 'full';
+
+export const MEDICAL_SHARING_LABELS: Record<MedicalSharingLevel, string> = {
+  location_only: 'Location only',
+  basic: 'Basic (blood type and allergies)',
+  full: 'Full medical details',
+};
+
+export const SHARED_FIELD_LABELS: Record<SharedMedicalField, string> = {
+  blood_type: 'Blood type',
+  allergies: 'Allergies',
+  medications: 'Medications',
+  conditions: 'Conditions',
+};
+
+export const SHARED_FIELDS: SharedMedicalField[] = ['blood_type', 'allergies', 'medications', 'conditions'];
+
+// Basic covers what a first responder needs before treating someone
+export const SHARING_LEVEL_FIELDS: Record<MedicalSharingLevel, SharedMedicalField[]> = {
+  location_only: [],
+  basic: ['blood_type', 'allergies'],
+  full: SHARED_FIELDS,
+};
+
+export const sharedMedicalFields = (contact: Pick<EmergencyContact, 'sharingLevel' | 'sharedFields'>): SharedMedicalField[] =>
+  contact.sharedFields
+    ? SHARED_FIELDS.filter(field => contact.sharedFields!.includes(field))
+    : SHARING_LEVEL_FIELDS[contact.sharingLevel || DEFAULT_SHARING_LEVEL];
+
+/**
+ * The level a set of fields matches, or null when they were picked one by
+ * one and match no level.
+ */
+export const matchingSharingLevel = (fields: SharedMedicalField[]): MedicalSharingLevel | null =>
+  (Object.keys(SHARING_LEVEL_FIELDS) as MedicalSharingLevel[]).find(level => {
+    const levelFields = SHARING_LEVEL_FIELDS[level];
+    return levelFields.length === fields.length && levelFields.every(field => fields.includes(field));
+  }) || null;
+
+export const describeSharedFields = (fields: SharedMedicalField[]): string => {
+  const level = matchingSharingLevel(fields);
+  if (level) return MEDICAL_SHARING_LABELS[level];
+  return fields.map(field => SHARED_FIELD_LABELS[field]).join(', ');
+};
+
+/**
+ * The profile as one contact may see it: fields they are not sent are
+ * emptied, so no message or channel can include them by mistake.
+ */
+export const redactMedicalProfile = (
+  medicalProfile: MedicalProfile,
+  fields: SharedMedicalField[]
+): MedicalProfile => ({
+  ...medicalProfile,
+  personalInfo: {
+    ...medicalProfile.personalInfo,
+    bloodType: fields.includes('blood_type') ? medicalProfile.personalInfo.bloodType : undefined,
+    allergies: fields.includes('allergies') ? medicalProfile.personalInfo.allergies : [],
+    medications: fields.includes('medications') ? medicalProfile.personalInfo.medications : [],
+  },
+  medicalConditions: fields.includes('conditions') ? medicalProfile.medicalConditions : [],
+  additionalNotes: '',
+});
+
+// Only fields that had something in them were actually disclosed
+export const disclosedMedicalFields = (
+  medicalProfile: MedicalProfile,
+  fields: SharedMedicalField[]
+): SharedMedicalField[] => {
+  const { bloodType, allergies, medications } = medicalProfile.personalInfo;
+  const hasValue: Record<SharedMedicalField, boolean> = {
+    blood_type: Boolean(bloodType),
+    allergies: allergies.length > 0,
+    medications: medications.length > 0,
+    conditions: medicalProfile.medicalConditions.length > 0,
+  };
+  return fields.filter(field => hasValue[field]);
+};
+
+export const describeDisclosure = (contactName: string, fields: SharedMedicalField[]): string =>
+  fields.length > 0
+    ? `Shared ${fields.map(field => SHARED_FIELD_LABELS[field].toLowerCase()).join(', ')} with ${contactName}`
+    : `Shared location only with ${contactName}`;
+
+/**
+ * One session audit entry per contact whose alert got through, recording
+ * exactly which medical details they were given.
+ */
+export const disclosureAuditEntries = (
+  results: ContactDispatchResult[],
+  timestamp: string = new Date().toISOString()
+): AuditEntry[] =>
+  results
+    .filter(result => result.delivered && result.disclosedFields)
+    .map(result => ({
+      timestamp,
+      action: 'medical_data_disclosed',
+      details: describeDisclosure(result.contactName, result.disclosedFields!),
+    }));
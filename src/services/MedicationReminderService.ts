@@ -3,6 +3,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { MedicationReminder, MedicationFrequency } from '../types/accessibility';
 import { SecureStorage } from './SecureStorage';
 
+// Notification category carrying the Taken, Snooze and Skip buttons
+export const MEDICATION_NOTIFICATION_CATEGORY = 'medication_reminder';
+
 export class MedicationReminderService {
   private static readonly STORAGE_KEY = 'medication_reminders';
   private static readonly SETTINGS_KEY = 'medication_settings';
@@ -220,17 +223,7 @@ export class MedicationReminderService {
           
           await Notifications.scheduleNotificationAsync({
             identifier: `${reminder.id}_${day}_${timeString}`,
-            content: {
-              title: 'Medication Reminder',
-              body: `Time to take ${reminder.medicationName} (${reminder.dosage})`,
-              data: {
-                reminderId: reminder.id,
-                medicationName: reminder.medicationName,
-                dosage: reminder.dosage,
-                time: timeString
-              },
-              sound: 'default',
-            },
+            content: this.buildNotificationContent(reminder, timeString),
             trigger: { 
               type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
               seconds: Math.max(1, Math.floor((notificationDate.getTime() - Date.now()) / 1000))
@@ -249,6 +242,57 @@ export class MedicationReminderService {
     }
   }
 
+  /**
+   * Remind again after a delay. The identifier keeps the reminder prefix so
+   * editing or deleting the reminder also cancels the snoozed notification.
+   */
+  static async snoozeDose(reminderId: string, time: string, minutes: number): Promise<boolean> {
+    try {
+      const reminders = await this.getAllReminders();
+      const reminder = reminders.find(r => r.id === reminderId);
+      if (!reminder) return false;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${reminder.id}_snooze_${Date.now()}`,
+        content: this.buildNotificationContent(reminder, time),
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: minutes * 60
+        },
+      });
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'medication_dose_snoozed',
+        details: `Snoozed ${reminder.medicationName} dose for ${minutes} minutes`
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to snooze dose:', error);
+      return false;
+    }
+  }
+
+  private static buildNotificationContent(
+    reminder: MedicationReminder,
+    timeString: string
+  ): Notifications.NotificationContentInput {
+    return {
+      title: 'Medication Reminder',
+      body: `Time to take ${reminder.medicationName} (${reminder.dosage})`,
+      data: {
+        type: 'medication',
+        reminderId: reminder.id,
+        medicationName: reminder.medicationName,
+        dosage: reminder.dosage,
+        time: timeString
+      },
+      categoryIdentifier: MEDICATION_NOTIFICATION_CATEGORY,
+      sound: 'default',
+    };
+  }
+
   private static async cancelNotificationsForReminder(reminderId: string): Promise<void> {
     try {
       const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
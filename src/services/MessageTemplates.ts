@@ -0,0 +1,614 @@
+import {
+  EmergencyCategory,
+  EmergencySession,
+  MedicalProfile,
+  MessageLanguage,
+} from '../types/accessibility';
+import { EMERGENCY_CATEGORIES } from './EmergencyCategories';
+import { SmsSegmentInfo, countSegments, normaliseForSms } from './SmsSegments';
+import appConfig from '../../app.json';
+
+/**
+ * Pure rules for writing contact messages from named templates, in the
+ * contact's language and within a text message budget. Nothing here touches
+ * storage or native modules.
+ */
+
+export type MessageTemplateName =
+  | 'emergency_alert'
+  | 'fall_alert'
+  | 'missed_check_in_alert'
+  | 'silent_alert'
+  | 'location_update'
+  | 'duress_alert'
+  | 'stand_down_completed'
+  | 'stand_down_cancelled'
+  | 'contact_verification';
+
+export type MessageSectionKey =
+  | 'headline'
+  | 'situation'
+  | 'warning'
+  | 'location'
+  | 'map'
+  | 'allergies'
+  | 'reply'
+  | 'blood_type'
+  | 'conditions'
+  | 'medications'
+  | 'guidance'
+  | 'note'
+  | 'time'
+  | 'reference'
+  | 'footer';
+
+export const MESSAGE_SECTION_LABELS: Record<MessageSectionKey, string> = {
+  headline: 'Headline',
+  situation: 'What happened',
+  warning: 'Warning',
+  location: 'Location',
+  map: 'Map link',
+  allergies: 'Allergies',
+  reply: 'Reply instructions',
+  blood_type: 'Blood type',
+  conditions: 'Conditions',
+  medications: 'Medications',
+  guidance: 'What to do',
+  note: 'Note',
+  time: 'Time',
+  reference: 'Emergency ID',
+  footer: 'Sender',
+};
+
+export const MESSAGE_LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  en: 'English',
+  it: 'Italiano',
+};
+
+export const DEFAULT_MESSAGE_LANGUAGE: MessageLanguage = 'en';
+
+// Contacts see the app's own name as the sender of every message
+export const SENDER_NAME: string = appConfig.expo.name;
+
+// Three concatenated texts: 459 GSM-7 or 201 UCS-2 characters
+export const DEFAULT_MAX_SEGMENTS = 3;
+
+interface TemplateSection {
+  key: MessageSectionKey;
+  text: string;
+  // Used when a value in `text` is missing; otherwise the section is left out
+  fallback?: string;
+  // Lower numbers are kept longest; 0 is never left out
+  priority: number;
+}
+
+interface MessageTemplate {
+  subject: string;
+  sections: TemplateSection[];
+}
+
+interface CategoryWording {
+  label: string;
+  // Completes "<name> has reported ..."
+  summary: string;
+  guidance: string;
+}
+
+interface LanguageWording {
+  alertHeadline: string;
+  silentHeadline: string;
+  alertSubject: string;
+  reported: string;
+  fallDetected: string;
+  missedCheckIn: string;
+  silentWarning: string;
+  location: string;
+  locationUnavailable: string;
+  map: string;
+  allergies: string;
+  reply: string;
+  bloodType: string;
+  conditions: string;
+  medications: string;
+  time: string;
+  reference: string;
+  footer: string;
+  locationUpdateHeadline: string;
+  locationUpdateSubject: string;
+  moved: string;
+  updated: string;
+  duressHeadline: string;
+  duressSubject: string;
+  duressSituation: string;
+  duressWarning: string;
+  allClearHeadline: string;
+  allClearSubject: string;
+  resolved: string;
+  cancelled: string;
+  note: string;
+  verificationHeadline: string;
+  verificationSubject: string;
+  verificationSituation: string;
+  verificationReply: string;
+  // "+2 more" when a list is shortened to fit
+  moreItems: string;
+  categories: Record<EmergencyCategory, CategoryWording>;
+}
+
+const englishCategories = (): Record<EmergencyCategory, CategoryWording> => {
+  const categories = {} as Record<EmergencyCategory, CategoryWording>;
+  (Object.keys(EMERGENCY_CATEGORIES) as EmergencyCategory[]).forEach(category => {
+    const details = EMERGENCY_CATEGORIES[category];
+    categories[category] = {
+      label: details.label,
+      summary: details.alertSummary,
+      guidance: details.contactGuidance,
+    };
+  });
+  return categories;
+};
+
+// Plain text only: one emoji or curly quote turns the whole message into
+// UCS-2 and more than halves what fits in each text
+const WORDING: Record<MessageLanguage, LanguageWording> = {
+  en: {
+    alertHeadline: 'EMERGENCY ALERT: {category}',
+    silentHeadline: 'SILENT ALARM: {category}',
+    alertSubject: 'Emergency alert for {name}',
+    reported: '{name} has reported {summary}.',
+    fallDetected: 'A fall was detected on {name}\'s phone and they did not cancel the alert.',
+    missedCheckIn: '{name} missed a scheduled check-in and did not respond to reminders.',
+    silentWarning: 'They may not be able to talk safely. Do not call or text back - contact police.',
+    location: 'Location: {location} (within {accuracy}m)',
+    locationUnavailable: 'Location: unavailable',
+    map: 'Map: {mapUrl}',
+    allergies: 'ALLERGIES: {allergies}',
+    reply: 'Reply "OK {replyCode}" when you see this, or "OMW {replyCode}" when you are on your way.',
+    bloodType: 'Blood type: {bloodType}',
+    conditions: 'Conditions: {conditions}',
+    medications: 'Medications: {medications}',
+    time: 'Time: {time}',
+    reference: 'Emergency ID: {reference}',
+    footer: 'Automated message from {appName}.',
+    locationUpdateHeadline: 'EMERGENCY LOCATION UPDATE',
+    locationUpdateSubject: 'Location update for {name}',
+    moved: '{name} has moved since the emergency alert.',
+    updated: 'Updated: {time}',
+    duressHeadline: 'CODE RED - {firstNameUpper} IS NOT SAFE',
+    duressSubject: 'CODE RED - {name}',
+    duressSituation: '{name} was forced to cancel their emergency alert and may be with the person threatening them.',
+    duressWarning: 'Do not call or text back - contact police now.',
+    allClearHeadline: 'ALL CLEAR',
+    allClearSubject: 'All clear for {name}',
+    resolved: '{name} has marked the emergency that started at {startTime} as resolved.',
+    cancelled: '{name} has cancelled the emergency alert sent at {startTime}. No help is needed.',
+    note: 'Note from {firstName}: {note}',
+    verificationHeadline: 'TEST ONLY - NOT AN EMERGENCY',
+    verificationSubject: 'Test message from {name}',
+    verificationSituation: '{name} has made you an emergency contact. If they ever need help, their alerts will come to this number.',
+    verificationReply: 'Please reply "OK {replyCode}" so they know this number works.',
+    moreItems: '+{count} more',
+    categories: englishCategories(),
+  },
+  it: {
+    alertHeadline: 'ALLARME EMERGENZA: {category}',
+    silentHeadline: 'ALLARME SILENZIOSO: {category}',
+    alertSubject: 'Allarme emergenza per {name}',
+    reported: '{name} ha segnalato {summary}.',
+    fallDetected: 'Il telefono di {name} ha rilevato una caduta e l\'allarme non è stato annullato.',
+    missedCheckIn: '{name} ha saltato un controllo programmato e non ha risposto ai promemoria.',
+    silentWarning: 'Potrebbe non poter parlare in sicurezza. Non chiamare né scrivere: contatta la polizia.',
+    location: 'Posizione: {location} (entro {accuracy}m)',
+    locationUnavailable: 'Posizione: non disponibile',
+    map: 'Mappa: {mapUrl}',
+    allergies: 'ALLERGIE: {allergies}',
+    reply: 'Rispondi "OK {replyCode}" quando leggi, oppure "ARRIVO {replyCode}" quando sei in viaggio.',
+    bloodType: 'Gruppo sanguigno: {bloodType}',
+    conditions: 'Patologie: {conditions}',
+    medications: 'Farmaci: {medications}',
+    time: 'Ora: {time}',
+    reference: 'ID emergenza: {reference}',
+    footer: 'Messaggio automatico da {appName}.',
+    locationUpdateHeadline: 'AGGIORNAMENTO POSIZIONE',
+    locationUpdateSubject: 'Aggiornamento posizione per {name}',
+    moved: '{name} ha cambiato posizione dopo l\'allarme.',
+    updated: 'Aggiornato: {time}',
+    duressHeadline: 'CODICE ROSSO - {firstNameUpper} IN PERICOLO',
+    duressSubject: 'CODICE ROSSO - {name}',
+    duressSituation: '{name} ha dovuto annullare l\'allarme sotto minaccia e potrebbe essere con chi lo minaccia.',
+    duressWarning: 'Non chiamare né scrivere: contatta subito la polizia.',
+    allClearHeadline: 'CESSATO ALLARME',
+    allClearSubject: 'Cessato allarme per {name}',
+    resolved: '{name} ha segnato come risolta l\'emergenza iniziata alle {startTime}.',
+    cancelled: '{name} ha annullato l\'allarme inviato alle {startTime}. Non serve aiuto.',
+    note: 'Nota da {firstName}: {note}',
+    verificationHeadline: 'SOLO UNA PROVA - NESSUNA EMERGENZA',
+    verificationSubject: 'Messaggio di prova da {name}',
+    verificationSituation: '{name} ti ha scelto come contatto di emergenza. Se avrà bisogno di aiuto, gli allarmi arriveranno a questo numero.',
+    verificationReply: 'Rispondi "OK {replyCode}" per confermare che questo numero funziona.',
+    moreItems: '+{count} altri',
+    categories: {
+      medical: {
+        label: 'Emergenza medica',
+        summary: 'un\'emergenza medica',
+        guidance: 'Controlla come sta e chiama i soccorsi se non risponde.',
+      },
+      fall: {
+        label: 'Caduta',
+        summary: 'una caduta',
+        guidance: 'Potrebbe non riuscire ad alzarsi. Vai sul posto o chiama i soccorsi se non risponde.',
+      },
+      chest_pain: {
+        label: 'Dolore al petto',
+        summary: 'dolore al petto',
+        guidance: 'Il dolore al petto può essere un infarto. Chiama subito i soccorsi, poi prova a contattarlo.',
+      },
+      breathing_difficulty: {
+        label: 'Difficoltà respiratorie',
+        summary: 'difficoltà a respirare',
+        guidance: 'Potrebbe non riuscire a parlare al telefono. Chiama subito i soccorsi, poi prova a contattarlo.',
+      },
+      personal_safety: {
+        label: 'Sicurezza personale',
+        summary: 'di non sentirsi al sicuro',
+        guidance: 'Non andare da solo. Contatta la polizia se non risponde.',
+      },
+      fire: {
+        label: 'Incendio',
+        summary: 'un incendio',
+        guidance: 'Chiama subito i vigili del fuoco. Non entrare nell\'edificio.',
+      },
+      missed_check_in: {
+        label: 'Controllo saltato',
+        summary: 'un controllo saltato',
+        guidance: 'Controlla come sta e chiama i soccorsi se non risponde.',
+      },
+    },
+  },
+};
+
+/**
+ * Every template for one language. Location and allergies outrank everything
+ * but the headline, so they survive when the message has to be cut down.
+ */
+const buildTemplates = (w: LanguageWording): Record<MessageTemplateName, MessageTemplate> => {
+  const alert = (headline: string, situation: string, silent: boolean): MessageTemplate => ({
+    subject: w.alertSubject,
+    sections: [
+      { key: 'headline', text: headline, priority: 0 },
+      { key: 'situation', text: situation, priority: 0 },
+      ...(silent ? [{ key: 'warning' as const, text: w.silentWarning, priority: 0 }] : []),
+      { key: 'location', text: w.location, fallback: w.locationUnavailable, priority: 1 },
+      { key: 'map', text: w.map, priority: 1 },
+      { key: 'allergies', text: w.allergies, priority: 2 },
+      // A reply to a silent alarm could give the person away
+      ...(silent ? [] : [{ key: 'reply' as const, text: w.reply, priority: 3 }]),
+      { key: 'blood_type', text: w.bloodType, priority: 4 },
+      { key: 'conditions', text: w.conditions, priority: 6 },
+      { key: 'medications', text: w.medications, priority: 7 },
+      // Kept over the lists: for chest pain it says to call an ambulance first
+      { key: 'guidance', text: '{guidance}', priority: 5 },
+      { key: 'time', text: w.time, priority: 8 },
+      { key: 'reference', text: w.reference, priority: 9 },
+      { key: 'footer', text: w.footer, priority: 10 },
+    ],
+  });
+
+  const allClear = (situation: string): MessageTemplate => ({
+    subject: w.allClearSubject,
+    sections: [
+      { key: 'headline', text: w.allClearHeadline, priority: 0 },
+      { key: 'situation', text: situation, priority: 0 },
+      { key: 'note', text: w.note, priority: 1 },
+      { key: 'time', text: w.time, priority: 2 },
+      { key: 'reference', text: w.reference, priority: 3 },
+      { key: 'footer', text: w.footer, priority: 4 },
+    ],
+  });
+
+  return {
+    emergency_alert: alert(w.alertHeadline, w.reported, false),
+    fall_alert: alert(w.alertHeadline, w.fallDetected, false),
+    missed_check_in_alert: alert(w.alertHeadline, w.missedCheckIn, false),
+    silent_alert: alert(w.silentHeadline, w.reported, true),
+    location_update: {
+      subject: w.locationUpdateSubject,
+      sections: [
+        { key: 'headline', text: w.locationUpdateHeadline, priority: 0 },
+        { key: 'situation', text: w.moved, priority: 0 },
+        { key: 'location', text: w.location, priority: 0 },
+        { key: 'map', text: w.map, priority: 1 },
+        { key: 'time', text: w.updated, priority: 2 },
+        { key: 'reference', text: w.reference, priority: 3 },
+        { key: 'footer', text: w.footer, priority: 4 },
+      ],
+    },
+    duress_alert: {
+      subject: w.duressSubject,
+      sections: [
+        { key: 'headline', text: w.duressHeadline, priority: 0 },
+        { key: 'situation', text: w.duressSituation, priority: 0 },
+        { key: 'warning', text: w.duressWarning, priority: 0 },
+        { key: 'location', text: w.location, priority: 1 },
+        { key: 'map', text: w.map, priority: 1 },
+        { key: 'time', text: w.time, priority: 2 },
+        { key: 'reference', text: w.reference, priority: 3 },
+        { key: 'footer', text: w.footer, priority: 4 },
+      ],
+    },
+    stand_down_completed: allClear(w.resolved),
+    stand_down_cancelled: allClear(w.cancelled),
+    // Says it is a test before anything else, so nobody mistakes it for an alert
+    contact_verification: {
+      subject: w.verificationSubject,
+      sections: [
+        { key: 'headline', text: w.verificationHeadline, priority: 0 },
+        { key: 'situation', text: w.verificationSituation, priority: 0 },
+        { key: 'reply', text: w.verificationReply, priority: 0 },
+        { key: 'footer', text: w.footer, priority: 1 },
+      ],
+    },
+  };
+};
+
+const TEMPLATES: Record<MessageLanguage, Record<MessageTemplateName, MessageTemplate>> = {
+  en: buildTemplates(WORDING.en),
+  it: buildTemplates(WORDING.it),
+};
+
+export type MessageValues = Record<string, string | string[] | undefined>;
+
+export interface ComposedMessage {
+  subject: string;
+  text: string;
+  segmentInfo: SmsSegmentInfo;
+  // Sections left out or cut short to fit the budget, most important last
+  omitted: MessageSectionKey[];
+  shortened: MessageSectionKey[];
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+interface RenderedSection {
+  section: TemplateSection;
+  text: string;
+  // How many items of each list value are shown
+  listLimits: Record<string, number>;
+}
+
+const fill = (
+  text: string,
+  values: MessageValues,
+  listLimits: Record<string, number>,
+  moreItems: string
+): string | null => {
+  let isMissing = false;
+  const filled = text.replace(PLACEHOLDER, (_, key: string) => {
+    const value = values[key];
+    if (Array.isArray(value)) {
+      const items = value.filter(Boolean);
+      if (items.length === 0) {
+        isMissing = true;
+        return '';
+      }
+      const limit = listLimits[key] ?? items.length;
+      const hidden = items.length - limit;
+      return items.slice(0, limit).join(', ')
+        + (hidden > 0 ? ` ${moreItems.replace('{count}', String(hidden))}` : '');
+    }
+    if (!value) {
+      isMissing = true;
+      return '';
+    }
+    return value;
+  });
+  return isMissing ? null : normaliseForSms(filled);
+};
+
+const listKeysIn = (text: string, values: MessageValues): string[] =>
+  Array.from(text.matchAll(PLACEHOLDER), match => match[1]).filter(key => Array.isArray(values[key]));
+
+/**
+ * Fill a template and fit it into `maxSegments` texts. The least important
+ * sections go first; a list is cut down to its first items before the whole
+ * section is dropped. Sections with priority 0 are always kept, so a message
+ * can still run over when those alone are too long.
+ */
+export const composeMessage = (
+  name: MessageTemplateName,
+  language: MessageLanguage,
+  values: MessageValues,
+  maxSegments: number = DEFAULT_MAX_SEGMENTS
+): ComposedMessage => {
+  const template = TEMPLATES[language][name];
+  const { moreItems } = WORDING[language];
+
+  const render = (section: TemplateSection, listLimits: Record<string, number>): string | null =>
+    fill(section.text, values, listLimits, moreItems)
+      ?? (section.fallback ? fill(section.fallback, values, listLimits, moreItems) : null);
+
+  let kept: RenderedSection[] = template.sections
+    .map(section => ({ section, listLimits: {}, text: render(section, {}) }))
+    .filter((entry): entry is RenderedSection => entry.text !== null);
+  const omitted: MessageSectionKey[] = [];
+  const shortened: MessageSectionKey[] = [];
+  const join = () => kept.map(entry => entry.text).join('\n');
+
+  while (countSegments(join()).segments > maxSegments) {
+    const candidates = kept.filter(entry => entry.section.priority > 0);
+    if (candidates.length === 0) break;
+
+    // Least important, and latest in the message among equals
+    const target = candidates.reduce((least, entry) =>
+      entry.section.priority >= least.section.priority ? entry : least
+    );
+
+    const listKey = listKeysIn(target.section.text, values).find(key => {
+      const items = (values[key] as string[]).filter(Boolean);
+      return (target.listLimits[key] ?? items.length) > 1;
+    });
+
+    if (listKey) {
+      const items = (values[listKey] as string[]).filter(Boolean);
+      const listLimits = { ...target.listLimits, [listKey]: (target.listLimits[listKey] ?? items.length) - 1 };
+      kept = kept.map(entry => entry === target
+        ? { ...entry, listLimits, text: render(entry.section, listLimits)! }
+        : entry
+      );
+      if (!shortened.includes(target.section.key)) shortened.push(target.section.key);
+    } else {
+      kept = kept.filter(entry => entry !== target);
+      omitted.push(target.section.key);
+    }
+  }
+
+  const text = join();
+  return {
+    subject: normaliseForSms(fill(template.subject, values, {}, moreItems) || template.subject),
+    text,
+    segmentInfo: countSegments(text),
+    omitted,
+    shortened: shortened.filter(key => !omitted.includes(key)),
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * "19/10/2026 14:05". Locale formatting can add narrow spaces or AM/PM
+ * markers that push the message into UCS-2, so the format is fixed.
+ */
+export const formatMessageTime = (timestamp: string | Date): string => {
+  const date = new Date(timestamp);
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export interface MessageLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp?: string;
+}
+
+export const selectAlertTemplate = (
+  session: Pick<EmergencySession, 'trigger' | 'emergencyType'>
+): MessageTemplateName => {
+  if (session.emergencyType === 'silent') return 'silent_alert';
+  if (session.trigger === 'fall_detection') return 'fall_alert';
+  if (session.trigger === 'missed_check_in') return 'missed_check_in_alert';
+  return 'emergency_alert';
+};
+
+const profileValues = (medicalProfile: MedicalProfile): MessageValues => {
+  const { firstName, lastName, bloodType, allergies, medications } = medicalProfile.personalInfo;
+  return {
+    name: `${firstName} ${lastName}`.trim(),
+    firstName,
+    firstNameUpper: firstName.toUpperCase(),
+    bloodType,
+    allergies,
+    medications,
+    conditions: medicalProfile.medicalConditions,
+  };
+};
+
+const sessionValues = (
+  session: Pick<EmergencySession, 'id' | 'startTime' | 'category'>,
+  language: MessageLanguage
+): MessageValues => {
+  const category = WORDING[language].categories[session.category || 'medical'];
+  return {
+    reference: session.id,
+    startTime: formatMessageTime(session.startTime),
+    category: category.label.toUpperCase(),
+    summary: category.summary,
+    guidance: category.guidance,
+  };
+};
+
+const locationValues = (location?: MessageLocation): MessageValues => location
+  ? {
+      location: `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`,
+      accuracy: String(Math.round(location.accuracy)),
+      mapUrl: `https://maps.google.com/?q=${location.latitude},${location.longitude}`,
+    }
+  : {};
+
+export interface MessageContext {
+  language: MessageLanguage;
+  appName: string;
+  now?: Date;
+  maxSegments?: number;
+}
+
+type SessionForMessage = Pick<EmergencySession, 'id' | 'startTime' | 'category' | 'trigger' | 'emergencyType'>;
+
+export const composeEmergencyAlert = (
+  medicalProfile: MedicalProfile,
+  session: SessionForMessage,
+  context: MessageContext & { location?: MessageLocation; replyCode?: string }
+): ComposedMessage =>
+  composeMessage(selectAlertTemplate(session), context.language, {
+    ...profileValues(medicalProfile),
+    ...sessionValues(session, context.language),
+    ...locationValues(context.location),
+    replyCode: context.replyCode,
+    time: formatMessageTime(session.startTime),
+    appName: context.appName,
+  }, context.maxSegments);
+
+export const composeLocationUpdate = (
+  medicalProfile: MedicalProfile,
+  session: SessionForMessage,
+  location: MessageLocation,
+  context: MessageContext
+): ComposedMessage =>
+  composeMessage('location_update', context.language, {
+    ...profileValues(medicalProfile),
+    ...sessionValues(session, context.language),
+    ...locationValues(location),
+    time: formatMessageTime(location.timestamp || context.now || new Date()),
+    appName: context.appName,
+  }, context.maxSegments);
+
+export const composeDuressAlert = (
+  medicalProfile: MedicalProfile,
+  session: SessionForMessage,
+  context: MessageContext & { location?: MessageLocation }
+): ComposedMessage =>
+  composeMessage('duress_alert', context.language, {
+    ...profileValues(medicalProfile),
+    ...sessionValues(session, context.language),
+    ...locationValues(context.location),
+    time: formatMessageTime(context.now || new Date()),
+    appName: context.appName,
+  }, context.maxSegments);
+
+export const composeStandDown = (
+  medicalProfile: MedicalProfile,
+  session: SessionForMessage,
+  outcome: 'completed' | 'cancelled',
+  context: MessageContext & { note?: string }
+): ComposedMessage =>
+  composeMessage(outcome === 'cancelled' ? 'stand_down_cancelled' : 'stand_down_completed', context.language, {
+    ...profileValues(medicalProfile),
+    ...sessionValues(session, context.language),
+    note: context.note,
+    time: formatMessageTime(context.now || new Date()),
+    appName: context.appName,
+  }, context.maxSegments);
+
+/**
+ * A test that the contact's number works. It carries no medical details or
+ * location, only the person's name and a reply code.
+ */
+export const composeVerificationTest = (
+  medicalProfile: Pick<MedicalProfile, 'personalInfo'>,
+  context: MessageContext & { replyCode: string }
+): ComposedMessage =>
+  composeMessage('contact_verification', context.language, {
+    name: `${medicalProfile.personalInfo.firstName} ${medicalProfile.personalInfo.lastName}`.trim(),
+    replyCode: context.replyCode,
+    appName: context.appName,
+  }, context.maxSegments);
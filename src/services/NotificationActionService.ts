@@ -0,0 +1,238 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SecureStorage } from './SecureStorage';
+import { MedicationReminderService, MEDICATION_NOTIFICATION_CATEGORY } from './MedicationReminderService';
+
+export const HELP_NOTIFICATION_CATEGORY = 'help_request';
+
+const HELP_NOTIFICATION_ID = 'help_request';
+const SNOOZE_MINUTES = 10;
+
+type NotificationActionId = 'dose_taken' | 'dose_snooze' | 'dose_skip' | 'need_help';
+
+const ACTION_LABELS: Record<NotificationActionId, string> = {
+  dose_taken: 'Taken',
+  dose_snooze: `Snooze ${SNOOZE_MINUTES} min`,
+  dose_skip: 'Skip',
+  need_help: 'I need help',
+};
+
+export type NotificationResponseLaunch = 'cold_start' | 'running';
+
+const launchLabel = (launch: NotificationResponseLaunch): string =>
+  launch === 'cold_start' ? 'app launched from notification' : 'app already running';
+
+export class NotificationActionService {
+  private static readonly HELP_ENABLED_KEY = 'help_notification_enabled';
+
+  /**
+   * Register the button sets shown on our notifications. Every button opens
+   * the app, because responses only reach the listener once the app is running.
+   */
+  static async registerCategories(): Promise<void> {
+    try {
+      await Notifications.setNotificationCategoryAsync(MEDICATION_NOTIFICATION_CATEGORY, [
+        { identifier: 'dose_taken', buttonTitle: ACTION_LABELS.dose_taken, options: { opensAppToForeground: true } },
+        { identifier: 'dose_snooze', buttonTitle: ACTION_LABELS.dose_snooze, options: { opensAppToForeground: true } },
+        { identifier: 'dose_skip', buttonTitle: ACTION_LABELS.dose_skip, options: { opensAppToForeground: true } },
+      ]);
+      await Notifications.setNotificationCategoryAsync(HELP_NOTIFICATION_CATEGORY, [
+        { identifier: 'need_help', buttonTitle: ACTION_LABELS.need_help, options: { opensAppToForeground: true } },
+      ]);
+    } catch (error) {
+      console.error('Failed to register notification actions:', error);
+    }
+  }
+
+  static async isHelpNotificationEnabled(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(this.HELP_ENABLED_KEY)) === 'true';
+    } catch (error) {
+      console.error('Failed to load help notification setting:', error);
+      return false;
+    }
+  }
+
+  static async setHelpNotificationEnabled(enabled: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.HELP_ENABLED_KEY, String(enabled));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'help_notification_setting_saved',
+        details: `"I need help" notification ${enabled ? 'enabled' : 'disabled'}`
+      });
+    } catch (error) {
+      throw new Error(`Failed to save help notification setting: ${error}`);
+    }
+
+    if (enabled) {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') {
+        await Notifications.requestPermissionsAsync();
+      }
+      await this.showHelpNotification();
+    } else {
+      await this.dismissHelpNotification();
+    }
+  }
+
+  /**
+   * Post the persistent "I need help" notification. Posting again replaces
+   * the existing one rather than adding a second.
+   */
+  static async showHelpNotification(): Promise<void> {
+    try {
+      await Notifications.scheduleNotificationAsync({
+        identifier: HELP_NOTIFICATION_ID,
+        content: {
+          title: 'Need help?',
+          body: 'Press "I need help" to start the emergency countdown.',
+          data: { type: HELP_NOTIFICATION_CATEGORY },
+          categoryIdentifier: HELP_NOTIFICATION_CATEGORY,
+          sticky: true,
+          autoDismiss: false,
+        },
+        trigger: null,
+      });
+    } catch (error) {
+      console.error('Failed to show help notification:', error);
+    }
+  }
+
+  static async dismissHelpNotification(): Promise<void> {
+    try {
+      await Notifications.dismissNotificationAsync(HELP_NOTIFICATION_ID);
+    } catch (error) {
+      console.error('Failed to dismiss help notification:', error);
+    }
+  }
+
+  /**
+   * Apply a medication button. Taps on the notification body only open the
+   * app and leave the dose as it is.
+   */
+  static async handleMedicationResponse(
+    response: Notifications.NotificationResponse,
+    launch: NotificationResponseLaunch
+  ): Promise<void> {
+    const data = response.notification.request.content.data || {};
+    const reminderId = String(data.reminderId || '');
+    const medicationName = String(data.medicationName || 'unknown medication');
+    const actionId = response.actionIdentifier as NotificationActionId;
+
+    let outcome: string;
+    if (!reminderId) {
+      outcome = 'no reminder attached';
+    } else if (actionId === 'dose_taken') {
+      outcome = await MedicationReminderService.markDoseTaken(reminderId)
+        ? 'dose marked as taken'
+        : 'reminder not found';
+    } else if (actionId === 'dose_skip') {
+      outcome = await MedicationReminderService.markDoseMissed(reminderId)
+        ? 'dose marked as missed'
+        : 'reminder not found';
+    } else if (actionId === 'dose_snooze') {
+      outcome = await MedicationReminderService.snoozeDose(reminderId, String(data.time || ''), SNOOZE_MINUTES)
+        ? `reminding again in ${SNOOZE_MINUTES} minutes`
+        : 'reminder not found';
+    } else {
+      outcome = 'app opened';
+    }
+
+    await this.recordResponse(response, `${medicationName} reminder`, launch, outcome);
+  }
+
+  static async recordResponse(
+    response: Notifications.NotificationResponse,
+    notificationLabel: string,
+    launch: NotificationResponseLaunch,
+    outcome: string
+  ): Promise<void> {
+    const buttonLabel = ACTION_LABELS[response.actionIdentifier as NotificationActionId];
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'notification_response',
+      details: `${buttonLabel ? `"${buttonLabel}" pressed` : 'Notification opened'} on ${notificationLabel} - ${launchLabel(launch)} - ${outcome}`
+    });
+  }
+}
+
+export interface NotificationResponseControllerOptions {
+  /** Start the emergency confirmation; resolves with the audit outcome */
+  onHelpRequested: () => Promise<string>;
+}
+
+/**
+ * Routes notification button presses while the app is running, and picks up
+ * the response that launched the app when it was closed.
+ */
+export class NotificationResponseController {
+  private subscription: Notifications.EventSubscription | null = null;
+  // The launch response can also reach the listener; act on it only once
+  private readonly handledResponses = new Set<string>();
+  private isStopped = false;
+
+  constructor(private readonly options: NotificationResponseControllerOptions) {}
+
+  async start(): Promise<void> {
+    // Started after app initialisation, which may outlive the screen
+    if (this.isStopped) return;
+
+    this.subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      this.handleResponse(response, 'running');
+    });
+
+    await NotificationActionService.registerCategories();
+    if (await NotificationActionService.isHelpNotificationEnabled()) {
+      await NotificationActionService.showHelpNotification();
+    }
+
+    try {
+      const launchResponse = Notifications.getLastNotificationResponse();
+      if (launchResponse) {
+        await this.handleResponse(launchResponse, 'cold_start');
+      }
+    } catch (error) {
+      console.error('Failed to handle launch notification:', error);
+    }
+  }
+
+  stop(): void {
+    this.isStopped = true;
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  private async handleResponse(
+    response: Notifications.NotificationResponse,
+    launch: NotificationResponseLaunch
+  ): Promise<void> {
+    const key = `${response.notification.request.identifier}:${response.actionIdentifier}:${response.notification.date}`;
+    if (this.handledResponses.has(key)) return;
+    this.handledResponses.add(key);
+
+    try {
+      // Otherwise the next launch would report this response again
+      Notifications.clearLastNotificationResponse();
+
+      const type = response.notification.request.content.data?.type;
+
+      if (type === HELP_NOTIFICATION_CATEGORY) {
+        const outcome = await this.options.onHelpRequested();
+        await NotificationActionService.recordResponse(response, '"I need help" notification', launch, outcome);
+        // Opening it can clear it from the tray, so put it back
+        if (await NotificationActionService.isHelpNotificationEnabled()) {
+          await NotificationActionService.showHelpNotification();
+        }
+      } else if (type === 'medication') {
+        await NotificationActionService.handleMedicationResponse(response, launch);
+      } else {
+        await NotificationActionService.recordResponse(response, `${type || 'unknown'} notification`, launch, 'app opened');
+      }
+    } catch (error) {
+      console.error('Failed to handle notification response:', error);
+    }
+  }
+}
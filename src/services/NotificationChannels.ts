@@ -0,0 +1,217 @@
+import { AppState } from 'react-native';
+import * as SMS from 'expo-sms';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  NotificationChannelAttempt,
+  NotificationChannelSettings,
+} from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { NOTIFICATION_CHANNEL_LABELS } from './NotificationRouting';
+import { SmsGatewayService } from './SmsGatewayService';
+import { describeGatewayError } from './SmsGatewayClient';
+import {
+  ChannelSendResult,
+  NotificationChannel,
+  NotificationDispatcher,
+  NotificationMessage,
+} from './NotificationDispatcher';
+
+const HTTP_TIMEOUT_MS = 10000;
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+const postJson = async (url: string, body: unknown): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+  try {
+    return await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const httpResult = (response: Response): ChannelSendResult =>
+  response.ok ? { outcome: 'sent' } : { outcome: 'failed', detail: `HTTP ${response.status}` };
+
+const composeSms = async (phoneNumbers: string[], body: string): Promise<ChannelSendResult> => {
+  // e.g. a missed check-in alerted from the background: the text waits in
+  // the outbox until the app is open to show it
+  if (AppState.currentState !== 'active') {
+    return { outcome: 'unavailable', detail: 'App not open to show the messaging app' };
+  }
+  if (!(await SMS.isAvailableAsync())) {
+    return { outcome: 'unavailable', detail: 'SMS not available on this device' };
+  }
+  const { result } = await SMS.sendSMSAsync(phoneNumbers, body);
+  switch (result) {
+    case 'sent':
+      return { outcome: 'sent' };
+    case 'cancelled':
+      return { outcome: 'cancelled', detail: 'Closed without sending' };
+    default:
+      // Android never says whether the message was sent
+      return { outcome: 'sent', detail: 'Sending could not be confirmed' };
+  }
+};
+
+/**
+ * The device's messaging app. It needs the person to press send, so in
+ * grouped mode every recipient goes into one composer.
+ */
+export const smsComposerChannel: NotificationChannel = {
+  label: NOTIFICATION_CHANNEL_LABELS.sms_composer,
+  send: (contact, message) => composeSms([contact.phoneNumber], message.body),
+  sendBatch: (contacts, body) => composeSms(contacts.map(contact => contact.phoneNumber), body),
+};
+
+/**
+ * Twilio-compatible gateway. Sends without anyone touching the phone, so it
+ * still works when the person cannot press send.
+ */
+export const smsGatewayChannel: NotificationChannel = {
+  label: NOTIFICATION_CHANNEL_LABELS.sms_gateway,
+  async send(contact, message) {
+    const result = await SmsGatewayService.send(contact.phoneNumber, message.body, contact.name);
+    if (!result) {
+      return { outcome: 'unavailable', detail: 'No SMS gateway configured' };
+    }
+    if (!result.ok) {
+      return { outcome: 'failed', detail: result.error };
+    }
+    return result.message.status === 'failed' || result.message.status === 'undelivered'
+      ? { outcome: 'failed', detail: describeGatewayError(result.message.errorCode, result.message.errorMessage) }
+      : { outcome: 'sent', reference: result.message.sid };
+  },
+};
+
+export const createEmailChannel = (
+  getSettings: () => Promise<NotificationChannelSettings>
+): NotificationChannel => ({
+  label: NOTIFICATION_CHANNEL_LABELS.email,
+  async send(contact, message) {
+    if (!contact.email) {
+      return { outcome: 'unavailable', detail: 'No email address' };
+    }
+    const { emailRelayUrl } = await getSettings();
+    if (!emailRelayUrl) {
+      return { outcome: 'unavailable', detail: 'No email service configured' };
+    }
+    return httpResult(await postJson(emailRelayUrl, {
+      to: contact.email,
+      subject: message.subject,
+      text: message.body,
+    }));
+  },
+});
+
+export const pushChannel: NotificationChannel = {
+  label: NOTIFICATION_CHANNEL_LABELS.push,
+  async send(contact, message) {
+    if (!contact.pushToken) {
+      return { outcome: 'unavailable', detail: 'No push token' };
+    }
+    const response = await postJson(EXPO_PUSH_URL, {
+      to: contact.pushToken,
+      title: message.subject,
+      body: message.body,
+      priority: 'high',
+      sound: 'default',
+      data: { type: message.kind, sessionId: message.sessionId, replyCode: message.replyCode },
+    });
+    if (!response.ok) return httpResult(response);
+
+    // The push service answers 200 even when it rejects the ticket
+    const ticket = await response.json();
+    return ticket?.data?.status === 'ok'
+      ? { outcome: 'sent' }
+      : { outcome: 'failed', detail: ticket?.data?.message || 'Push rejected' };
+  },
+};
+
+export const createWebhookChannel = (
+  getSettings: () => Promise<NotificationChannelSettings>
+): NotificationChannel => ({
+  label: NOTIFICATION_CHANNEL_LABELS.webhook,
+  async send(contact, message) {
+    const { webhookUrl } = await getSettings();
+    if (!webhookUrl) {
+      return { outcome: 'unavailable', detail: 'No webhook configured' };
+    }
+    return httpResult(await postJson(webhookUrl, {
+      kind: message.kind,
+      sessionId: message.sessionId,
+      contact: { name: contact.name, relationship: contact.relationship, phoneNumber: contact.phoneNumber },
+      subject: message.subject,
+      body: message.body,
+      replyCode: message.replyCode,
+    }));
+  },
+});
+
+/**
+ * Adds each send attempt to the audit log.
+ */
+export const auditChannelAttempt = async (
+  attempt: NotificationChannelAttempt,
+  message: NotificationMessage
+): Promise<void> => {
+  await SecureStorage.addAuditEntry({
+    timestamp: attempt.timestamp,
+    action: `notification_${attempt.outcome}`,
+    details: `${message.kind.replace(/_/g, ' ')} to ${attempt.contactName} via ${NOTIFICATION_CHANNEL_LABELS[attempt.channel]}`
+      + (attempt.detail ? `: ${attempt.detail}` : '')
+  });
+};
+
+export class NotificationChannelService {
+  private static readonly SETTINGS_KEY = 'notification_channel_settings';
+
+  static async getSettings(): Promise<NotificationChannelSettings> {
+    try {
+      const settingsJson = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      return settingsJson ? JSON.parse(settingsJson) as NotificationChannelSettings : {};
+    } catch (error) {
+      console.error('Failed to load notification channel settings:', error);
+      return {};
+    }
+  }
+
+  static async saveSettings(settings: NotificationChannelSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+
+      const configured = [
+        settings.emailRelayUrl && 'email',
+        settings.webhookUrl && 'webhook',
+      ].filter(Boolean);
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'notification_channels_saved',
+        details: (configured.length > 0
+          ? `Alert services configured: ${configured.join(', ')}`
+          : 'No alert services configured')
+          + ` - contacts alerted ${settings.deliveryMode === 'grouped' ? 'together' : 'one at a time'}`
+      });
+    } catch (error) {
+      throw new Error(`Failed to save notification channel settings: ${error}`);
+    }
+  }
+
+  /**
+   * Dispatcher with every real channel, reading endpoints from settings.
+   */
+  static createDispatcher(): NotificationDispatcher {
+    const getSettings = () => this.getSettings();
+    return new NotificationDispatcher({
+      sms_composer: smsComposerChannel,
+      sms_gateway: smsGatewayChannel,
+      email: createEmailChannel(getSettings),
+      push: pushChannel,
+      webhook: createWebhookChannel(getSettings),
+    }, auditChannelAttempt);
+  }
+}
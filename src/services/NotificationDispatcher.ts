@@ -0,0 +1,260 @@
+import {
+  ContactDispatchResult,
+  EmergencyContact,
+  NotificationChannelAttempt,
+  NotificationChannelOutcome,
+  NotificationChannelType,
+  NotificationDeliveryMode,
+  NotificationMessageKind,
+} from '../types/accessibility';
+import { NOTIFICATION_CHANNEL_LABELS, contactChannels, isCovertChannel } from './NotificationRouting';
+
+/**
+ * Sends messages through whichever channels a contact has, falling back from
+ * one to the next. Nothing here touches storage or native modules; the real
+ * channels live in NotificationChannels and attempts are recorded by the
+ * caller.
+ */
+
+const ALL_CHANNEL_TYPES = Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannelType[];
+
+const SKIPPED_FOR_COVERT: ChannelSendResult = {
+  outcome: 'unavailable',
+  detail: 'Skipped - would need the person to press send',
+};
+
+export interface NotificationMessage {
+  kind: NotificationMessageKind;
+  sessionId: string;
+  subject: string;
+  body: string;
+  replyCode?: string;
+  // Body for a message sent to several contacts at once; leaves out anything
+  // meant for one contact, such as the reply code
+  groupBody?: string;
+  // Must not show on the person's screen: only covert channels are used
+  covert?: boolean;
+}
+
+export interface NotificationEntry {
+  contact: EmergencyContact;
+  message: NotificationMessage;
+}
+
+export interface ChannelSendResult {
+  outcome: NotificationChannelOutcome;
+  detail?: string;
+  reference?: string;
+}
+
+/**
+ * One way of reaching a contact. Channels report 'unavailable' when they
+ * cannot be used for this contact or device, so the next channel is tried.
+ * Channels that can address several contacts in one message implement
+ * `sendBatch`; its result applies to every contact in the batch.
+ */
+export interface NotificationChannel {
+  readonly label: string;
+  send(contact: EmergencyContact, message: NotificationMessage): Promise<ChannelSendResult>;
+  sendBatch?(contacts: EmergencyContact[], body: string): Promise<ChannelSendResult>;
+}
+
+export type NotificationAttemptRecorder = (
+  attempt: NotificationChannelAttempt,
+  message: NotificationMessage
+) => Promise<void> | void;
+
+
+export interface LocalDelivery {
+  contact: EmergencyContact;
+  message: NotificationMessage;
+  timestamp: string;
+}
+
+/**
+ * Keeps messages in memory instead of sending them, so the notification path
+ * can be exercised without a phone. Contacts named in `failFor` fail.
+ */
+export class LocalNotificationChannel implements NotificationChannel {
+  readonly label = NOTIFICATION_CHANNEL_LABELS.local;
+  readonly deliveries: LocalDelivery[] = [];
+
+  constructor(private readonly options: { failFor?: string[] } = {}) {}
+
+  async send(contact: EmergencyContact, message: NotificationMessage): Promise<ChannelSendResult> {
+    if (this.options.failFor?.includes(contact.name)) {
+      return { outcome: 'failed', detail: 'Simulated failure' };
+    }
+    this.deliveries.push({ contact, message, timestamp: new Date().toISOString() });
+    return { outcome: 'sent' };
+  }
+
+  async sendBatch(contacts: EmergencyContact[], body: string): Promise<ChannelSendResult> {
+    if (contacts.some(contact => this.options.failFor?.includes(contact.name))) {
+      return { outcome: 'failed', detail: 'Simulated failure' };
+    }
+    const timestamp = new Date().toISOString();
+    contacts.forEach(contact => this.deliveries.push({
+      contact,
+      message: { kind: 'emergency_alert', sessionId: '', subject: '', body },
+      timestamp,
+    }));
+    return { outcome: 'sent' };
+  }
+
+  clear(): void {
+    this.deliveries.length = 0;
+  }
+}
+
+/**
+ * Tries each of a contact's channels in order and stops at the first that
+ * sends. Covert messages pass over channels that are not covert, such as the
+ * messaging app. Every attempt is returned and passed to `recordAttempt`.
+ */
+export class NotificationDispatcher {
+  constructor(
+    private readonly channels: Partial<Record<NotificationChannelType, NotificationChannel>>,
+    private readonly recordAttempt: NotificationAttemptRecorder = () => undefined
+  ) {}
+
+  async dispatch(contact: EmergencyContact, message: NotificationMessage): Promise<ContactDispatchResult> {
+    const attempts: NotificationChannelAttempt[] = [];
+
+    for (const type of contactChannels(contact.channels)) {
+      const result = await this.trySend(type, message, channel => channel.send(contact, message));
+      const attempt = this.toAttempt(type, contact, result);
+      attempts.push(attempt);
+      await this.recordAttempt(attempt, message);
+
+      if (result.outcome === 'sent') {
+        return { contactName: contact.name, delivered: true, attempts, replyCode: message.replyCode };
+      }
+    }
+
+    return { contactName: contact.name, delivered: false, attempts, replyCode: message.replyCode };
+  }
+
+  async dispatchAll(contacts: EmergencyContact[], message: NotificationMessage): Promise<ContactDispatchResult[]> {
+    return this.dispatchMany(contacts.map(contact => ({ contact, message })));
+  }
+
+  /**
+   * Send each entry, one contact at a time or grouped. Grouped mode works
+   * through everyone's first channel, then everyone's second and so on;
+   * at each step, contacts on a channel with `sendBatch` who would get the
+   * same text are sent it together. Results are in the order given.
+   */
+  async dispatchMany(
+    entries: NotificationEntry[],
+    mode: NotificationDeliveryMode = 'individual'
+  ): Promise<ContactDispatchResult[]> {
+    if (mode === 'individual') {
+      const results: ContactDispatchResult[] = [];
+      for (const { contact, message } of entries) {
+        results.push(await this.dispatch(contact, message));
+      }
+      return results;
+    }
+
+    const pending = entries.map(entry => ({
+      ...entry,
+      channelTypes: contactChannels(entry.contact.channels),
+      attempts: [] as NotificationChannelAttempt[],
+      delivered: false,
+    }));
+    type Pending = typeof pending[number];
+
+    const record = async (entry: Pending, type: NotificationChannelType, result: ChannelSendResult, batchId?: string) => {
+      const attempt = { ...this.toAttempt(type, entry.contact, result), batchId };
+      entry.attempts.push(attempt);
+      entry.delivered = result.outcome === 'sent';
+      await this.recordAttempt(attempt, entry.message);
+    };
+
+    for (let step = 0; ; step++) {
+      const due = pending.filter(entry => !entry.delivered && step < entry.channelTypes.length);
+      if (due.length === 0) break;
+
+      const batches = new Map<string, Pending[]>();
+      due.forEach((entry, index) => {
+        const type = entry.channelTypes[step];
+        const body = entry.message.groupBody ?? entry.message.body;
+        const canBatch = this.channels[type]?.sendBatch && !(entry.message.covert && !isCovertChannel(type));
+        const key = canBatch ? `${type}\n${body}` : `${type}\n#${index}`;
+        batches.set(key, [...(batches.get(key) || []), entry]);
+      });
+
+      let batchIndex = 0;
+      for (const batch of batches.values()) {
+        const type = batch[0].channelTypes[step];
+        if (batch.length === 1) {
+          const [entry] = batch;
+          await record(entry, type, await this.trySend(type, entry.message, channel => channel.send(entry.contact, entry.message)));
+          continue;
+        }
+
+        const body = batch[0].message.groupBody ?? batch[0].message.body;
+        const result = await this.trySend(type, batch[0].message, channel => channel.sendBatch!(batch.map(entry => entry.contact), body));
+        const batchId = `batch_${Date.now()}_${step}_${batchIndex++}`;
+        for (const entry of batch) {
+          await record(entry, type, result, batchId);
+        }
+      }
+    }
+
+    // A shared message leaves out each contact's reply code
+    return pending.map(entry => ({
+      contactName: entry.contact.name,
+      delivered: entry.delivered,
+      attempts: entry.attempts,
+      replyCode: entry.attempts[entry.attempts.length - 1]?.batchId ? undefined : entry.message.replyCode,
+    }));
+  }
+
+  private async trySend(
+    type: NotificationChannelType,
+    message: NotificationMessage,
+    send: (channel: NotificationChannel) => Promise<ChannelSendResult>
+  ): Promise<ChannelSendResult> {
+    if (message.covert && !isCovertChannel(type)) {
+      return SKIPPED_FOR_COVERT;
+    }
+
+    const channel = this.channels[type];
+    try {
+      return channel
+        ? await send(channel)
+        : { outcome: 'unavailable', detail: 'Channel not supported' };
+    } catch (error) {
+      return { outcome: 'failed', detail: String(error) };
+    }
+  }
+
+  private toAttempt(
+    type: NotificationChannelType,
+    contact: EmergencyContact,
+    result: ChannelSendResult
+  ): NotificationChannelAttempt {
+    return {
+      channel: type,
+      contactName: contact.name,
+      outcome: result.outcome,
+      detail: result.detail,
+      reference: result.reference,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Dispatcher that routes every channel type to one local channel.
+ */
+export const createLocalDispatcher = (
+  channel: LocalNotificationChannel = new LocalNotificationChannel(),
+  recordAttempt?: NotificationAttemptRecorder
+): NotificationDispatcher =>
+  new NotificationDispatcher(
+    Object.fromEntries(ALL_CHANNEL_TYPES.map(type => [type, channel])),
+    recordAttempt
+  );
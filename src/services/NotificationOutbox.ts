@@ -0,0 +1,199 @@
+import {
+  AuditEntry,
+  ContactDispatchResult,
+  EmergencyContact,
+  EmergencySession,
+  EmergencyStatus,
+  NotificationMessageKind,
+  OutboxItem,
+} from '../types/accessibility';
+import { recordContactAlerts } from './ContactAcknowledgements';
+import { recordContactDeliveries } from './ContactDeliveries';
+import { dispatchAuditEntries } from './NotificationRouting';
+
+/**
+ * Pure rules for keeping messages that could not be sent and trying them
+ * again. Nothing here touches storage or native modules.
+ */
+
+export const OUTBOX_BASE_DELAY_MS = 30 * 1000;
+export const OUTBOX_MAX_DELAY_MS = 15 * 60 * 1000;
+// An alert hours late does more harm than good, so old messages are dropped
+export const OUTBOX_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+const KIND_LABELS: Record<NotificationMessageKind, string> = {
+  emergency_alert: 'Emergency alert',
+  location_update: 'Location update',
+  stand_down: 'All-clear',
+  duress_alert: 'Code red alert',
+  contact_verification: 'Test message',
+};
+
+// Messages an all-clear makes pointless when they never reached the contact
+const CLEARED_BY_STAND_DOWN: NotificationMessageKind[] = ['emergency_alert', 'location_update'];
+
+export const outboxItemId = (sessionId: string, kind: NotificationMessageKind, contactName: string): string =>
+  `${sessionId}:${kind}:${contactName}`;
+
+/**
+ * 30 seconds after the first failure, doubling each time up to 15 minutes.
+ */
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(OUTBOX_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_MAX_DELAY_MS);
+
+export const createOutboxItem = (
+  contact: EmergencyContact,
+  message: {
+    kind: NotificationMessageKind;
+    sessionId: string;
+    subject: string;
+    body: string;
+    replyCode?: string;
+    covert?: boolean;
+  },
+  error: string | undefined,
+  now: Date = new Date()
+): OutboxItem => ({
+  id: outboxItemId(message.sessionId, message.kind, contact.name),
+  sessionId: message.sessionId,
+  contact,
+  kind: message.kind,
+  subject: message.subject,
+  body: message.body,
+  replyCode: message.replyCode,
+  covert: message.covert,
+  attempts: 1,
+  createdAt: now.toISOString(),
+  nextAttemptAt: new Date(now.getTime() + retryDelayMs(1)).toISOString(),
+  lastError: error,
+});
+
+/**
+ * Add an item, replacing any older message with the same id. An all-clear
+ * removes the contact's unsent alert and updates for that session, and is
+ * not needed at all when the alert itself never went out. Returns the items
+ * that were dropped so they can be audited.
+ */
+export const addToOutbox = (
+  items: OutboxItem[],
+  item: OutboxItem
+): { items: OutboxItem[]; dropped: OutboxItem[] } => {
+  const isCleared = (existing: OutboxItem) =>
+    item.kind === 'stand_down'
+    && existing.sessionId === item.sessionId
+    && existing.contact.name === item.contact.name
+    && CLEARED_BY_STAND_DOWN.includes(existing.kind);
+
+  const dropped = items.filter(existing => existing.id === item.id || isCleared(existing));
+  const kept = items.filter(existing => !dropped.includes(existing));
+  const alertNeverSent = dropped.some(existing => existing.kind === 'emergency_alert');
+
+  return alertNeverSent && item.kind === 'stand_down'
+    ? { items: kept, dropped: [...dropped, item] }
+    : { items: [...kept, item], dropped };
+};
+
+/**
+ * Once the emergency is over, an alert or location update that never got
+ * through would only alarm the contact. All-clears and code red alerts are
+ * still sent.
+ */
+export const isClearedBySessionEnd = (item: OutboxItem, status: EmergencyStatus | undefined): boolean =>
+  (status === 'completed' || status === 'cancelled') && CLEARED_BY_STAND_DOWN.includes(item.kind);
+
+/**
+ * Remove a closed session's unsent alerts and updates, for every contact
+ * whether or not they are sent an all-clear. Returns the items that were
+ * dropped so they can be audited.
+ */
+export const closeSessionInOutbox = (
+  items: OutboxItem[],
+  sessionId: string
+): { items: OutboxItem[]; dropped: OutboxItem[] } => {
+  const dropped = items.filter(item => item.sessionId === sessionId && isClearedBySessionEnd(item, 'completed'));
+  return { items: items.filter(item => !dropped.includes(item)), dropped };
+};
+
+export const isOutboxItemExpired = (item: OutboxItem, now: Date = new Date()): boolean =>
+  now.getTime() - new Date(item.createdAt).getTime() > OUTBOX_MAX_AGE_MS;
+
+export const isOutboxItemDue = (item: OutboxItem, now: Date = new Date()): boolean =>
+  new Date(item.nextAttemptAt).getTime() <= now.getTime();
+
+export const nextOutboxAttemptAt = (items: OutboxItem[]): string | null =>
+  items.reduce<string | null>((earliest, item) =>
+    !earliest || item.nextAttemptAt < earliest ? item.nextAttemptAt : earliest, null);
+
+export const recordRetryFailure = (item: OutboxItem, error: string | undefined, now: Date = new Date()): OutboxItem => ({
+  ...item,
+  attempts: item.attempts + 1,
+  nextAttemptAt: new Date(now.getTime() + retryDelayMs(item.attempts + 1)).toISOString(),
+  lastError: error,
+});
+
+// One sent message suggests the connection is back, so the rest go now
+export const retryAllNow = (items: OutboxItem[], now: Date = new Date()): OutboxItem[] =>
+  items.map(item => ({ ...item, nextAttemptAt: now.toISOString() }));
+
+export const describeOutboxItem = (item: OutboxItem): string =>
+  `${KIND_LABELS[item.kind]} to ${item.contact.name}`;
+
+export type OutboxOutcome = 'queued' | 'sent' | 'failed' | 'expired' | 'dropped';
+
+const OUTCOME_ACTIONS: Record<OutboxOutcome, string> = {
+  queued: 'notification_queued',
+  sent: 'notification_retry_sent',
+  failed: 'notification_retry_failed',
+  expired: 'notification_expired',
+  dropped: 'notification_dropped',
+};
+
+export const outboxAuditEntry = (
+  item: OutboxItem,
+  outcome: OutboxOutcome,
+  timestamp: string = new Date().toISOString()
+): AuditEntry => {
+  const description = describeOutboxItem(item);
+  const details: Record<OutboxOutcome, string> = {
+    queued: `${description} could not be sent - will try again at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`,
+    sent: `${description} sent on attempt ${item.attempts + 1}`,
+    failed: `${description} failed again (attempt ${item.attempts})`
+      + (item.lastError ? `: ${item.lastError}` : '')
+      + ` - next try at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`,
+    expired: `${description} given up after ${item.attempts} attempts - more than ${OUTBOX_MAX_AGE_MS / 3600000} hours old`,
+    dropped: `${description} no longer needed`,
+  };
+  return { timestamp, action: OUTCOME_ACTIONS[outcome], details: details[outcome] };
+};
+
+/**
+ * Record a retry on its session: the audit trail always, and for a message
+ * that got through, the contact's delivery and reply tracking too.
+ */
+export const applyOutboxResult = (
+  session: EmergencySession,
+  item: OutboxItem,
+  outcome: OutboxOutcome,
+  result?: ContactDispatchResult
+): EmergencySession => {
+  const updated: EmergencySession = {
+    ...session,
+    auditLog: [
+      ...session.auditLog,
+      ...(result ? dispatchAuditEntries([result]) : []),
+      outboxAuditEntry(item, outcome),
+    ],
+  };
+  if (!result || outcome !== 'sent' || item.kind !== 'emergency_alert') {
+    return updated;
+  }
+
+  return {
+    ...updated,
+    contactsNotified: updated.contactsNotified.includes(item.contact.name)
+      ? updated.contactsNotified
+      : [...updated.contactsNotified, item.contact.name],
+    contactStatuses: recordContactAlerts(updated.contactStatuses, [result], [item.contact]),
+    contactDeliveries: recordContactDeliveries(updated.contactDeliveries, [result]),
+  };
+};
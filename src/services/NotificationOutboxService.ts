@@ -0,0 +1,309 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import {
+  ContactDispatchResult,
+  EmergencyContact,
+  EmergencySession,
+  EmergencyStatus,
+  OutboxItem,
+} from '../types/accessibility';
+import { EncryptedAsyncStorage } from './EncryptedAsyncStorage';
+import { SecureStorage } from './SecureStorage';
+import { EmergencySessionRepository } from './EmergencySessionRepository';
+import { EmergencyStateMachine } from './EmergencyStateMachine';
+import { NotificationMessage } from './NotificationDispatcher';
+import {
+  OutboxOutcome,
+  addToOutbox,
+  applyOutboxResult,
+  closeSessionInOutbox,
+  createOutboxItem,
+  isClearedBySessionEnd,
+  isOutboxItemDue,
+  isOutboxItemExpired,
+  nextOutboxAttemptAt,
+  outboxAuditEntry,
+  recordRetryFailure,
+  retryAllNow,
+} from './NotificationOutbox';
+
+export type OutboxSender = (contact: EmergencyContact, message: NotificationMessage) => Promise<ContactDispatchResult>;
+
+export type OutboxListener = (item: OutboxItem, outcome: OutboxOutcome, result?: ContactDispatchResult) => void;
+
+/**
+ * Encrypted store of messages that could not be sent, tried again with
+ * backoff until they go out or are too old to matter.
+ */
+export class NotificationOutboxService {
+  private static readonly OUTBOX_KEY = 'notification_outbox';
+  private static readonly listeners = new Set<OutboxListener>();
+  // Enqueue and flush both rewrite the whole outbox, so they take turns
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  static async getItems(): Promise<OutboxItem[]> {
+    try {
+      const data = await EncryptedAsyncStorage.getItem(this.OUTBOX_KEY);
+      return data ? JSON.parse(data) as OutboxItem[] : [];
+    } catch (error) {
+      console.error('Failed to load notification outbox:', error);
+      return [];
+    }
+  }
+
+  private static async saveItems(items: OutboxItem[]): Promise<void> {
+    try {
+      if (items.length === 0) {
+        await EncryptedAsyncStorage.removeItem(this.OUTBOX_KEY);
+      } else {
+        await EncryptedAsyncStorage.setItem(this.OUTBOX_KEY, JSON.stringify(items));
+      }
+    } catch (error) {
+      throw new Error(`Failed to save notification outbox: ${error}`);
+    }
+  }
+
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Be told whenever an item is queued, sent, retried or dropped. Returns a
+   * function that removes the listener.
+   */
+  static addListener(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static async report(item: OutboxItem, outcome: OutboxOutcome, result?: ContactDispatchResult): Promise<void> {
+    await SecureStorage.addAuditEntry(outboxAuditEntry(item, outcome));
+    this.listeners.forEach(listener => listener(item, outcome, result));
+  }
+
+  /**
+   * Keep a message that did not reach the contact so it is tried again.
+   */
+  static enqueue(contact: EmergencyContact, message: NotificationMessage, error?: string): Promise<void> {
+    return this.exclusive(async () => {
+      const item = createOutboxItem(contact, message, error);
+      const { items, dropped } = addToOutbox(await this.getItems(), item);
+      await this.saveItems(items);
+
+      for (const droppedItem of dropped) {
+        await this.report(droppedItem, 'dropped');
+      }
+      if (items.includes(item)) {
+        await this.report(item, 'queued');
+      }
+    });
+  }
+
+  /**
+   * Drop a closed session's unsent alerts and location updates, so they are
+   * not sent after the person is safe.
+   */
+  static dropSessionAlerts(sessionId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const { items, dropped } = closeSessionInOutbox(await this.getItems(), sessionId);
+      if (dropped.length === 0) return;
+
+      await this.saveItems(items);
+      for (const item of dropped) {
+        await this.report(item, 'dropped');
+      }
+    });
+  }
+
+  /**
+   * Try every item that is due. Old items and alerts for sessions that have
+   * since closed are dropped; items that fail again
+   * wait longer. As soon as one gets through, the rest are tried straight
+   * away, since the connection is likely back.
+   */
+  static flush(send: OutboxSender, force: boolean = false): Promise<void> {
+    return this.exclusive(async () => {
+      let items = await this.getItems();
+      if (items.length === 0) return;
+
+      const now = new Date();
+      for (const item of items.filter(entry => isOutboxItemExpired(entry, now))) {
+        await this.report(item, 'expired');
+      }
+      items = items.filter(entry => !isOutboxItemExpired(entry, now));
+
+      const statuses = await this.getSessionStatuses(items);
+      const cleared = items.filter(entry => isClearedBySessionEnd(entry, statuses.get(entry.sessionId)));
+      for (const item of cleared) {
+        await this.report(item, 'dropped');
+      }
+      items = items.filter(entry => !cleared.includes(entry));
+      if (force) {
+        items = retryAllNow(items, now);
+      }
+
+      const remaining: OutboxItem[] = [];
+      let pending = items;
+      while (pending.length > 0) {
+        const [item, ...rest] = pending;
+        pending = rest;
+
+        if (!isOutboxItemDue(item)) {
+          remaining.push(item);
+          continue;
+        }
+
+        const result = await send(item.contact, {
+          kind: item.kind,
+          sessionId: item.sessionId,
+          subject: item.subject,
+          body: item.body,
+          replyCode: item.replyCode,
+          covert: item.covert,
+        });
+
+        if (result.delivered) {
+          await this.report(item, 'sent', result);
+          pending = retryAllNow(pending);
+        } else {
+          const lastAttempt = result.attempts[result.attempts.length - 1];
+          const retried = recordRetryFailure(item, lastAttempt?.detail);
+          remaining.push(retried);
+          await this.report(retried, 'failed', result);
+        }
+      }
+
+      await this.saveItems(remaining);
+    });
+  }
+
+  private static async getSessionStatuses(items: OutboxItem[]): Promise<Map<string, EmergencyStatus | undefined>> {
+    const statuses = new Map<string, EmergencyStatus | undefined>();
+    for (const sessionId of new Set(items.map(item => item.sessionId))) {
+      try {
+        statuses.set(sessionId, (await EmergencySessionRepository.getSession(sessionId))?.status);
+      } catch (error) {
+        // Unknown sessions are treated as still open, so nothing urgent is lost
+        console.error('Failed to load session for notification outbox:', error);
+      }
+    }
+    return statuses;
+  }
+
+  static async getNextAttemptAt(): Promise<string | null> {
+    return nextOutboxAttemptAt(await this.getItems());
+  }
+}
+
+export interface NotificationOutboxControllerOptions {
+  machine: EmergencyStateMachine;
+  send: OutboxSender;
+}
+
+/**
+ * Retries the outbox when a retry is due and whenever the app comes back to
+ * the foreground. Without a network-state module, coming back to the app and
+ * a message getting through are the best signs the connection has returned.
+ * Each outcome is written to its session's audit trail.
+ */
+export class NotificationOutboxController {
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private removeListener: (() => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private closedSessionId: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: NotificationOutboxControllerOptions) {}
+
+  start(): void {
+    this.removeListener = NotificationOutboxService.addListener((item, outcome, result) => {
+      this.recordOnSession(item.sessionId, session => applyOutboxResult(session, item, outcome, result));
+      if (outcome === 'queued') {
+        this.schedule();
+      }
+    });
+    // The all-clear only goes to contacts the alert reached, so alerts still
+    // queued for the others are dropped here when the session closes
+    this.unsubscribe = this.options.machine.subscribe(({ status, session }) => {
+      if (session && (status === 'completed' || status === 'cancelled') && session.id !== this.closedSessionId) {
+        this.closedSessionId = session.id;
+        this.dropSessionAlerts(session.id);
+      }
+    });
+    this.appStateSubscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        this.flush(true);
+      }
+    });
+    this.flush(true);
+  }
+
+  stop(): void {
+    this.removeListener?.();
+    this.removeListener = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimer();
+  }
+
+  private async flush(force: boolean = false): Promise<void> {
+    this.clearTimer();
+    try {
+      await NotificationOutboxService.flush(this.options.send, force);
+    } catch (error) {
+      console.error('Failed to retry notifications:', error);
+    }
+    await this.schedule();
+  }
+
+  private async dropSessionAlerts(sessionId: string): Promise<void> {
+    try {
+      await NotificationOutboxService.dropSessionAlerts(sessionId);
+    } catch (error) {
+      console.error('Failed to drop alerts for closed session:', error);
+    }
+    await this.schedule();
+  }
+
+  private async schedule(): Promise<void> {
+    const nextAttemptAt = await NotificationOutboxService.getNextAttemptAt();
+    this.clearTimer();
+    if (!nextAttemptAt || !this.removeListener) return;
+
+    const delay = Math.max(new Date(nextAttemptAt).getTime() - Date.now(), 0);
+    this.timer = setTimeout(() => this.flush(), delay);
+  }
+
+  /**
+   * The active session is updated through the machine; a session that has
+   * already ended is updated in the history.
+   */
+  private async recordOnSession(sessionId: string, update: (session: EmergencySession) => EmergencySession): Promise<void> {
+    try {
+      const { session } = this.options.machine.getState();
+      if (session?.id === sessionId) {
+        await this.options.machine.updateSession(current => current.id === sessionId ? update(current) : current);
+        return;
+      }
+
+      const stored = await EmergencySessionRepository.getSession(sessionId);
+      if (stored) {
+        await EmergencySessionRepository.saveSession(update(stored));
+      }
+    } catch (error) {
+      console.error('Failed to record notification retry on session:', error);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  AuditEntry,
+  ContactDispatchResult,
+  NotificationChannelAttempt,
+  NotificationChannelOutcome,
+  NotificationChannelType,
+} from '../types/accessibility';
+
+/**
+ * Pure rules for routing alerts across notification channels and reporting
+ * the results. Nothing here touches storage or native modules.
+ */
+
+export const DEFAULT_CONTACT_CHANNELS: NotificationChannelType[] = ['sms_composer'];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  sms_composer: 'Text message (messaging app)',
+  sms_gateway: 'Automatic text message',
+  email: 'Email',
+  push: 'App notification',
+  webhook: 'Care provider webhook',
+  local: 'Local test channel',
+};
+
+export const contactChannels = (channels: NotificationChannelType[] | undefined): NotificationChannelType[] =>
+  channels && channels.length > 0 ? channels : DEFAULT_CONTACT_CHANNELS;
+
+// Channels that send without anything appearing on the person's screen, so
+// they can carry silent and duress alerts. The messaging app is left out: it
+// opens a composer and waits for the person to press send. The local test
+// channel only keeps messages in memory.
+export const COVERT_CHANNELS: NotificationChannelType[] = ['sms_gateway', 'push', 'email', 'webhook', 'local'];
+
+export const isCovertChannel = (channel: NotificationChannelType): boolean =>
+  COVERT_CHANNELS.includes(channel);
+
+export const hasCovertChannel = (channels: NotificationChannelType[] | undefined): boolean =>
+  contactChannels(channels).some(isCovertChannel);
+
+export const deliveredContactNames = (results: ContactDispatchResult[]): string[] =>
+  results.filter(result => result.delivered).map(result => result.contactName);
+
+export const describeDispatchAttempt = (attempt: NotificationChannelAttempt): string =>
+  `${attempt.contactName} via ${NOTIFICATION_CHANNEL_LABELS[attempt.channel]}: ${attempt.outcome}`
+    + (attempt.detail ? ` (${attempt.detail})` : '');
+
+const CHANNEL_AUDIT_ACTIONS: Record<NotificationChannelOutcome, string> = {
+  sent: 'contact_channel_sent',
+  cancelled: 'contact_channel_cancelled',
+  failed: 'contact_channel_failed',
+  unavailable: 'contact_channel_failed',
+};
+
+/**
+ * One session audit entry per channel tried, so the record shows how each
+ * contact was reached or why they were not.
+ */
+export const dispatchAuditEntries = (results: ContactDispatchResult[]): AuditEntry[] =>
+  results.flatMap(result => result.attempts.map(attempt => ({
+    timestamp: attempt.timestamp,
+    action: CHANNEL_AUDIT_ACTIONS[attempt.outcome],
+    details: describeDispatchAttempt(attempt),
+  })));
@@ -1,11 +1,12 @@
 import * as SecureStore from 'expo-secure-store';
-import { MedicalProfile, EmergencySession, AuditEntry } from '../types/accessibility';
+import { MedicalProfile, EmergencySession, AuditEntry, CareCoordinator } from '../types/accessibility';
 import { EncryptedAsyncStorage } from './EncryptedAsyncStorage';
 
 export class SecureStorage {
   private static readonly MEDICAL_PROFILE_KEY = 'medical_profile';
   private static readonly EMERGENCY_SESSION_KEY = 'emergency_session';
   private static readonly AUDIT_LOG_KEY = 'audit_log';
+  private static readonly CARE_COORDINATORS_KEY = 'care_coordinators';
   
   // Threshold for using SecureStore vs EncryptedAsyncStorage (1.5KB to be safe)
   private static readonly SECURE_STORE_SIZE_LIMIT = 1536;
@@ -116,7 +117,8 @@ export class SecureStorage {
     }
   }
 
-  // Emergency Session Storage
+  // Legacy single-slot emergency session storage. New sessions are kept by
+  // EmergencySessionRepository, which migrates anything left in this slot.
   static async saveEmergencySession(session: EmergencySession): Promise<void> {
     try {
       const sessionData = JSON.stringify(session);
@@ -168,6 +170,35 @@ export class SecureStorage {
     }
   }
 
+  // Care Coordinator Storage
+  static async saveCareCoordinators(coordinators: CareCoordinator[]): Promise<void> {
+    try {
+      await this.storeData(this.CARE_COORDINATORS_KEY, JSON.stringify(coordinators));
+
+      await this.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'care_coordinators_saved',
+        details: `Saved ${coordinators.length} care coordinators`
+      });
+    } catch (error) {
+      throw new Error(`Failed to save care coordinators: ${error}`);
+    }
+  }
+
+  static async getCareCoordinators(): Promise<CareCoordinator[]> {
+    try {
+      const coordinatorData = await this.retrieveData(this.CARE_COORDINATORS_KEY);
+
+      if (!coordinatorData) {
+        return [];
+      }
+
+      return JSON.parse(coordinatorData) as CareCoordinator[];
+    } catch (error) {
+      throw new Error(`Failed to retrieve care coordinators: ${error}`);
+    }
+  }
+
   // Audit Logging
   static async addAuditEntry(entry: AuditEntry): Promise<void> {
     try {
@@ -233,12 +264,14 @@ export class SecureStorage {
     try {
       await this.deleteMedicalProfile();
       await this.deleteEmergencySession();
+      await this.removeData(this.CARE_COORDINATORS_KEY);
       await this.clearAuditLog();
       
       // Clear all encrypted storage keys
       await EncryptedAsyncStorage.clearAll([
         this.MEDICAL_PROFILE_KEY,
         this.EMERGENCY_SESSION_KEY,
+        this.CARE_COORDINATORS_KEY,
         this.AUDIT_LOG_KEY
       ]);
     } catch (error) {
@@ -0,0 +1,207 @@
+import { SmsGatewayConfig, SmsGatewayMessageStatus } from '../types/accessibility';
+
+export const DEFAULT_SMS_GATEWAY_BASE_URL = 'https://api.twilio.com';
+
+const API_VERSION = '2010-04-01';
+const HTTP_TIMEOUT_MS = 10000;
+const POLL_INTERVAL_MS = 5000;
+const POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+const FINAL_STATUSES: SmsGatewayMessageStatus[] = ['delivered', 'undelivered', 'failed', 'canceled'];
+
+// Gateway error codes likely to come up, in words a carer can act on
+const GATEWAY_ERRORS: Record<number, string> = {
+  20003: 'Gateway rejected the account credentials',
+  20404: 'Message not found on the gateway',
+  21211: 'Phone number is not valid',
+  21408: 'Gateway account cannot send to this region',
+  21606: 'Sending number is not set up on the gateway',
+  21610: 'Contact has opted out of text messages',
+  21612: 'Gateway cannot reach this number',
+  21614: 'Number is not a mobile phone',
+  30003: 'Phone is switched off or out of coverage',
+  30004: 'Message blocked by the contact\'s phone',
+  30005: 'Phone number does not exist',
+  30006: 'Number is a landline or cannot receive texts',
+  30007: 'Message filtered by the phone carrier',
+  30008: 'Delivery failed for an unknown reason',
+};
+
+export const describeGatewayError = (code: number | undefined, fallback?: string): string =>
+  (code && GATEWAY_ERRORS[code]) || fallback || 'Gateway error';
+
+export interface SmsGatewayMessage {
+  sid: string;
+  status: SmsGatewayMessageStatus;
+  errorCode?: number;
+  errorMessage?: string;
+}
+
+// A text sent to the gateway's number, e.g. a contact's reply
+export interface SmsGatewayReply {
+  sid: string;
+  from: string;
+  body: string;
+  dateSent: string;
+}
+
+export interface SmsGatewayError {
+  ok: false;
+  error: string;
+  errorCode?: number;
+  httpStatus?: number;
+}
+
+export type SmsGatewayResult = { ok: true; message: SmsGatewayMessage } | SmsGatewayError;
+
+export type SmsGatewayRepliesResult = { ok: true; replies: SmsGatewayReply[] } | SmsGatewayError;
+
+// The parts of the Twilio message resource this client reads
+interface TwilioMessage {
+  sid: string;
+  status: SmsGatewayMessageStatus;
+  direction?: string;
+  from?: string;
+  body?: string | null;
+  date_sent?: string | null;
+  date_created?: string;
+  error_code?: number | null;
+  error_message?: string | null;
+}
+
+interface TwilioMessageList {
+  messages?: TwilioMessage[];
+}
+
+interface TwilioErrorBody {
+  code?: number;
+  message?: string;
+}
+
+type GatewayResponse<T> = { ok: true; payload: T } | SmsGatewayError;
+
+const encodeForm = (fields: Record<string, string>): string =>
+  Object.entries(fields)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+/**
+ * Client for the Twilio Messages REST API. Any service speaking the same API,
+ * such as the local stand-in in sms-gateway-stub.js, works by changing the
+ * base URL.
+ */
+export class SmsGatewayClient {
+  constructor(private readonly config: SmsGatewayConfig) {}
+
+  async sendMessage(to: string, body: string): Promise<SmsGatewayResult> {
+    return this.toMessageResult(
+      await this.request<TwilioMessage>('POST', '/Messages.json', { To: to, From: this.config.fromNumber, Body: body })
+    );
+  }
+
+  async getMessage(sid: string): Promise<SmsGatewayResult> {
+    return this.toMessageResult(await this.request<TwilioMessage>('GET', `/Messages/${encodeURIComponent(sid)}.json`));
+  }
+
+  /**
+   * Texts received on the sending number since the given time. The API only
+   * filters by day, so the rest is filtered here.
+   */
+  async listReplies(since: string): Promise<SmsGatewayRepliesResult> {
+    const query = `To=${encodeURIComponent(this.config.fromNumber)}`
+      + `&${encodeURIComponent('DateSent>')}=${since.slice(0, 10)}`;
+    const response = await this.request<TwilioMessageList>('GET', `/Messages.json?${query}`);
+    if (!response.ok) return response;
+
+    const sinceTime = new Date(since).getTime();
+    const replies = (response.payload.messages || [])
+      .filter(message => message.direction === 'inbound')
+      .map((message): SmsGatewayReply => ({
+        sid: message.sid,
+        from: message.from || '',
+        body: message.body || '',
+        dateSent: new Date(message.date_sent || message.date_created || 0).toISOString(),
+      }))
+      .filter(reply => new Date(reply.dateSent).getTime() >= sinceTime);
+
+    return { ok: true, replies };
+  }
+
+  /**
+   * Poll until the message reaches a final status or the timeout passes, and
+   * return the last status seen.
+   */
+  async waitForDelivery(
+    sid: string,
+    { intervalMs = POLL_INTERVAL_MS, timeoutMs = POLL_TIMEOUT_MS } = {}
+  ): Promise<SmsGatewayResult> {
+    const deadline = Date.now() + timeoutMs;
+    let latest = await this.getMessage(sid);
+
+    while (latest.ok && !FINAL_STATUSES.includes(latest.message.status) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      latest = await this.getMessage(sid);
+    }
+
+    return latest;
+  }
+
+  private toMessageResult(response: GatewayResponse<TwilioMessage>): SmsGatewayResult {
+    if (!response.ok) return response;
+    const { payload } = response;
+    return {
+      ok: true,
+      message: {
+        sid: payload.sid,
+        status: payload.status,
+        errorCode: payload.error_code ?? undefined,
+        errorMessage: payload.error_message ?? undefined,
+      },
+    };
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    form?: Record<string, string>
+  ): Promise<GatewayResponse<T>> {
+    const baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+    const url = `${baseUrl}/${API_VERSION}/Accounts/${encodeURIComponent(this.config.accountSid)}${path}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Basic ${btoa(`${this.config.accountSid}:${this.config.authToken}`)}`,
+          Accept: 'application/json',
+          ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+        },
+        body: form ? encodeForm(form) : undefined,
+        signal: controller.signal,
+      });
+      const payload: unknown = await response.json().catch(() => null);
+
+      if (!response.ok || !payload || typeof payload !== 'object') {
+        const body = (payload && typeof payload === 'object' ? payload : {}) as TwilioErrorBody;
+        return {
+          ok: false,
+          httpStatus: response.status,
+          errorCode: body.code,
+          error: describeGatewayError(body.code, body.message || `HTTP ${response.status}`),
+        };
+      }
+
+      // Twilio answers a successful request with the resource it asked for
+      return { ok: true, payload: payload as T };
+    } catch (error) {
+      return {
+        ok: false,
+        error: controller.signal.aborted ? 'Gateway did not respond in time' : `Network error: ${error}`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
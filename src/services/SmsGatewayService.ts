@@ -0,0 +1,137 @@
+import * as SecureStore from 'expo-secure-store';
+import { SmsGatewayConfig, SmsGatewayMessageStatus } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { SmsGatewayClient, SmsGatewayReply, SmsGatewayResult, describeGatewayError } from './SmsGatewayClient';
+
+export type SmsDeliveryListener = (sid: string, status: SmsGatewayMessageStatus) => void;
+
+export class SmsGatewayService {
+  private static readonly CONFIG_KEY = 'sms_gateway_config';
+  private static readonly deliveryListeners = new Set<SmsDeliveryListener>();
+
+  static async getConfig(): Promise<SmsGatewayConfig | null> {
+    try {
+      const configJson = await SecureStore.getItemAsync(this.CONFIG_KEY);
+      return configJson ? JSON.parse(configJson) as SmsGatewayConfig : null;
+    } catch (error) {
+      console.error('Failed to load SMS gateway settings:', error);
+      return null;
+    }
+  }
+
+  static async saveConfig(config: SmsGatewayConfig): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(this.CONFIG_KEY, JSON.stringify(config));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'sms_gateway_saved',
+        // Never log the credentials themselves
+        details: `SMS gateway set to ${config.baseUrl} sending from ${config.fromNumber}`
+      });
+    } catch (error) {
+      throw new Error(`Failed to save SMS gateway settings: ${error}`);
+    }
+  }
+
+  static async clearConfig(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.CONFIG_KEY);
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'sms_gateway_removed',
+        details: 'SMS gateway removed'
+      });
+    } catch (error) {
+      throw new Error(`Failed to remove SMS gateway settings: ${error}`);
+    }
+  }
+
+  /**
+   * Hand a message to the gateway. Returns null when no gateway is set up.
+   * Delivery is then tracked in the background and audited when it settles.
+   */
+  static async send(phoneNumber: string, body: string, contactName: string): Promise<SmsGatewayResult | null> {
+    const config = await this.getConfig();
+    if (!config) return null;
+
+    const client = new SmsGatewayClient(config);
+    const result = await client.sendMessage(phoneNumber, body);
+
+    if (!result.ok) {
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: 'sms_gateway_error',
+        details: `Text to ${contactName} rejected: ${result.error}`
+          + (result.errorCode ? ` (code ${result.errorCode})` : '')
+      });
+      return result;
+    }
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'sms_gateway_accepted',
+      details: `Text to ${contactName} accepted by gateway (${result.message.sid}, ${result.message.status})`
+    });
+
+    this.trackDelivery(client, result.message.sid, contactName);
+    return result;
+  }
+
+  /**
+   * Be told the final status of each text once delivery tracking settles.
+   * Returns a function that removes the listener.
+   */
+  static addDeliveryListener(listener: SmsDeliveryListener): () => void {
+    this.deliveryListeners.add(listener);
+    return () => {
+      this.deliveryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Texts sent to the gateway number since the given time. Empty when no
+   * gateway is set up or it cannot be reached.
+   */
+  static async fetchReplies(since: string): Promise<SmsGatewayReply[]> {
+    const config = await this.getConfig();
+    if (!config) return [];
+
+    const result = await new SmsGatewayClient(config).listReplies(since);
+    if (!result.ok) {
+      console.warn('Failed to fetch SMS replies:', result.error);
+      return [];
+    }
+    return result.replies;
+  }
+
+  private static async trackDelivery(client: SmsGatewayClient, sid: string, contactName: string): Promise<void> {
+    try {
+      const result = await client.waitForDelivery(sid);
+      if (!result.ok) {
+        await SecureStorage.addAuditEntry({
+          timestamp: new Date().toISOString(),
+          action: 'sms_gateway_status_unknown',
+          details: `Could not check delivery of text to ${contactName}: ${result.error}`
+        });
+        return;
+      }
+
+      const { status, errorCode, errorMessage } = result.message;
+      const delivered = status === 'delivered';
+      this.deliveryListeners.forEach(listener => listener(sid, status));
+
+      await SecureStorage.addAuditEntry({
+        timestamp: new Date().toISOString(),
+        action: delivered ? 'sms_gateway_delivered' : `sms_gateway_${status}`,
+        details: delivered
+          ? `Text delivered to ${contactName}`
+          : `Text to ${contactName} ${status}`
+            + (errorCode || errorMessage ? `: ${describeGatewayError(errorCode, errorMessage)}` : '')
+      });
+    } catch (error) {
+      console.error('Failed to track SMS delivery:', error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Pure rules for how a text message is encoded and split into segments.
+ * Nothing here touches storage or native modules.
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  // Characters as the network counts them; GSM extension characters count twice
+  length: number;
+  segments: number;
+  // Longest text that fits in the same number of segments
+  capacity: number;
+  // Characters that forced UCS-2, if any
+  unicodeCharacters: string[];
+}
+
+// GSM 03.38 default alphabet, without the escape character
+const GSM7_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?'
+  + '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+// Sent as an escape plus a character, so each takes two places
+const GSM7_EXTENSION = new Set('^{}\\[~]|€\f');
+
+const GSM7_SINGLE_SEGMENT = 160;
+const GSM7_MULTI_SEGMENT = 153;
+const UCS2_SINGLE_SEGMENT = 70;
+const UCS2_MULTI_SEGMENT = 67;
+
+// Typography phones and keyboards slip in that would otherwise force UCS-2
+const REPLACEMENTS: [RegExp, string][] = [
+  [/[‘’‚′]/g, '\''],
+  [/[“”„″]/g, '"'],
+  [/[–—−]/g, '-'],
+  [/…/g, '...'],
+  [/[\u00a0\u2007\u202f]/g, ' '],
+  [/±/g, '+/-'],
+];
+
+export const normaliseForSms = (text: string): string =>
+  REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+const isGsm7Character = (character: string): boolean =>
+  GSM7_BASIC.has(character) || GSM7_EXTENSION.has(character);
+
+export const detectEncoding = (text: string): SmsEncoding =>
+  Array.from(text).every(isGsm7Character) ? 'GSM-7' : 'UCS-2';
+
+export const countSegments = (text: string): SmsSegmentInfo => {
+  const characters = Array.from(text);
+  const unicodeCharacters = Array.from(new Set(characters.filter(character => !isGsm7Character(character))));
+
+  if (unicodeCharacters.length === 0) {
+    const length = characters.reduce((total, character) => total + (GSM7_EXTENSION.has(character) ? 2 : 1), 0);
+    const segments = length <= GSM7_SINGLE_SEGMENT ? 1 : Math.ceil(length / GSM7_MULTI_SEGMENT);
+    return {
+      encoding: 'GSM-7',
+      length,
+      segments,
+      capacity: segments === 1 ? GSM7_SINGLE_SEGMENT : segments * GSM7_MULTI_SEGMENT,
+      unicodeCharacters,
+    };
+  }
+
+  // UCS-2 counts UTF-16 code units, so most emoji take two places
+  const length = text.length;
+  const segments = length <= UCS2_SINGLE_SEGMENT ? 1 : Math.ceil(length / UCS2_MULTI_SEGMENT);
+  return {
+    encoding: 'UCS-2',
+    length,
+    segments,
+    capacity: segments === 1 ? UCS2_SINGLE_SEGMENT : segments * UCS2_MULTI_SEGMENT,
+    unicodeCharacters,
+  };
+};
+
+/**
+ * "2 texts (GSM-7, 290 of 306 characters)", for previews and audit entries.
+ */
+export const describeSegments = (info: SmsSegmentInfo): string =>
+  `${info.segments} ${info.segments === 1 ? 'text' : 'texts'} (${info.encoding}, ${info.length} of ${info.capacity} characters)`;
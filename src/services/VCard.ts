@@ -0,0 +1,346 @@
+import {
+  CareCoordinator,
+  EmergencyContact,
+  MessageLanguage,
+  NotificationChannelType,
+  SharedMedicalField
+} from '../types/accessibility';
+import { SavedContactKind } from './ContactImport';
+import { MESSAGE_LANGUAGE_LABELS } from './MessageTemplates';
+import { NOTIFICATION_CHANNEL_LABELS } from './NotificationRouting';
+import { SHARED_FIELDS, matchingSharingLevel, sharedMedicalFields } from './MedicalSharing';
+
+/**
+ * Pure rules for writing and reading vCard (.vcf) files, versions 3.0 and
+ * 4.0. Nothing here touches storage or native modules.
+ *
+ * Details vCard has no place for travel in X- properties, so another copy
+ * of this app reads them back exactly and other apps ignore them.
+ */
+
+export type VCardVersion = '3.0' | '4.0';
+
+export const DEFAULT_VCARD_VERSION: VCardVersion = '4.0';
+
+export const VCARD_VERSION_LABELS: Record<VCardVersion, string> = {
+  '4.0': 'vCard 4.0',
+  '3.0': 'vCard 3.0 (older phones and address books)',
+};
+
+export const VCARD_MIME_TYPE = 'text/vcard';
+
+export type VCardRecord =
+  | { kind: 'emergency_contact'; contact: EmergencyContact }
+  | { kind: 'care_coordinator'; coordinator: CareCoordinator };
+
+export interface VCardParseResult {
+  records: VCardRecord[];
+  // One line per card that could not be read
+  errors: string[];
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Written to CATEGORIES so a card says which list it belongs on
+const CATEGORY_LABELS: Record<SavedContactKind, string> = {
+  emergency_contact: 'Emergency contact',
+  care_coordinator: 'Care team',
+};
+
+// Cards from other apps have no relationship, and one is required
+const DEFAULT_RELATIONSHIP = 'Other';
+
+// vCard lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (character: string): number => {
+  const codePoint = character.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of Array.from(line)) {
+    const length = utf8Length(character);
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + length > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += character;
+    octets += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\,;nN])/g, (_, character: string) => (character.toLowerCase() === 'n' ? '\n' : character));
+
+// Split on separators that are not escaped, leaving each part still escaped
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+    if (character === '\\' && index + 1 < value.length) {
+      current += character + value[index + 1];
+      index++;
+    } else if (character === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += character;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const splitName = (name: string): { given: string; family: string } => {
+  const words = name.trim().split(/\s+/);
+  return words.length > 1
+    ? { given: words.slice(0, -1).join(' '), family: words[words.length - 1] }
+    : { given: name.trim(), family: '' };
+};
+
+const property = (name: string, value: string, params: string[] = []): string =>
+  foldLine([name, ...params].join(';') + ':' + value);
+
+const textProperty = (name: string, value: string, params: string[] = []): string =>
+  property(name, escapeText(value), params);
+
+const listProperty = (name: string, values: string[]): string =>
+  property(name, values.map(escapeText).join(','));
+
+const cardLines = (
+  version: VCardVersion,
+  kind: SavedContactKind,
+  entry: { id: string; name: string; phoneNumber: string; email?: string; isPrimary: boolean },
+  phoneType: string,
+  extra: string[]
+): string[] => {
+  const { given, family } = splitName(entry.name);
+  return [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    ...(version === '4.0' ? ['KIND:individual'] : []),
+    textProperty('UID', entry.id),
+    textProperty('FN', entry.name),
+    property('N', [family, given, '', '', ''].map(escapeText).join(';')),
+    textProperty('TEL', entry.phoneNumber, [version === '4.0' ? `TYPE=${phoneType}` : `TYPE=${phoneType.toUpperCase()}`]),
+    ...(entry.email ? [textProperty('EMAIL', entry.email, version === '3.0' ? ['TYPE=INTERNET'] : [])] : []),
+    ...extra,
+    listProperty('CATEGORIES', [CATEGORY_LABELS[kind]]),
+    textProperty('X-PRIMARY', entry.isPrimary ? 'TRUE' : 'FALSE'),
+    'END:VCARD',
+  ];
+};
+
+export const emergencyContactToVCard = (contact: EmergencyContact, version: VCardVersion = DEFAULT_VCARD_VERSION): string =>
+  cardLines(version, 'emergency_contact', contact, 'cell', [
+    textProperty('X-RELATIONSHIP', contact.relationship),
+    ...(contact.channels?.length ? [listProperty('X-ALERT-CHANNELS', contact.channels)] : []),
+    ...(contact.language ? [textProperty('X-MESSAGE-LANGUAGE', contact.language)] : []),
+    listProperty('X-MEDICAL-SHARING', sharedMedicalFields(contact)),
+  ]).join('\r\n');
+
+export const careCoordinatorToVCard = (coordinator: CareCoordinator, version: VCardVersion = DEFAULT_VCARD_VERSION): string =>
+  cardLines(version, 'care_coordinator', coordinator, 'work', [
+    textProperty('TITLE', coordinator.title),
+    property('ORG', escapeText(coordinator.organization)),
+    ...(coordinator.specialization ? [textProperty('ROLE', coordinator.specialization)] : []),
+  ]).join('\r\n');
+
+/**
+ * One file holding the emergency contacts followed by the care team.
+ */
+export const exportVCards = (
+  contacts: EmergencyContact[],
+  coordinators: CareCoordinator[],
+  version: VCardVersion = DEFAULT_VCARD_VERSION
+): string =>
+  [
+    ...contacts.map(contact => emergencyContactToVCard(contact, version)),
+    ...coordinators.map(coordinator => careCoordinatorToVCard(coordinator, version)),
+  ].map(card => card + '\r\n').join('');
+
+const parseProperty = (line: string): VCardProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    if (line[index] === ':' && !inQuotes) {
+      colon = index;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    // vCard 2.1 and some 3.0 writers leave out "TYPE=", as in TEL;CELL
+    const [paramName, paramValue] = rest.length > 0 ? [key, rest.join('=')] : ['TYPE', key];
+    const name = paramName.toUpperCase();
+    const value = paramValue.replace(/^"|"$/g, '');
+    params[name] = params[name] ? `${params[name]},${value}` : value;
+  }
+
+  return {
+    // Drop any group prefix, as in item1.TEL
+    name: rawName.replace(/^.*\./, '').toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+};
+
+const splitCards = (text: string): VCardProperty[][] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const cards: VCardProperty[][] = [];
+  let current: VCardProperty[] | null = null;
+
+  for (const line of lines) {
+    const parsed = line.trim() ? parseProperty(line) : null;
+    if (!parsed) continue;
+    if (parsed.name === 'BEGIN' && parsed.value.toUpperCase() === 'VCARD') {
+      current = [];
+    } else if (parsed.name === 'END' && parsed.value.toUpperCase() === 'VCARD') {
+      if (current) cards.push(current);
+      current = null;
+    } else if (current) {
+      current.push(parsed);
+    }
+  }
+  return cards;
+};
+
+const typesOf = (prop: VCardProperty): string[] =>
+  (prop.params.TYPE || '').toLowerCase().split(',').filter(Boolean);
+
+const readText = (card: VCardProperty[], name: string): string | undefined => {
+  const found = card.find(prop => prop.name === name);
+  return found ? unescapeText(found.value).trim() || undefined : undefined;
+};
+
+const readList = (card: VCardProperty[], name: string): string[] | undefined => {
+  const found = card.find(prop => prop.name === name);
+  return found ? splitUnescaped(found.value, ',').map(unescapeText).map(value => value.trim()).filter(Boolean) : undefined;
+};
+
+const readName = (card: VCardProperty[]): string | undefined => {
+  const formatted = readText(card, 'FN');
+  if (formatted) return formatted;
+
+  const structured = card.find(prop => prop.name === 'N');
+  if (!structured) return undefined;
+  const [family = '', given = ''] = splitUnescaped(structured.value, ';').map(unescapeText);
+  return [given, family].map(part => part.trim()).filter(Boolean).join(' ') || undefined;
+};
+
+// A mobile is best for alerts, then whichever number is marked preferred
+const readPhone = (card: VCardProperty[]): string | undefined => {
+  const phones = card.filter(prop => prop.name === 'TEL');
+  const best = phones.find(prop => typesOf(prop).includes('cell'))
+    || phones.find(prop => typesOf(prop).includes('pref') || prop.params.PREF === '1')
+    || phones[0];
+  return best ? unescapeText(best.value).replace(/^tel:/i, '').trim() || undefined : undefined;
+};
+
+const readKind = (card: VCardProperty[]): SavedContactKind => {
+  const categories = (readList(card, 'CATEGORIES') || []).map(category => category.toLowerCase());
+  const tagged = (Object.keys(CATEGORY_LABELS) as SavedContactKind[])
+    .find(kind => categories.includes(CATEGORY_LABELS[kind].toLowerCase()));
+  if (tagged) return tagged;
+  return readText(card, 'ORG') || readText(card, 'TITLE') ? 'care_coordinator' : 'emergency_contact';
+};
+
+const readEmergencyContact = (card: VCardProperty[], base: {
+  id: string; name: string; phoneNumber: string; email?: string; isPrimary: boolean;
+}): EmergencyContact => {
+  const channels = readList(card, 'X-ALERT-CHANNELS')
+    ?.filter((channel): channel is NotificationChannelType => channel in NOTIFICATION_CHANNEL_LABELS);
+  const language = readText(card, 'X-MESSAGE-LANGUAGE');
+  const fields = readList(card, 'X-MEDICAL-SHARING')
+    ?.filter((field): field is SharedMedicalField => SHARED_FIELDS.includes(field as SharedMedicalField));
+  const level = fields ? matchingSharingLevel(fields) : null;
+
+  return {
+    ...base,
+    relationship: readText(card, 'X-RELATIONSHIP') || DEFAULT_RELATIONSHIP,
+    ...(channels?.length ? { channels } : {}),
+    ...(language && language in MESSAGE_LANGUAGE_LABELS ? { language: language as MessageLanguage } : {}),
+    ...(fields ? (level ? { sharingLevel: level } : { sharedFields: fields }) : {}),
+  };
+};
+
+const readCareCoordinator = (card: VCardProperty[], base: {
+  id: string; name: string; phoneNumber: string; email?: string; isPrimary: boolean;
+}): CareCoordinator => {
+  // ORG may carry departments after the organisation name
+  const organization = card.find(prop => prop.name === 'ORG');
+  const specialization = readText(card, 'ROLE');
+  return {
+    ...base,
+    title: readText(card, 'TITLE') || '',
+    organization: organization ? unescapeText(splitUnescaped(organization.value, ';')[0]).trim() : '',
+    ...(specialization ? { specialization } : {}),
+  };
+};
+
+/**
+ * Read every card in a .vcf file. A card needs a name and a phone number;
+ * anything else missing is left for validation to report. Cards keep their
+ * UID as the record id unless it is missing or already taken.
+ */
+export const parseVCards = (text: string, takenIds: string[] = [], now: Date = new Date()): VCardParseResult => {
+  const records: VCardRecord[] = [];
+  const errors: string[] = [];
+  const usedIds = new Set(takenIds);
+
+  splitCards(text).forEach((card, index) => {
+    const name = readName(card);
+    const phoneNumber = readPhone(card);
+    if (!name || !phoneNumber) {
+      errors.push(`Card ${index + 1}${name ? ` (${name})` : ''} has no ${name ? 'phone number' : 'name'}`);
+      return;
+    }
+
+    const kind = readKind(card);
+    const uid = readText(card, 'UID');
+    const prefix = kind === 'emergency_contact' ? 'contact' : 'coordinator';
+    const id = uid && !usedIds.has(uid) ? uid : `${prefix}_${now.getTime()}_${index}`;
+    usedIds.add(id);
+
+    const email = readText(card, 'EMAIL');
+    const base = {
+      id,
+      name,
+      phoneNumber,
+      ...(email ? { email } : {}),
+      isPrimary: readText(card, 'X-PRIMARY')?.toUpperCase() === 'TRUE',
+    };
+
+    records.push(kind === 'emergency_contact'
+      ? { kind, contact: readEmergencyContact(card, base) }
+      : { kind, coordinator: readCareCoordinator(card, base) });
+  });
+
+  if (records.length === 0 && errors.length === 0) {
+    errors.push('No contact cards found in this file');
+  }
+  return { records, errors };
+};
@@ -0,0 +1,153 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { CareCoordinator, EmergencyContact } from '../types/accessibility';
+import { SecureStorage } from './SecureStorage';
+import { EmergencyContactService } from './EmergencyContactService';
+import { FormValidation } from '../components/forms/FormValidation';
+import { describeSavedContact, findSavedContact, savedContacts } from './ContactImport';
+import {
+  DEFAULT_VCARD_VERSION,
+  VCARD_MIME_TYPE,
+  VCardVersion,
+  exportVCards,
+  parseVCards
+} from './VCard';
+
+export interface VCardImportSummary {
+  contactsAdded: string[];
+  coordinatorsAdded: string[];
+  // Cards that were read but not added, with the reason
+  skipped: string[];
+}
+
+const EXPORT_FILE_NAME = 'emergency-contacts.vcf';
+
+export class VCardService {
+  /**
+   * Write the emergency contacts and care team to a .vcf file and open the
+   * share sheet. Returns false if there was nothing to share or sharing is
+   * not available.
+   */
+  static async exportContacts(version: VCardVersion = DEFAULT_VCARD_VERSION): Promise<boolean> {
+    const profile = await SecureStorage.getMedicalProfile();
+    const contacts = profile?.emergencyContacts || [];
+    const coordinators = await SecureStorage.getCareCoordinators();
+    if (contacts.length === 0 && coordinators.length === 0) return false;
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return false;
+    }
+
+    const file = new File(Paths.cache, EXPORT_FILE_NAME);
+    file.create({ overwrite: true });
+    file.write(exportVCards(contacts, coordinators, version));
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: VCARD_MIME_TYPE,
+      UTI: 'public.vcard',
+      dialogTitle: 'Share emergency contacts'
+    });
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'contacts_exported',
+      details: `Shared ${contacts.length} emergency contacts and ${coordinators.length} care coordinators as vCard ${version}`
+    });
+    return true;
+  }
+
+  /**
+   * Let the user choose a .vcf file and add its cards. Returns null if they
+   * cancelled the file picker.
+   */
+  static async pickAndImport(): Promise<VCardImportSummary | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: [VCARD_MIME_TYPE, 'text/x-vcard', 'text/directory'],
+      copyToCacheDirectory: true
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+
+    return this.importContacts(await new File(result.assets[0].uri).text());
+  }
+
+  /**
+   * Add the cards in a .vcf file to the emergency contacts and care team.
+   * Anyone already on the same list is skipped, and emergency contacts must
+   * pass the same validation as the profile screen.
+   */
+  static async importContacts(text: string): Promise<VCardImportSummary> {
+    const profile = await SecureStorage.getMedicalProfile();
+    const existingContacts = profile?.emergencyContacts || [];
+    const existingCoordinators = await SecureStorage.getCareCoordinators();
+    const { records, errors } = parseVCards(text, [
+      ...existingContacts.map(contact => contact.id),
+      ...existingCoordinators.map(coordinator => coordinator.id)
+    ]);
+
+    const skipped = [...errors];
+    const newContacts: EmergencyContact[] = [];
+    const newCoordinators: CareCoordinator[] = [];
+
+    for (const record of records) {
+      if (record.kind === 'emergency_contact') {
+        const duplicate = findSavedContact(record.contact, savedContacts([...existingContacts, ...newContacts], []));
+        if (duplicate) {
+          skipped.push(describeSavedContact(duplicate));
+        } else if (!profile) {
+          skipped.push(`${record.contact.name}: set up your medical profile before adding emergency contacts`);
+        } else {
+          newContacts.push(record.contact);
+        }
+      } else {
+        const duplicate = findSavedContact(record.coordinator, savedContacts([], [...existingCoordinators, ...newCoordinators]));
+        const phone = FormValidation.validateField(record.coordinator.phoneNumber, FormValidation.commonRules.phone);
+        if (duplicate) {
+          skipped.push(describeSavedContact(duplicate));
+        } else if (!phone.isValid) {
+          skipped.push(`Invalid phone number for ${record.coordinator.name}: ${record.coordinator.phoneNumber}`);
+        } else {
+          newCoordinators.push(record.coordinator);
+        }
+      }
+    }
+
+    const { contactErrors } = await EmergencyContactService.validateEmergencyContacts(newContacts);
+    const validContacts = newContacts.filter(contact => !contactErrors[contact.id]);
+    skipped.push(...newContacts.flatMap(contact => contactErrors[contact.id] || []));
+
+    if (profile && validContacts.length > 0) {
+      await SecureStorage.saveMedicalProfile({
+        ...profile,
+        emergencyContacts: [...existingContacts, ...validContacts],
+        lastUpdated: new Date().toISOString()
+      });
+    }
+
+    if (newCoordinators.length > 0) {
+      // Only one coordinator can be primary; an existing one keeps the role
+      let hasPrimary = existingCoordinators.some(coordinator => coordinator.isPrimary);
+      const added = newCoordinators.map(coordinator => {
+        const isPrimary = coordinator.isPrimary && !hasPrimary;
+        hasPrimary = hasPrimary || isPrimary;
+        return { ...coordinator, isPrimary };
+      });
+      await SecureStorage.saveCareCoordinators([...existingCoordinators, ...added]);
+    }
+
+    const summary: VCardImportSummary = {
+      contactsAdded: validContacts.map(contact => contact.name),
+      coordinatorsAdded: newCoordinators.map(coordinator => coordinator.name),
+      skipped
+    };
+
+    await SecureStorage.addAuditEntry({
+      timestamp: new Date().toISOString(),
+      action: 'contacts_imported',
+      details: `Imported ${summary.contactsAdded.length} emergency contacts and ${summary.coordinatorsAdded.length} care coordinators from vCard`
+        + (skipped.length > 0 ? `, skipped ${skipped.length}` : '')
+    });
+
+    return summary;
+  }
+}
@@ -23,6 +23,8 @@ export interface TouchTargetProps {
 
 export interface EmergencyButtonProps extends AccessibilityProps, TouchTargetProps {
   onPress: () => void;
+  // Press and hold gesture; runs without haptics or announcements
+  onLongPress?: () => void;
   disabled?: boolean;
   size?: 'small' | 'medium' | 'large';
   style?: any;
@@ -38,6 +40,7 @@ export interface EmergencyConfirmationProps {
   onConfirm: () => void;
   onCancel: () => void;
   countdownSeconds?: number;
+  trigger?: EmergencyTrigger;
 }
 
 // Phase 3: Medical Profile and Emergency Flow Types
@@ -63,8 +66,155 @@ export interface EmergencyContact {
   relationship: string;
   phoneNumber: string;
   isPrimary: boolean;
+  email?: string;
+  pushToken?: string; // Expo push token from the contact's own device
+  channels?: NotificationChannelType[]; // Tried in order; defaults to the SMS composer
+  language?: MessageLanguage; // Language of the alerts they receive; defaults to English
+  sharingLevel?: MedicalSharingLevel; // Medical details in their alerts; defaults to full
+  sharedFields?: SharedMedicalField[]; // Chosen field by field; overrides the level when set
+}
+
+// How much of the medical profile a contact's alerts include
+export type MedicalSharingLevel = 'location_only' | 'basic' | 'full';
+
+// Medical details that can be left out of a contact's alerts
+export type SharedMedicalField = 'blood_type' | 'allergies' | 'medications' | 'conditions';
+
+// Languages alert messages can be written in
+export type MessageLanguage = 'en' | 'it';
+
+// Ways an alert can reach a contact
+export type NotificationChannelType = 'sms_composer' | 'sms_gateway' | 'email' | 'push' | 'webhook' | 'local';
+
+// 'cancelled' means the person closed the messaging app without sending
+export type NotificationChannelOutcome = 'sent' | 'failed' | 'unavailable' | 'cancelled';
+
+export interface NotificationChannelAttempt {
+  channel: NotificationChannelType;
+  contactName: string;
+  outcome: NotificationChannelOutcome;
+  detail?: string;
+  reference?: string; // Message id from the channel, e.g. the gateway SID
+  batchId?: string; // Shared by contacts sent one message together
+  timestamp: string;
+}
+
+export interface ContactDispatchResult {
+  contactName: string;
+  delivered: boolean;
+  attempts: NotificationChannelAttempt[];
+  replyCode?: string; // Code the contact replies with to acknowledge
+  disclosedFields?: SharedMedicalField[]; // Medical details the alert included
+}
+
+// Where the alert to one contact got to on this phone
+export type ContactDeliveryState = 'queued' | 'handed_off' | 'cancelled_by_user' | 'failed';
+
+export interface ContactDelivery {
+  contactName: string;
+  state: ContactDeliveryState;
+  channel?: NotificationChannelType; // Last channel tried
+  reason?: string; // Why it was not sent, or why sending is unconfirmed
+  batchId?: string; // Set when sent together with other contacts
+  updatedAt: string;
+}
+
+// How far a contact has got with an emergency alert, in order
+export type ContactAlertProgress = 'sent' | 'delivered' | 'acknowledged' | 'en_route';
+
+export type ContactAcknowledgementSource = 'reply' | 'gateway' | 'manual';
+
+export interface ContactAlertStatus {
+  contactName: string;
+  phoneNumber: string;
+  replyCode?: string; // Not set when the alert was one message shared with other contacts
+  status: ContactAlertProgress;
+  channel?: NotificationChannelType;
+  reference?: string;
+  sentAt: string;
+  updatedAt: string;
+  source?: ContactAcknowledgementSource; // What last moved the status on
 }
 
+// A reply, delivery receipt or manual mark to apply to a contact's status
+export interface ContactAcknowledgementUpdate {
+  status: ContactAlertProgress;
+  source: ContactAcknowledgementSource;
+  receivedAt: string;
+  replyCode?: string;
+  reference?: string;
+  phoneNumber?: string;
+  contactName?: string;
+}
+
+// Whether a contact has confirmed that a test message reached them
+export type ContactVerificationStatus = 'unverified' | 'pending' | 'verified';
+
+export interface ContactVerification {
+  contactId: string;
+  phoneNumber: string; // Number the test went to; a new number needs verifying again
+  status: Exclude<ContactVerificationStatus, 'unverified'>;
+  replyCode: string;
+  channel?: NotificationChannelType;
+  sentAt: string;
+  verifiedAt?: string;
+  source?: Exclude<ContactAcknowledgementSource, 'gateway'>; // How the contact confirmed
+}
+
+// Endpoints for channels that send through a server rather than the device
+export interface NotificationChannelSettings {
+  emailRelayUrl?: string;
+  webhookUrl?: string;
+  deliveryMode?: NotificationDeliveryMode; // Defaults to individual
+}
+
+// What a message to contacts is about
+export type NotificationMessageKind =
+  | 'emergency_alert'
+  | 'location_update'
+  | 'stand_down'
+  | 'duress_alert'
+  | 'contact_verification';
+
+// A message that could not be sent to a contact, kept to try again
+export interface OutboxItem {
+  id: string; // Session, kind and contact; a newer message with the same id replaces it
+  sessionId: string;
+  contact: EmergencyContact;
+  kind: NotificationMessageKind;
+  subject: string;
+  body: string;
+  replyCode?: string;
+  covert?: boolean;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+// Whether contacts on the same channel get one message together, e.g. a
+// single messaging app composer with every recipient
+export type NotificationDeliveryMode = 'individual' | 'grouped';
+
+// Account for a Twilio-compatible SMS gateway; kept in secure storage
+export interface SmsGatewayConfig {
+  baseUrl: string;
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+}
+
+// Message states reported by Twilio-compatible gateways
+export type SmsGatewayMessageStatus =
+  | 'accepted'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'undelivered'
+  | 'failed'
+  | 'canceled';
+
 export interface EmergencySession {
   id: string;
   startTime: string;
@@ -76,8 +226,100 @@ export interface EmergencySession {
     timestamp: string;
   };
   medicalProfileId: string;
+  trigger?: EmergencyTrigger;
+  emergencyType?: EmergencyType;
+  category?: EmergencyCategory;
   contactsNotified: string[];
   auditLog: AuditEntry[];
+  escalation?: EscalationState;
+  emergencyNumber?: EmergencyNumber;
+  emergencyCalls?: EmergencyCallAttempt[];
+  breadcrumbs?: LocationBreadcrumb[];
+  lastLocationUpdateAt?: string;
+  contactStatuses?: ContactAlertStatus[];
+  contactDeliveries?: ContactDelivery[];
+  /** Set when the duress PIN was used; the emergency carries on silently */
+  duressAt?: string;
+}
+
+export interface LocationBreadcrumb {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: string;
+}
+
+// Incident timeline assembled from a session's audit log for review
+export interface IncidentTimelineEntry {
+  timestamp: string;
+  action: string;
+  label: string;
+  details?: string;
+  elapsedMs: number; // Time since the emergency started
+  location?: LocationBreadcrumb; // Last known position at this point
+}
+
+export interface IncidentPhase {
+  label: string;
+  durationMs: number;
+}
+
+export interface IncidentContactOutcome {
+  name: string;
+  alertedAt?: string;
+  alertedBy?: string; // Initial alert or the escalation stage that reached them
+  progress?: ContactAlertProgress;
+  allClearSent: boolean;
+}
+
+export interface IncidentTimeline {
+  entries: IncidentTimelineEntry[];
+  phases: IncidentPhase[];
+  contacts: IncidentContactOutcome[];
+}
+
+export type EmergencyNumberSource = 'override' | 'location' | 'locale' | 'default';
+
+export interface EmergencyNumber {
+  number: string;
+  countryCode?: string;
+  source: EmergencyNumberSource;
+}
+
+export interface EmergencyCallAttempt {
+  number: string;
+  timestamp: string;
+  outcome: 'dialer_opened' | 'unavailable' | 'failed';
+}
+
+export type EmergencyTrigger = 'button' | 'fall_detection' | 'missed_check_in' | 'deep_link' | 'help_notification';
+
+// What kind of emergency it is; shapes the alert text and on-screen guidance
+export type EmergencyCategory =
+  | 'medical'
+  | 'fall'
+  | 'chest_pain'
+  | 'breathing_difficulty'
+  | 'personal_safety'
+  | 'fire'
+  | 'missed_check_in';
+
+// Outcome of entering a PIN to cancel an emergency
+export type CancellationPinResult = 'cancel' | 'duress' | 'invalid';
+
+// Silent emergencies suppress speech, haptics and alerts on the device
+export type EmergencyType = 'general' | 'silent';
+
+export interface EmergencyTransitionOptions {
+  /** What started the emergency, when entering confirmation */
+  trigger?: EmergencyTrigger;
+  emergencyType?: EmergencyType;
+  /** Chosen by the user; automatic triggers supply their own */
+  category?: EmergencyCategory;
+  /** Note for contacts, sent with the all-clear when the emergency closes */
+  note?: string;
+  /** Close without an all-clear, when a new emergency takes this one's place */
+  skipStandDown?: boolean;
 }
 
 export type EmergencyStatus = 'detection' | 'confirmation' | 'in_progress' | 'follow_up' | 'cancelled' | 'completed';
@@ -93,10 +335,29 @@ export interface EmergencyFlowProps {
   currentStatus: EmergencyStatus;
   session: EmergencySession | null;
   medicalProfile: MedicalProfile | null;
-  onStatusChange: (status: EmergencyStatus) => void;
+  onStatusChange: (status: EmergencyStatus, options?: EmergencyTransitionOptions) => Promise<void> | void;
   onCancel: () => void;
+  onResponseAcknowledged?: () => void;
+  onContactAcknowledged?: (contactName: string, status: ContactAlertProgress) => void;
+  onCallEmergencyServices?: () => void;
+  nextCheckInDue?: string | null;
+  onCheckIn?: () => void;
+  onSilentEmergency?: () => void;
+  // Shown when the screen was opened from app navigation
+  onBack?: () => void;
 }
 
+// Screens reachable through app navigation. The emergency flow screens are
+// driven by the emergency state machine rather than by routes.
+export type AppRoute =
+  | 'home'
+  | 'emergency'
+  | 'medical-profile'
+  | 'care-coordinators'
+  | 'check-ins'
+  | 'emergency-history'
+  | 'emergency-settings';
+
 // Phase 4: Healthcare Features Types
 export interface MedicationReminder {
   id: string;
@@ -140,4 +401,46 @@ export interface HealthcareSettings {
   careCoordinatorNotifications: boolean;
   dataBackup: boolean;
   accessibilityPreferences: AccessibilityPreferences;
-}
\ No newline at end of file
+}
+
+// Escalation ladder for unanswered emergencies
+export type EscalationStage = 'primary_contacts' | 'secondary_contacts' | 'care_coordinators' | 'emergency_services';
+
+export interface EscalationStep {
+  stage: EscalationStage;
+  waitMinutes: number; // Time to wait for acknowledgement after the previous step
+}
+
+export interface EscalationPolicy {
+  enabled: boolean;
+  steps: EscalationStep[];
+}
+
+export interface EscalationState {
+  // The policy in force when escalation started; later edits do not apply
+  // to an emergency that is already running
+  policy?: EscalationPolicy;
+  nextStepIndex: number;
+  nextStepAt?: string;
+  completedStages: EscalationStage[];
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  // Set while the emergency is in follow-up, with the wait that was left
+  pausedAt?: string;
+  pausedRemainingMs?: number;
+}
+
+export type CheckInScheduleType = 'daily' | 'interval';
+
+export interface CheckInSchedule {
+  id: string;
+  type: CheckInScheduleType;
+  dailyTime?: string; // HH:MM deadline for daily check-ins
+  intervalHours?: number; // Hours between check-ins for interval schedules
+  graceMinutes: number;
+  isActive: boolean;
+  nextDueAt: string;
+  lastCheckInAt?: string;
+  lastMissedAt?: string;
+  missedCount: number;
+}
@@ -1,8 +1,26 @@
-import { AccessibilityInfo, Platform } from 'react-native';
+import { useEffect, useRef } from 'react';
+import { AccessibilityInfo, Platform, Text, findNodeHandle } from 'react-native';
 import * as Speech from 'expo-speech';
 import { ScreenReaderAnnouncement } from '../types/accessibility';
 
 export class ScreenReaderAnnouncer {
+  private static silent = false;
+
+  /**
+   * Suppress all announcements, e.g. during a silent emergency. Speech already
+   * under way is cut off unless `finishCurrent` is set.
+   */
+  static setSilent(silent: boolean, options?: { finishCurrent?: boolean }): void {
+    if (silent && !this.silent && !options?.finishCurrent) {
+      Speech.stop();
+    }
+    this.silent = silent;
+  }
+
+  static isSilent(): boolean {
+    return this.silent;
+  }
+
   static async announce(
     message: string, 
     options?: {
@@ -16,6 +34,10 @@ export class ScreenReaderAnnouncer {
     if (delay > 0) {
       await new Promise(resolve => setTimeout(resolve, delay));
     }
+
+    if (this.silent) {
+      return;
+    }
     
     try {
       // Check if screen reader is enabled
@@ -118,4 +140,28 @@ export const AccessibilityHelpers = {
     accessibilityHint: hint,
     accessibilityRole: role as any,
   }),
-};
\ No newline at end of file
+};
+
+// Give the new screen time to mount before moving screen-reader focus
+const HEADER_FOCUS_DELAY_MS = 300;
+
+/**
+ * Returns a ref for a screen's header. Screen-reader focus moves to it when
+ * the screen mounts so navigation is announced from the top of the page.
+ */
+export const useHeaderFocus = () => {
+  const headerRef = useRef<Text>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const node = headerRef.current ? findNodeHandle(headerRef.current) : null;
+      if (node) {
+        AccessibilityInfo.setAccessibilityFocus(node);
+      }
+    }, HEADER_FOCUS_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, []);
+
+  return headerRef;
+};
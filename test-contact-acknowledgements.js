@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+
+// Checks how contacts' text replies to an emergency alert are read.
+// Usage: node test-contact-acknowledgements.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const {
+  applyContactAcknowledgement,
+  parseAcknowledgementReply,
+  parseGatewayReply,
+  recordContactAlerts
+} = loadTypeScriptModule('src/services/ContactAcknowledgements.ts');
+
+const sentAt = '2026-10-19T09:00:00.000Z';
+const receivedAt = '2026-10-19T09:02:00.000Z';
+
+const session = {
+  id: 'emergency_1',
+  startTime: sentAt,
+  auditLog: [],
+  contactStatuses: [{
+    contactName: 'Jane Smith',
+    phoneNumber: '+61400123457',
+    replyCode: '1234',
+    status: 'sent',
+    channel: 'sms_gateway',
+    sentAt,
+    updatedAt: sentAt
+  }],
+  escalation: { nextStepIndex: 1, nextStepAt: '2026-10-19T09:05:00.000Z', completedStages: ['primary_contacts'] }
+};
+
+const statusOf = (text) => parseAcknowledgementReply(text)?.status || null;
+
+// Replies as they come in from the gateway, applied to the session
+const reply = (body) => {
+  const update = parseGatewayReply({ from: '+61400123457', body }, receivedAt);
+  return update ? applyContactAcknowledgement(session, update) : null;
+};
+
+const run = async () => {
+  console.log('🧪 Testing contact acknowledgements...\n');
+
+  const scenarios = [
+    {
+      name: 'Yes words and the reply code count as seeing the alert',
+      run: () => statusOf('OK 1234') === 'acknowledged'
+        && parseAcknowledgementReply('ok 1234').replyCode === '1234'
+        && statusOf('1234') === 'acknowledged'
+        && statusOf('Yes, got it') === 'acknowledged'
+        && statusOf('Sì') === 'acknowledged'
+    },
+    {
+      name: 'On-my-way words count as on the way',
+      run: () => statusOf('OMW 1234') === 'en_route'
+        && statusOf('Coming now!') === 'en_route'
+        && statusOf('Sto arrivando 1234') === 'en_route'
+        && statusOf('ARRIVO 1234') === 'en_route'
+    },
+    {
+      name: 'Refusals are not read as a yes, even with the reply code',
+      run: () => ['I can\'t go 1234', 'I can’t come', 'non vengo 1234', 'Not coming', 'No', 'Stop', 'Busy right now', 'Wrong number']
+        .every(text => statusOf(text) === null)
+    },
+    {
+      name: 'Replies that say neither are not read as a yes',
+      run: () => ['who is this?', 'Going to the shops', 'Ring me', '?', '']
+        .every(text => statusOf(text) === null)
+    },
+    {
+      name: 'Words only match whole',
+      run: () => statusOf('Gotham') === null && statusOf('bookshop') === null && statusOf('coming') === 'en_route'
+    },
+    {
+      name: 'A refusal keeps the escalation going',
+      run: () => reply('Can\'t come, sorry 1234') === null
+        && reply('non vengo') === null
+        && reply('who is this?') === null
+    },
+    {
+      name: 'Contacts sent a shared message are tracked without a reply code',
+      run: () => {
+        const attempt = (contactName, batchId) =>
+          ({ channel: 'sms_composer', contactName, outcome: 'sent', batchId, timestamp: sentAt });
+        const statuses = recordContactAlerts([], [
+          { contactName: 'Sam Lee', delivered: true, attempts: [attempt('Sam Lee', 'batch_1')] },
+          { contactName: 'Ana Ruiz', delivered: true, attempts: [attempt('Ana Ruiz')], replyCode: '5678' }
+        ], [
+          { id: 'contact_2', name: 'Sam Lee', phoneNumber: '(555) 123-4567', relationship: 'Friend', isPrimary: true },
+          { id: 'contact_3', name: 'Ana Ruiz', phoneNumber: '(555) 765-4321', relationship: 'Friend', isPrimary: true }
+        ]);
+        const grouped = { ...session, contactStatuses: statuses };
+        const update = parseGatewayReply({ from: '+15551234567', body: 'OMW' }, receivedAt);
+        const result = applyContactAcknowledgement(grouped, update);
+        return statuses[0].replyCode === undefined
+          && statuses[1].replyCode === '5678'
+          && result.contact.contactName === 'Sam Lee';
+      }
+    },
+    {
+      name: 'An on-my-way reply stops the escalation',
+      run: () => {
+        const result = reply('OMW 1234');
+        return result.contact.status === 'en_route'
+          && result.session.escalation.acknowledgedBy === 'Jane Smith'
+          && !result.session.escalation.nextStepAt;
+      }
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'Contact acknowledgement');
+};
+
+run();
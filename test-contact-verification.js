@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+// Checks the rules for verifying emergency contacts with test messages.
+// Usage: node test-contact-verification.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const {
+  confirmVerification,
+  contactVerificationStatus,
+  isReverificationDue,
+  matchVerificationReply,
+  nextReverificationAt,
+  startVerification,
+  summariseReadiness
+} = loadTypeScriptModule('src/services/ContactVerification.ts');
+const { composeVerificationTest } = loadTypeScriptModule('src/services/MessageTemplates.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const sentAt = '2026-10-01T09:00:00.000Z';
+
+const jane = { id: 'contact_1', name: 'Jane Smith', phoneNumber: '+61 412 345 678', relationship: 'Spouse', isPrimary: true };
+const sam = { id: 'contact_2', name: 'Sam Lee', phoneNumber: '(555) 123-4567', relationship: 'Friend', isPrimary: false };
+
+const sent = (contact, code) => startVerification([], contact, {
+  contactName: contact.name,
+  delivered: true,
+  attempts: [{ channel: 'sms_gateway', contactName: contact.name, outcome: 'sent', timestamp: sentAt }]
+}, code);
+
+const verified = (contact, verifiedAt) =>
+  confirmVerification(sent(contact, '1111'), contact, 'manual', verifiedAt).verifications;
+
+const run = async () => {
+  console.log('🧪 Testing contact verification...\n');
+
+  const scenarios = [
+    {
+      name: 'Contacts start unverified and are pending once a test is sent',
+      run: () => contactVerificationStatus(jane, []) === 'unverified'
+        && contactVerificationStatus(jane, sent(jane, '1234')) === 'pending'
+    },
+    {
+      name: 'A reply with the code verifies the contact',
+      run: () => {
+        const verifications = [...sent(jane, '1234'), ...sent(sam, '5678')];
+        const contact = matchVerificationReply([jane, sam], verifications, {
+          from: '+15551234567',
+          body: 'ok 5678',
+          receivedAt: '2026-10-01T09:05:00.000Z'
+        });
+        const confirmed = confirmVerification(verifications, contact, 'reply', '2026-10-01T09:05:00.000Z');
+        return contact === sam
+          && contactVerificationStatus(sam, confirmed.verifications) === 'verified'
+          && contactVerificationStatus(jane, confirmed.verifications) === 'pending';
+      }
+    },
+    {
+      name: 'Replies from other numbers or sent before the test are ignored',
+      run: () => {
+        const verifications = sent(jane, '1234');
+        return !matchVerificationReply([jane], verifications, {
+          from: '+15559990000', body: 'OK 1234', receivedAt: '2026-10-01T09:05:00.000Z'
+        }) && !matchVerificationReply([jane], verifications, {
+          from: '0412 345 678', body: 'OK', receivedAt: '2026-09-30T09:05:00.000Z'
+        });
+      }
+    },
+    {
+      name: 'A changed number needs verifying again',
+      run: () => contactVerificationStatus({ ...jane, phoneNumber: '+61 400 000 000' }, verified(jane, sentAt)) === 'unverified'
+    },
+    {
+      name: 'Re-verification is due after 90 days',
+      run: () => {
+        const [verification] = verified(jane, sentAt);
+        const dueAt = nextReverificationAt([jane], [verification]);
+        return dueAt.getTime() === new Date(sentAt).getTime() + 90 * DAY_MS
+          && !isReverificationDue(verification, new Date(dueAt.getTime() - 1))
+          && isReverificationDue(verification, dueAt);
+      }
+    },
+    {
+      name: 'Only a verified primary contact makes contacts ready',
+      run: () => {
+        const now = new Date('2026-10-02T00:00:00.000Z');
+        const onlySam = summariseReadiness([jane, sam], verified(sam, sentAt), now);
+        const withJane = summariseReadiness([jane, sam], verified(jane, sentAt), now);
+        const stale = summariseReadiness([jane], verified(jane, sentAt), new Date('2027-06-01T00:00:00.000Z'));
+        return !onlySam.isReady
+          && onlySam.summary === 'Send a test message to your primary contact'
+          && withJane.isReady
+          && withJane.summary === '1 of 2 contacts verified'
+          && stale.isReady
+          && stale.reverifyCount === 1;
+      }
+    },
+    {
+      name: 'Test messages say they are a test and carry no medical details',
+      run: () => {
+        const profile = { personalInfo: { firstName: 'Maria', lastName: 'Rossi', bloodType: 'O-', allergies: ['Penicillin'] } };
+        const english = composeVerificationTest(profile, { language: 'en', appName: 'Healthcare', replyCode: '4321' });
+        const italian = composeVerificationTest(profile, { language: 'it', appName: 'Healthcare', replyCode: '4321' });
+        return english.text.startsWith('TEST ONLY - NOT AN EMERGENCY\n')
+          && english.text.includes('OK 4321')
+          && !english.text.includes('Penicillin')
+          && italian.text.startsWith('SOLO UNA PROVA')
+          && english.segmentInfo.encoding === 'GSM-7'
+          && italian.segmentInfo.encoding === 'GSM-7';
+      }
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'Contact verification');
+};
+
+run();
@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+
+// Drives the emergency state machine through its transitions on a desktop.
+// Usage: node test-emergency-state-machine.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const { EmergencyStateMachine } = loadTypeScriptModule('src/services/EmergencyStateMachine.ts');
+
+const createSession = (status) => ({
+  id: 'emergency_1',
+  startTime: '2026-10-19T09:00:00.000Z',
+  status,
+  trigger: 'button',
+  emergencyType: 'general',
+  contactsNotified: [],
+  auditLog: []
+});
+
+// Holds timers until the test runs them, so no real time passes
+const createScheduler = () => {
+  const timers = [];
+  return {
+    timers,
+    setTimeout: (callback, ms) => {
+      const timer = { callback, ms, cleared: false };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimeout: (timer) => {
+      timer.cleared = true;
+    },
+    runAll: () => timers.filter(timer => !timer.cleared).forEach(timer => {
+      timer.cleared = true;
+      timer.callback();
+    })
+  };
+};
+
+// Entry effects that open a session on confirmation and move its status on
+const sessionEffects = (extra = {}) => ({
+  onEnter: {
+    confirmation: () => createSession('confirmation'),
+    in_progress: ({ session }) => ({ ...session, status: 'in_progress' }),
+    follow_up: ({ session }) => ({ ...session, status: 'follow_up' }),
+    completed: ({ session }) => ({ ...session, status: 'completed' }),
+    cancelled: ({ session }) => ({ ...session, status: 'cancelled' }),
+    ...extra
+  }
+});
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const run = async () => {
+  console.log('🧪 Testing emergency state machine...\n');
+
+  const scenarios = [
+    {
+      name: 'Only listed transitions are allowed',
+      run: async () => EmergencyStateMachine.canTransition('detection', 'confirmation')
+        && EmergencyStateMachine.canTransition('follow_up', 'in_progress')
+        && EmergencyStateMachine.canTransition('cancelled', 'confirmation')
+        && !EmergencyStateMachine.canTransition('detection', 'in_progress')
+        && !EmergencyStateMachine.canTransition('follow_up', 'detection')
+        && !EmergencyStateMachine.canTransition('confirmation', 'completed')
+    },
+    {
+      name: 'A rejected transition leaves the state alone and is logged',
+      run: async () => {
+        const machine = new EmergencyStateMachine({ autoResetDelayMs: null });
+        const result = await machine.transition('in_progress');
+        const [event] = machine.getEventLog();
+        return !result.accepted
+          && result.reason === 'Transition from detection to in_progress is not allowed'
+          && machine.getState().status === 'detection'
+          && event.type === 'transition_rejected';
+      }
+    },
+    {
+      name: 'A full emergency runs from confirmation to completed',
+      run: async () => {
+        const machine = new EmergencyStateMachine({ effects: sessionEffects(), autoResetDelayMs: null });
+        const seen = [];
+        machine.subscribe(state => seen.push(state.status));
+        for (const status of ['confirmation', 'in_progress', 'follow_up', 'completed']) {
+          if (!(await machine.transition(status)).accepted) return false;
+        }
+        const state = machine.getState();
+        return state.status === 'completed'
+          && state.session.status === 'completed'
+          && seen.includes('in_progress')
+          && seen[seen.length - 1] === 'completed';
+      }
+    },
+    {
+      name: 'Built-in guards need a session, and only one at a time',
+      run: async () => {
+        const noSession = new EmergencyStateMachine({ autoResetDelayMs: null });
+        await noSession.transition('confirmation');
+        const withoutSession = await noSession.transition('in_progress');
+
+        // No effects, so the cancelled session keeps its in_progress status
+        const stale = new EmergencyStateMachine({ autoResetDelayMs: null });
+        stale.restore(createSession('in_progress'));
+        await stale.transition('cancelled');
+        const overlapping = await stale.transition('confirmation');
+
+        return withoutSession.reason === 'No active emergency session'
+          && overlapping.reason === 'Session emergency_1 is still active'
+          && stale.getState().status === 'cancelled';
+      }
+    },
+    {
+      name: 'Guards supplied by the app can reject a transition',
+      run: async () => {
+        const machine = new EmergencyStateMachine({
+          effects: sessionEffects(),
+          guards: { cancelled: [() => 'PIN required'] },
+          autoResetDelayMs: null
+        });
+        await machine.transition('confirmation');
+        const result = await machine.transition('cancelled');
+        return !result.accepted && result.reason === 'PIN required' && machine.getState().status === 'confirmation';
+      }
+    },
+    {
+      name: 'Transitions wait for the previous one\'s effects',
+      run: async () => {
+        const order = [];
+        const machine = new EmergencyStateMachine({
+          effects: sessionEffects({
+            confirmation: async () => {
+              order.push('confirmation started');
+              await delay(20);
+              order.push('confirmation finished');
+              return createSession('confirmation');
+            },
+            in_progress: ({ session }) => {
+              order.push('in_progress');
+              return { ...session, status: 'in_progress' };
+            }
+          }),
+          autoResetDelayMs: null
+        });
+        // Not awaited in between: in_progress still sees the new session
+        const first = machine.transition('confirmation');
+        const second = machine.transition('in_progress');
+        const results = await Promise.all([first, second]);
+        return results.every(result => result.accepted)
+          && order.join(',') === 'confirmation started,confirmation finished,in_progress';
+      }
+    },
+    {
+      name: 'A failing effect does not stop the emergency',
+      run: async () => {
+        const machine = new EmergencyStateMachine({
+          effects: sessionEffects({ in_progress: () => { throw new Error('SMS failed'); } }),
+          autoResetDelayMs: null
+        });
+        await machine.transition('confirmation');
+        const result = await machine.transition('in_progress');
+        return result.accepted
+          && machine.getState().status === 'in_progress'
+          && machine.getEventLog().some(event => event.type === 'effect_failed' && event.reason === 'Error: SMS failed');
+      }
+    },
+    {
+      name: 'A closed session returns to detection after 3 seconds',
+      run: async () => {
+        const scheduler = createScheduler();
+        const machine = new EmergencyStateMachine({ effects: sessionEffects(), scheduler });
+        await machine.transition('confirmation');
+        await machine.transition('cancelled');
+        const [timer] = scheduler.timers;
+        if (!timer || timer.ms !== 3000 || machine.getState().status !== 'cancelled') return false;
+
+        scheduler.runAll();
+        await delay(10);
+        const state = machine.getState();
+        return state.status === 'detection' && state.session === null;
+      }
+    },
+    {
+      name: 'Starting again before the reset cancels it',
+      run: async () => {
+        const scheduler = createScheduler();
+        const machine = new EmergencyStateMachine({ effects: sessionEffects(), scheduler });
+        await machine.transition('confirmation');
+        await machine.transition('cancelled');
+        await machine.transition('confirmation');
+        return scheduler.timers[0].cleared && machine.getState().status === 'confirmation';
+      }
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'Emergency state machine');
+};
+
+run();
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+// Runs the fall detector against motion traces on a desktop.
+// Usage: node test-fall-detection.js [trace.json]
+// A trace is a JSON array of { timestamp, acceleration: {x,y,z}, rotationRate?: {x,y,z} }
+
+const fs = require('fs');
+const path = require('path');
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const { detectFalls } = loadTypeScriptModule('src/services/FallDetector.ts');
+
+const SAMPLE_INTERVAL_MS = 50;
+
+// Build a trace from segments of constant acceleration with a little noise
+const buildTrace = (segments) => {
+  const samples = [];
+  let timestamp = 0;
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return ((seed / 2147483647) - 0.5) * 0.04;
+  };
+
+  for (const { durationMs, g, rotation = 0 } of segments) {
+    for (let elapsed = 0; elapsed < durationMs; elapsed += SAMPLE_INTERVAL_MS) {
+      samples.push({
+        timestamp,
+        acceleration: { x: noise(), y: noise(), z: g + noise() },
+        rotationRate: { x: rotation, y: 0, z: 0 }
+      });
+      timestamp += SAMPLE_INTERVAL_MS;
+    }
+  }
+  return samples;
+};
+
+const walking = (durationMs) => {
+  const segments = [];
+  for (let elapsed = 0; elapsed < durationMs; elapsed += 500) {
+    segments.push({ durationMs: 250, g: 1.4, rotation: 1 }, { durationMs: 250, g: 0.7, rotation: 1 });
+  }
+  return segments;
+};
+
+const scenarios = [
+  {
+    name: 'Fall followed by lying still',
+    expected: 1,
+    trace: buildTrace([
+      ...walking(3000),
+      { durationMs: 300, g: 0.2 },
+      { durationMs: 100, g: 3.6, rotation: 4 },
+      { durationMs: 400, g: 1.8, rotation: 2 },
+      { durationMs: 6000, g: 1 }
+    ])
+  },
+  {
+    name: 'Fall then getting straight back up',
+    expected: 0,
+    trace: buildTrace([
+      ...walking(2000),
+      { durationMs: 100, g: 3.2, rotation: 4 },
+      { durationMs: 1500, g: 1 },
+      ...walking(6000)
+    ])
+  },
+  {
+    name: 'Sitting down heavily then shifting in the chair',
+    expected: 0,
+    trace: buildTrace([
+      ...walking(2000),
+      { durationMs: 100, g: 2.6, rotation: 1 },
+      { durationMs: 1000, g: 1 },
+      { durationMs: 500, g: 1.3, rotation: 1 },
+      { durationMs: 2000, g: 1 },
+      { durationMs: 500, g: 0.8, rotation: 1 },
+      { durationMs: 2000, g: 1 }
+    ])
+  },
+  {
+    name: 'Normal walking',
+    expected: 0,
+    trace: buildTrace(walking(20000))
+  },
+  {
+    name: 'Two falls inside the cooldown',
+    expected: 1,
+    trace: buildTrace([
+      { durationMs: 100, g: 3.5, rotation: 4 },
+      { durationMs: 5000, g: 1 },
+      { durationMs: 100, g: 3.5, rotation: 4 },
+      { durationMs: 5000, g: 1 }
+    ])
+  }
+];
+
+console.log('🧪 Testing Fall Detection...\n');
+
+const tracePath = process.argv[2];
+if (tracePath) {
+  const trace = JSON.parse(fs.readFileSync(tracePath, 'utf8'));
+  const detections = detectFalls(trace);
+  console.log(`📈 ${path.basename(tracePath)}: ${trace.length} samples, ${detections.length} falls detected`);
+  for (const detection of detections) {
+    console.log(`   • impact at ${detection.impactAt}ms (${detection.peakG.toFixed(2)}g), detected at ${detection.detectedAt}ms`);
+  }
+  process.exit(0);
+}
+
+const run = async () => {
+  const failures = await runScenarios(scenarios.map(scenario => ({
+    name: scenario.name,
+    run: () => {
+      const detected = detectFalls(scenario.trace).length;
+      if (detected !== scenario.expected) {
+        throw new Error(`expected ${scenario.expected}, detected ${detected}`);
+      }
+      return true;
+    }
+  })));
+
+  reportResults(failures, 'Fall detection');
+};
+
+run();
@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+
+// Checks how alerts fall back across a contact's channels, alone and grouped.
+// Usage: node test-notification-dispatcher.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const {
+  LocalNotificationChannel,
+  NotificationDispatcher,
+  createLocalDispatcher
+} = loadTypeScriptModule('src/services/NotificationDispatcher.ts');
+
+const contact = (name, channels) =>
+  ({ id: name, name, phoneNumber: '(555) 123-4567', relationship: 'Friend', isPrimary: true, channels });
+
+const message = (replyCode) => ({
+  kind: 'emergency_alert',
+  sessionId: 'emergency_1',
+  subject: 'EMERGENCY ALERT',
+  body: `Maria needs help. Reply OK ${replyCode}`,
+  replyCode,
+  groupBody: 'Maria needs help.'
+});
+
+// A channel that can only message one contact at a time
+const singleChannel = () => {
+  const channel = new LocalNotificationChannel();
+  return { channel, adapter: { label: 'Single', send: (to, sent) => channel.send(to, sent) } };
+};
+
+const outcomes = (result) => result.attempts.map(attempt => `${attempt.channel}:${attempt.outcome}`).join(',');
+
+const run = async () => {
+  console.log('🧪 Testing notification dispatcher...\n');
+
+  const scenarios = [
+    {
+      name: 'Channels are tried in the contact\'s order and stop at the first that sends',
+      run: async () => {
+        const gateway = new LocalNotificationChannel({ failFor: ['Jane'] });
+        const email = new LocalNotificationChannel();
+        const push = new LocalNotificationChannel();
+        const dispatcher = new NotificationDispatcher({ sms_gateway: gateway, email, push });
+        const result = await dispatcher.dispatch(contact('Jane', ['sms_gateway', 'email', 'push']), message('1234'));
+        return result.delivered
+          && result.replyCode === '1234'
+          && outcomes(result) === 'sms_gateway:failed,email:sent'
+          && result.attempts[0].detail === 'Simulated failure'
+          && email.deliveries.length === 1
+          && push.deliveries.length === 0;
+      }
+    },
+    {
+      name: 'Missing and crashing channels fall through to the next one',
+      run: async () => {
+        const email = new LocalNotificationChannel();
+        const broken = { label: 'Broken', send: async () => { throw new Error('offline'); } };
+        const dispatcher = new NotificationDispatcher({ push: broken, email });
+        const result = await dispatcher.dispatch(contact('Jane', ['webhook', 'push', 'email']), message('1234'));
+        return result.delivered
+          && outcomes(result) === 'webhook:unavailable,push:failed,email:sent'
+          && result.attempts[0].detail === 'Channel not supported'
+          && result.attempts[1].detail === 'Error: offline';
+      }
+    },
+    {
+      name: 'A contact no channel reaches is reported as not delivered',
+      run: async () => {
+        const dispatcher = createLocalDispatcher(new LocalNotificationChannel({ failFor: ['Jane'] }));
+        const result = await dispatcher.dispatch(contact('Jane', ['sms_gateway', 'email']), message('1234'));
+        return !result.delivered && outcomes(result) === 'sms_gateway:failed,email:failed';
+      }
+    },
+    {
+      name: 'Contacts without channels get the messaging app',
+      run: async () => {
+        const local = new LocalNotificationChannel();
+        const result = await createLocalDispatcher(local).dispatch(contact('Jane'), message('1234'));
+        return outcomes(result) === 'sms_composer:sent' && local.deliveries[0].message.body.endsWith('OK 1234');
+      }
+    },
+    {
+      name: 'Every attempt is passed to the recorder',
+      run: async () => {
+        const recorded = [];
+        const dispatcher = createLocalDispatcher(
+          new LocalNotificationChannel({ failFor: ['Jane'] }),
+          (attempt, sent) => { recorded.push(`${attempt.contactName}:${attempt.outcome}:${sent.kind}`); }
+        );
+        await dispatcher.dispatchMany([
+          { contact: contact('Jane', ['sms_gateway', 'email']), message: message('1234') },
+          { contact: contact('Sam', ['email']), message: message('5678') }
+        ]);
+        return recorded.join(',') === 'Jane:failed:emergency_alert,Jane:failed:emergency_alert,Sam:sent:emergency_alert';
+      }
+    },
+    {
+      name: 'One at a time, each contact gets their own message',
+      run: async () => {
+        const local = new LocalNotificationChannel();
+        const results = await createLocalDispatcher(local).dispatchMany([
+          { contact: contact('Jane', ['sms_composer']), message: message('1234') },
+          { contact: contact('Sam', ['sms_composer']), message: message('5678') }
+        ], 'individual');
+        return results.map(result => `${result.contactName}:${result.replyCode}`).join(',') === 'Jane:1234,Sam:5678'
+          && local.deliveries.map(delivery => delivery.message.body).join('|') === 'Maria needs help. Reply OK 1234|Maria needs help. Reply OK 5678'
+          && results.every(result => !result.attempts[0].batchId);
+      }
+    },
+    {
+      name: 'Grouped contacts on the same channel share one message without reply codes',
+      run: async () => {
+        const local = new LocalNotificationChannel();
+        const results = await createLocalDispatcher(local).dispatchMany([
+          { contact: contact('Jane', ['sms_composer']), message: message('1234') },
+          { contact: contact('Sam', ['sms_composer']), message: message('5678') },
+          { contact: contact('Ana', ['email']), message: message('9012') }
+        ], 'grouped');
+        const [jane, sam, ana] = results;
+        return results.map(result => result.contactName).join(',') === 'Jane,Sam,Ana'
+          && jane.attempts[0].batchId
+          && jane.attempts[0].batchId === sam.attempts[0].batchId
+          && jane.replyCode === undefined
+          && sam.replyCode === undefined
+          && !ana.attempts[0].batchId
+          && ana.replyCode === '9012'
+          && local.deliveries.filter(delivery => delivery.message.body === 'Maria needs help.').length === 2;
+      }
+    },
+    {
+      name: 'A failed group falls back to each contact\'s next channel',
+      run: async () => {
+        const composer = new LocalNotificationChannel({ failFor: ['Sam'] });
+        const email = new LocalNotificationChannel();
+        const results = await new NotificationDispatcher({ sms_composer: composer, email }).dispatchMany([
+          { contact: contact('Jane', ['sms_composer', 'email']), message: message('1234') },
+          { contact: contact('Sam', ['sms_composer', 'email']), message: message('5678') }
+        ], 'grouped');
+        return results.every(result => result.delivered)
+          && results.every(result => outcomes(result) === 'sms_composer:failed,email:sent')
+          && composer.deliveries.length === 0
+          && email.deliveries.length === 2
+          && results[0].attempts[1].batchId === results[1].attempts[1].batchId
+          && results[0].attempts[1].batchId !== results[0].attempts[0].batchId;
+      }
+    },
+    {
+      name: 'Channels that cannot batch send grouped contacts one by one',
+      run: async () => {
+        const { channel, adapter } = singleChannel();
+        const results = await new NotificationDispatcher({ push: adapter }).dispatchMany([
+          { contact: contact('Jane', ['push']), message: message('1234') },
+          { contact: contact('Sam', ['push']), message: message('5678') }
+        ], 'grouped');
+        return results.every(result => result.delivered && !result.attempts[0].batchId)
+          && results.map(result => result.replyCode).join(',') === '1234,5678'
+          && channel.deliveries.length === 2;
+      }
+    },
+    {
+      name: 'Covert messages never open the messaging app',
+      run: async () => {
+        const composer = new LocalNotificationChannel();
+        const gateway = new LocalNotificationChannel();
+        const dispatcher = new NotificationDispatcher({ sms_composer: composer, sms_gateway: gateway });
+        const covert = { ...message('1234'), covert: true };
+        const [jane, sam] = await dispatcher.dispatchMany([
+          { contact: contact('Jane', ['sms_composer', 'sms_gateway']), message: covert },
+          { contact: contact('Sam'), message: covert }
+        ], 'grouped');
+        return composer.deliveries.length === 0
+          && gateway.deliveries.length === 1
+          && outcomes(jane) === 'sms_composer:unavailable,sms_gateway:sent'
+          && jane.attempts[0].detail === 'Skipped - would need the person to press send'
+          && !sam.delivered
+          && outcomes(sam) === 'sms_composer:unavailable';
+      }
+    },
+    {
+      name: 'The local channel can be cleared between runs',
+      run: async () => {
+        const local = new LocalNotificationChannel();
+        await createLocalDispatcher(local).dispatch(contact('Jane', ['webhook']), message('1234'));
+        const delivered = local.deliveries.length;
+        local.clear();
+        return delivered === 1 && local.deliveries.length === 0;
+      }
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'Notification dispatcher');
+};
+
+run();
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+// Checks which queued contact messages are kept, retried and dropped.
+// Usage: node test-notification-outbox.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const {
+  addToOutbox,
+  closeSessionInOutbox,
+  createOutboxItem,
+  isClearedBySessionEnd,
+  retryDelayMs
+} = loadTypeScriptModule('src/services/NotificationOutbox.ts');
+
+const now = new Date('2026-10-19T09:00:00.000Z');
+
+const jane = { id: 'contact_1', name: 'Jane Smith', phoneNumber: '(555) 123-4567', relationship: 'Spouse', isPrimary: true };
+const sam = { id: 'contact_2', name: 'Sam Lee', phoneNumber: '(555) 765-4321', relationship: 'Friend', isPrimary: false };
+
+const item = (contact, kind, sessionId = 'emergency_1') =>
+  createOutboxItem(contact, { kind, sessionId, subject: kind, body: kind }, 'No signal', now);
+
+const kindsOf = (items) => items.map(entry => `${entry.contact.name}:${entry.kind}:${entry.sessionId}`).sort();
+
+const run = async () => {
+  console.log('🧪 Testing notification outbox...\n');
+
+  const scenarios = [
+    {
+      name: 'Retries back off from 30 seconds up to 15 minutes',
+      run: () => retryDelayMs(1) === 30000 && retryDelayMs(2) === 60000 && retryDelayMs(10) === 15 * 60 * 1000
+    },
+    {
+      name: 'A newer message with the same id replaces the queued one',
+      run: () => {
+        const first = item(jane, 'location_update');
+        const second = { ...item(jane, 'location_update'), body: 'newer' };
+        const { items, dropped } = addToOutbox([first], second);
+        return items.length === 1 && items[0].body === 'newer' && dropped[0] === first;
+      }
+    },
+    {
+      name: 'An all-clear is not queued for a contact whose alert never went out',
+      run: () => {
+        const { items, dropped } = addToOutbox([item(jane, 'emergency_alert')], item(jane, 'stand_down'));
+        return items.length === 0 && dropped.length === 2;
+      }
+    },
+    {
+      name: 'Closing a session drops its alerts and updates for every contact',
+      run: () => {
+        const queued = [
+          item(jane, 'emergency_alert'),
+          item(sam, 'location_update'),
+          item(sam, 'stand_down'),
+          item(jane, 'duress_alert'),
+          item(jane, 'emergency_alert', 'emergency_2')
+        ];
+        const { items, dropped } = closeSessionInOutbox(queued, 'emergency_1');
+        return JSON.stringify(kindsOf(dropped)) === JSON.stringify([
+          'Jane Smith:emergency_alert:emergency_1',
+          'Sam Lee:location_update:emergency_1'
+        ]) && JSON.stringify(kindsOf(items)) === JSON.stringify([
+          'Jane Smith:duress_alert:emergency_1',
+          'Jane Smith:emergency_alert:emergency_2',
+          'Sam Lee:stand_down:emergency_1'
+        ]);
+      }
+    },
+    {
+      name: 'Queued alerts are not retried once their session is closed',
+      run: () => isClearedBySessionEnd(item(jane, 'emergency_alert'), 'completed')
+        && isClearedBySessionEnd(item(jane, 'location_update'), 'cancelled')
+        && !isClearedBySessionEnd(item(jane, 'emergency_alert'), 'in_progress')
+        && !isClearedBySessionEnd(item(jane, 'emergency_alert'), undefined)
+        && !isClearedBySessionEnd(item(jane, 'stand_down'), 'completed')
+        && !isClearedBySessionEnd(item(jane, 'duress_alert'), 'cancelled')
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'Notification outbox');
+};
+
+run();
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+// Runs the SMS gateway client against the local stand-in in sms-gateway-stub.js.
+// Usage: node test-sms-gateway.js
+
+const { createGatewayStub, AUTH_TOKEN } = require('./sms-gateway-stub');
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const { SmsGatewayClient } = loadTypeScriptModule('src/services/SmsGatewayClient.ts');
+
+const POLL = { intervalMs: 20, timeoutMs: 2000 };
+
+const run = async () => {
+  console.log('🧪 Testing SMS Gateway...\n');
+
+  const stub = createGatewayStub({ stepMs: 50 });
+  const port = await stub.listen(0);
+  const config = {
+    baseUrl: `http://localhost:${port}/`,
+    accountSid: 'ACtest',
+    authToken: AUTH_TOKEN,
+    fromNumber: '+61400000001'
+  };
+  const client = new SmsGatewayClient(config);
+
+  const scenarios = [
+    {
+      name: 'Message is delivered',
+      run: async () => {
+        const sent = await client.sendMessage('+61400123456', 'Emergency alert');
+        const final = await client.waitForDelivery(sent.message.sid, POLL);
+        return sent.ok && sent.message.status === 'queued' && final.ok && final.message.status === 'delivered';
+      }
+    },
+    {
+      name: 'Phone out of coverage is reported as undelivered',
+      run: async () => {
+        const sent = await client.sendMessage('+61400120000', 'Emergency alert');
+        const final = await client.waitForDelivery(sent.message.sid, POLL);
+        return final.ok && final.message.status === 'undelivered' && final.message.errorCode === 30003;
+      }
+    },
+    {
+      name: 'Landline is reported as failed',
+      run: async () => {
+        const sent = await client.sendMessage('+61400121111', 'Emergency alert');
+        const final = await client.waitForDelivery(sent.message.sid, POLL);
+        return final.ok && final.message.status === 'failed' && final.message.errorCode === 30006;
+      }
+    },
+    {
+      name: 'Invalid number is rejected with a readable error',
+      run: async () => {
+        const result = await client.sendMessage('0400', 'Emergency alert');
+        return !result.ok && result.errorCode === 21211 && result.error === 'Phone number is not valid';
+      }
+    },
+    {
+      name: 'Wrong auth token is rejected',
+      run: async () => {
+        const result = await new SmsGatewayClient({ ...config, authToken: 'wrong' }).sendMessage('+61400123456', 'x');
+        return !result.ok && result.httpStatus === 401 && result.errorCode === 20003;
+      }
+    },
+    {
+      name: 'Unknown message is reported as not found',
+      run: async () => {
+        const result = await client.getMessage('SMmissing');
+        return !result.ok && result.errorCode === 20404;
+      }
+    },
+    {
+      name: 'Replies to the sending number are listed',
+      run: async () => {
+        const since = new Date(Date.now() - 1000).toISOString();
+        await client.sendMessage('+61400123457', 'Emergency alert');
+        await fetch(`http://localhost:${port}/inbound`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ From: '+61400123457', To: config.fromNumber, Body: 'OMW 1234' }).toString()
+        });
+        const result = await client.listReplies(since);
+        return result.ok && result.replies.length === 1
+          && result.replies[0].from === '+61400123457' && result.replies[0].body === 'OMW 1234';
+      }
+    },
+    {
+      name: 'Unreachable gateway is a network error',
+      run: async () => {
+        const result = await new SmsGatewayClient({ ...config, baseUrl: 'http://localhost:1' }).sendMessage('+61400123456', 'x');
+        return !result.ok && result.error.startsWith('Network error');
+      }
+    }
+  ];
+
+  const failures = await runScenarios(scenarios);
+
+  await stub.close();
+
+  reportResults(failures, 'SMS gateway');
+};
+
+run();
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+// Round-trips emergency contacts and care coordinators through vCard files.
+// Usage: node test-vcard.js
+
+const { loadTypeScriptModule } = require('./load-typescript');
+const { reportResults, runScenarios } = require('./run-scenarios');
+
+const {
+  emergencyContactToVCard,
+  careCoordinatorToVCard,
+  exportVCards,
+  parseVCards
+} = loadTypeScriptModule('src/services/VCard.ts');
+
+const contacts = [
+  {
+    id: 'contact_1',
+    name: 'Jane Smith',
+    phoneNumber: '(555) 123-4567',
+    relationship: 'Spouse',
+    isPrimary: true,
+    email: 'jane@example.com',
+    channels: ['sms_gateway', 'sms_composer'],
+    language: 'it',
+    sharingLevel: 'basic'
+  },
+  {
+    id: 'contact_2',
+    name: 'Tomás O\'Brien-Nguyễn',
+    phoneNumber: '+61 412 345 678',
+    relationship: 'Friend; neighbour, next door',
+    isPrimary: false,
+    sharedFields: ['allergies', 'medications']
+  }
+];
+
+const coordinators = [
+  {
+    id: 'coordinator_1',
+    name: 'Alex Chen',
+    title: 'Dr.',
+    organization: 'City General Hospital; Cardiology Ward',
+    phoneNumber: '(555) 987-6543',
+    email: 'a.chen@example.org',
+    specialization: 'Cardiology',
+    isPrimary: true
+  },
+  {
+    id: 'coordinator_2',
+    name: 'Sam Lee',
+    title: 'Nurse',
+    organization: 'Community Care',
+    phoneNumber: '+1 (555) 222-3333',
+    isPrimary: false
+  }
+];
+
+const byKind = (records, kind) =>
+  records.filter(record => record.kind === kind).map(record => record.contact || record.coordinator);
+
+// Field order does not matter, only names and values
+const sortKeys = (record) => Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+const sameRecords = (actual, expected) =>
+  JSON.stringify(actual.map(sortKeys)) === JSON.stringify(expected.map(sortKeys));
+
+const run = async () => {
+  console.log('🧪 Testing vCard import and export...\n');
+
+  const scenarios = [
+    {
+      name: 'vCard 4.0 round trip keeps every field',
+      run: () => {
+        const { records, errors } = parseVCards(exportVCards(contacts, coordinators, '4.0'));
+        return errors.length === 0
+          && sameRecords(byKind(records, 'emergency_contact'), contacts)
+          && sameRecords(byKind(records, 'care_coordinator'), coordinators);
+      }
+    },
+    {
+      name: 'vCard 3.0 round trip keeps every field',
+      run: () => {
+        const { records, errors } = parseVCards(exportVCards(contacts, coordinators, '3.0'));
+        return errors.length === 0
+          && sameRecords(byKind(records, 'emergency_contact'), contacts)
+          && sameRecords(byKind(records, 'care_coordinator'), coordinators);
+      }
+    },
+    {
+      name: 'Version, standard and X- fields are written',
+      run: () => {
+        const card = emergencyContactToVCard(contacts[0], '3.0');
+        const coordinatorCard = careCoordinatorToVCard(coordinators[0], '4.0');
+        return card.startsWith('BEGIN:VCARD\r\nVERSION:3.0\r\n')
+          && card.includes('TEL;TYPE=CELL:(555) 123-4567')
+          && card.includes('X-RELATIONSHIP:Spouse')
+          && card.includes('X-PRIMARY:TRUE')
+          && coordinatorCard.includes('VERSION:4.0')
+          && coordinatorCard.includes('TITLE:Dr.')
+          && coordinatorCard.includes('ORG:City General Hospital\\; Cardiology Ward')
+          && coordinatorCard.includes('ROLE:Cardiology');
+      }
+    },
+    {
+      name: 'Long lines are folded to 75 octets',
+      run: () => {
+        const card = emergencyContactToVCard({ ...contacts[1], relationship: 'é'.repeat(100) });
+        const lines = card.split('\r\n');
+        const { records } = parseVCards(card);
+        return lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)
+          && records[0].contact.relationship === 'é'.repeat(100);
+      }
+    },
+    {
+      name: 'Cards from other apps are read',
+      run: () => {
+        const text = [
+          'BEGIN:VCARD',
+          'VERSION:3.0',
+          'N:Brown;Pat;;;',
+          'item1.TEL;HOME:+1 555 000 1111',
+          'TEL;TYPE=CELL,VOICE:+1 555 000 2222',
+          'END:VCARD',
+          'BEGIN:VCARD',
+          'VERSION:4.0',
+          'FN:Dr Kim',
+          'ORG:Riverside Clinic',
+          'TEL;VALUE=uri;TYPE=work:tel:+1-555-000-3333',
+          'END:VCARD'
+        ].join('\n');
+        const { records } = parseVCards(text);
+        const [contact] = byKind(records, 'emergency_contact');
+        const [coordinator] = byKind(records, 'care_coordinator');
+        return contact.name === 'Pat Brown'
+          && contact.phoneNumber === '+1 555 000 2222'
+          && contact.relationship === 'Other'
+          && contact.isPrimary === false
+          && coordinator.organization === 'Riverside Clinic'
+          && coordinator.phoneNumber === '+1-555-000-3333';
+      }
+    },
+    {
+      name: 'Cards without a name or number are reported',
+      run: () => {
+        const { records, errors } = parseVCards('BEGIN:VCARD\nVERSION:4.0\nFN:No Number\nEND:VCARD\n');
+        return records.length === 0 && errors[0] === 'Card 1 (No Number) has no phone number';
+      }
+    },
+    {
+      name: 'Taken ids are replaced on import',
+      run: () => {
+        const { records } = parseVCards(exportVCards(contacts, [], '4.0'), ['contact_1'], new Date(1000));
+        return records[0].contact.id === 'contact_1000_0' && records[1].contact.id === 'contact_2';
+      }
+    }
+  ];
+
+  reportResults(await runScenarios(scenarios), 'vCard');
+};
+
+run();